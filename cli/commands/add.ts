@@ -1,25 +1,59 @@
 import chalk from "chalk";
-import { execa } from "execa";
-import { existsSync, readFileSync, writeFileSync, mkdirSync } from "fs";
+import { existsSync, readFileSync } from "fs";
 import ora, { type Ora } from "ora";
-import { join, dirname, basename, extname } from "path";
+import { multiselect, text } from "@clack/prompts";
+import { join, basename, extname } from "path";
+import { fetchRegistryIndex, fetchRegistryIndexes } from "./find.js";
+import { rankAnimations } from "./search.js";
+import { colorizeDiff, createUnifiedDiff } from "../text-diff.js";
+import { mergeUtilsContent } from "../utils-merge.js";
+import { createTransaction } from "../transaction.js";
+import { loadPathAliases, rewriteRegistryImports } from "../import-aliases.js";
+import { resolveProjectRoot } from "../project-root.js";
+import {
+  formatComponentName,
+  getRegistrySourceOptions,
+  parseComponentName,
+  resolveComponentSource,
+  type RegistrySource,
+} from "../registry-source.js";
+import {
+  detectPackageManager,
+  getPackageFiles,
+  getPackageName,
+  installDependencies,
+} from "../package-manager.js";
+import {
+  getLockfilePath,
+  getObjectPath,
+  hashContent,
+  readLockfile,
+  recordInstall,
+  serializeLockfile,
+  toLockfilePath,
+  LOCKFILE_NAME,
+} from "../lockfile.js";
 import type {
   Framework,
   AddOptions,
   InstallContext,
   ComponentConfig,
   RegistryComponent,
-  PackageManager,
   MergeResult,
+  InstallPreview,
+  Lockfile,
+  LockfileFile,
+  LockfileFileAction,
+  PackageSpecs,
+  PlannedFile,
+  RegistryEntry,
+  RegistryFileType,
 } from "./types.js";
 
 /* -------------------------------------------------------------------------- */
 /*                                 CONSTANTS                                  */
 /* -------------------------------------------------------------------------- */
 
-const DEFAULT_REGISTRY_URL =
-  "https://raw.githubusercontent.com/nerdboi008/clipmotion/main/public/r";
-
 let DEBUG = false;
 
 /* -------------------------------------------------------------------------- */
@@ -39,49 +73,30 @@ function logError(message: string, error?: Error): void {
   }
 }
 
-function detectPackageManager(): PackageManager {
-  const cwd = process.cwd();
-
-  if (existsSync(join(cwd, "bun.lockb"))) return "bun";
-  if (existsSync(join(cwd, "pnpm-lock.yaml"))) return "pnpm";
-  if (existsSync(join(cwd, "yarn.lock"))) return "yarn";
-
-  return "npm";
-}
-
-async function installDependencies(
-  deps: string[],
-  dev: boolean = false
-): Promise<void> {
-  if (!deps.length) return;
-
-  const pm = detectPackageManager();
-  logDebug(`Installing ${dev ? "dev " : ""}dependencies with ${pm}:`, deps);
+export function readPackageNames(cwd: string): Set<string> {
+  const packageJsonPath = join(cwd, "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return new Set();
+  }
 
   try {
-    const commands: Record<PackageManager, string[]> = {
-      npm: ["install", dev ? "--save-dev" : "", ...deps].filter(Boolean),
-      yarn: ["add", dev ? "--dev" : "", ...deps].filter(Boolean),
-      pnpm: ["add", dev ? "--save-dev" : "", ...deps].filter(Boolean),
-      bun: ["add", dev ? "--dev" : "", ...deps].filter(Boolean),
-    };
-
-    await execa(pm, commands[pm], {
-      stdio: DEBUG ? "inherit" : "pipe",
-      cwd: process.cwd(),
-    });
-
-    logDebug("Dependencies installed successfully");
+    const pkg = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+    return new Set([
+      ...Object.keys(pkg.dependencies ?? {}),
+      ...Object.keys(pkg.devDependencies ?? {}),
+      ...Object.keys(pkg.peerDependencies ?? {}),
+      ...Object.keys(pkg.optionalDependencies ?? {}),
+    ]);
   } catch (error) {
-    throw new Error(
-      `Failed to install dependencies with ${pm}: ${
-        error instanceof Error ? error.message : "Unknown error"
-      }`
+    logDebug(
+      "Could not read package.json:",
+      error instanceof Error ? error.message : error
     );
+    return new Set();
   }
 }
 
-function loadConfig(cwd: string): ComponentConfig {
+export function loadConfig(cwd: string): ComponentConfig {
   const configPath = join(cwd, "clipmotion-components.json");
 
   if (!existsSync(configPath)) {
@@ -99,28 +114,6 @@ function loadConfig(cwd: string): ComponentConfig {
   }
 }
 
-function ensureDirectory(filePath: string): void {
-  const dir = dirname(filePath);
-  if (!existsSync(dir)) {
-    mkdirSync(dir, { recursive: true });
-    logDebug("Created directory:", dir);
-  }
-}
-
-function getRegistryUrl(
-  config: ComponentConfig,
-  local: boolean = false
-): string {
-  if (local) {
-    // Use local file system instead of GitHub
-    const localRegistryPath = join(process.cwd(), "public/r");
-    logDebug("Using local registry:", localRegistryPath);
-    return `file://${localRegistryPath}`;
-  }
-
-  return config.registry?.baseUrl || DEFAULT_REGISTRY_URL;
-}
-
 function displayContributorCredit(component: RegistryComponent): void {
   const c = component.meta?.contributor;
   if (!c) return;
@@ -161,44 +154,45 @@ function displayContributorCredit(component: RegistryComponent): void {
 /*                          FRAMEWORK DETECTION                               */
 /* -------------------------------------------------------------------------- */
 
-function validateFramework(framework: string): framework is Framework {
+export function validateFramework(
+  framework: string
+): framework is Framework {
   const validFrameworks: Framework[] = ["nextjs", "react", "vue", "angular"];
   return validFrameworks.includes(framework as Framework);
 }
 
+/**
+ * Frameworks the registry index lists for a component. One index request,
+ * usually already cached, instead of probing every framework's item.
+ */
 async function getAvailableFrameworks(
   componentName: string,
-  registryUrl: string
+  config: ComponentConfig,
+  options: AddOptions & { cwd: string }
 ): Promise<Framework[]> {
-  const frameworks: Framework[] = ["nextjs", "react", "vue", "angular"];
-  const available: Framework[] = [];
-
-  for (const fw of frameworks) {
-    try {
-      const url = `${registryUrl}/${fw}/${componentName}.json`;
-      const res = await fetch(url, { method: "HEAD" });
-
-      if (res.ok) {
-        available.push(fw);
-      } else {
-        logDebug(`Component not available for ${fw}: HTTP ${res.status}`);
-      }
-    } catch (error) {
-      logDebug(
-        `Failed to check ${fw} for ${componentName}:`,
-        error instanceof Error ? error.message : error
-      );
-    }
+  try {
+    const { source, name } = resolveComponentSource(
+      config,
+      componentName,
+      getRegistrySourceOptions(options, options.cwd)
+    );
+    const index = await fetchRegistryIndex(source);
+    const entry = index.animations?.find((animation) => animation.id === name);
+    return entry?.libraries ?? [];
+  } catch (error) {
+    logDebug(
+      `Failed to check frameworks for ${componentName}:`,
+      error instanceof Error ? error.message : error
+    );
+    return [];
   }
-
-  return available;
 }
 
 /* -------------------------------------------------------------------------- */
 /*                           UTILS FILE MERGING                               */
 /* -------------------------------------------------------------------------- */
 
-function isUtilsFile(filename: string): boolean {
+export function isUtilsFile(filename: string): boolean {
   const normalizedPath = filename.toLowerCase().replace(/\\/g, "/");
 
   const utilsPatterns = [
@@ -212,185 +206,63 @@ function isUtilsFile(filename: string): boolean {
   return utilsPatterns.some((pattern) => pattern.test(normalizedPath));
 }
 
-function extractFunctionNames(content: string): string[] {
-  const functions = new Set<string>();
-
-  // Match function declarations
-  const functionRegex = /(?:export\s+)?(?:async\s+)?function\s+(\w+)/g;
-  let match;
-  while ((match = functionRegex.exec(content)) !== null) {
-    functions.add(match[1]!);
-  }
-
-  // Match arrow functions and const declarations
-  const arrowRegex =
-    /(?:export\s+)?(?:const|let|var)\s+(\w+)\s*[:=]\s*(?:async\s*)?\(|(?:export\s+)?(?:const|let|var)\s+(\w+)\s*=\s*(?:async\s*)?\(/g;
-  while ((match = arrowRegex.exec(content)) !== null) {
-    const name = match[1] || match[2];
-    if (name) functions.add(name);
-  }
-
-  return Array.from(functions);
-}
-
-function extractFunctionCode(
-  content: string,
-  functionName: string
-): string | null {
-  // Try to match function declaration
-  const functionPattern = new RegExp(
-    `((?:export\\s+)?(?:async\\s+)?function\\s+${functionName}\\s*[^{]*\\{(?:[^{}]|\\{[^{}]*\\})*\\})`,
-    "s"
-  );
-
-  let match = content.match(functionPattern);
-  if (match) return match[1]!;
-
-  // Try to match arrow function or const
-  const arrowPattern = new RegExp(
-    `((?:export\\s+)?(?:const|let|var)\\s+${functionName}\\s*[:=][^;]*(?:;|\\n))`,
-    "s"
-  );
-
-  match = content.match(arrowPattern);
-  if (match) return match[1]!;
-
-  return null;
-}
-
-async function mergeUtilsFile(
-  targetPath: string,
+/**
+ * What a utils file becomes once `newContent` is merged in. `existing` is
+ * null when the file doesn't exist yet.
+ */
+function mergeUtilsFile(
+  existing: string | null,
   newContent: string,
   overwrite: boolean = false
-): Promise<MergeResult> {
-  // If file doesn't exist, create it
-  if (!existsSync(targetPath)) {
-    ensureDirectory(targetPath);
-    writeFileSync(targetPath, newContent, "utf-8");
-    logDebug("Created new utils file:", targetPath);
-    return "created";
-  }
-
-  // If overwrite flag is set, replace entirely
-  if (overwrite) {
-    writeFileSync(targetPath, newContent, "utf-8");
-    logDebug("Overwrote utils file:", targetPath);
-    return "created";
-  }
-
-  // Read existing content
-  const existingContent = readFileSync(targetPath, "utf-8");
-
-  // Extract function names
-  const newFunctions = extractFunctionNames(newContent);
-  const existingFunctions = extractFunctionNames(existingContent);
-
-  logDebug("New functions:", newFunctions);
-  logDebug("Existing functions:", existingFunctions);
-
-  // Find functions that need to be added
-  const missingFunctions = newFunctions.filter(
-    (fn) => !existingFunctions.includes(fn)
-  );
-
-  if (missingFunctions.length === 0) {
-    logDebug("All functions already exist, skipping merge");
-    return "skipped";
+): {
+  result: MergeResult;
+  content: string;
+  functions: string[];
+  conflicts: string[];
+} {
+  // New file, or replaced entirely with --overwrite
+  if (existing === null || overwrite) {
+    return {
+      result: "created",
+      content: newContent,
+      functions: [],
+      conflicts: [],
+    };
   }
 
-  logDebug("Missing functions to add:", missingFunctions);
+  const { content, added, conflicts } = mergeUtilsContent(existing, newContent);
 
-  // Extract code for missing functions
-  const functionsToAdd: string[] = [];
-  for (const fnName of missingFunctions) {
-    const fnCode = extractFunctionCode(newContent, fnName);
-    if (fnCode) {
-      functionsToAdd.push(fnCode.trim());
-    }
+  logDebug("Utils exports added:", added);
+  if (conflicts.length > 0) {
+    logDebug("Utils exports differing from the registry:", conflicts);
   }
 
-  if (functionsToAdd.length === 0) {
-    return "skipped";
+  if (content === existing) {
+    logDebug("All exports already exist, skipping merge");
+    return { result: "skipped", content, functions: [], conflicts };
   }
 
-  // Merge: append missing functions
-  const separator = "\n\n";
-  const mergedContent =
-    existingContent.trimEnd() +
-    separator +
-    functionsToAdd.join(separator) +
-    "\n";
-
-  writeFileSync(targetPath, mergedContent, "utf-8");
-  logDebug(`Merged ${functionsToAdd.length} new functions into:`, targetPath);
-
-  return "merged";
+  return { result: "merged", content, functions: added, conflicts };
 }
 
 /* -------------------------------------------------------------------------- */
 /*                              REGISTRY FETCH                                */
 /* -------------------------------------------------------------------------- */
 
-async function fetchComponent(
+export async function fetchComponent(
   componentName: string,
   framework: Framework,
-  registryUrl: string,
-  local: boolean = false
+  registry: RegistrySource
 ): Promise<RegistryComponent> {
-  // -------------------------------
-  // LOCAL REGISTRY (filesystem)
-  // -------------------------------
-  if (local) {
-    // Absolute path to local registry
-    const localRegistryPath = join(
-      __dirname,
-      "..", // build
-      "public",
-      "r"
-    );
-
-    const componentPath = join(
-      localRegistryPath,
-      framework,
-      `${componentName}.json`
-    );
-
-    logDebug("Loading component from local registry:");
-    logDebug("  Path:", componentPath);
-
-    if (!existsSync(componentPath)) {
-      throw new Error(
-        `Component "${componentName}" not found locally for ${framework}\n` +
-          `  Expected: ${componentPath}`
-      );
-    }
-
-    try {
-      const content = readFileSync(componentPath, "utf-8");
-      const data = JSON.parse(content);
-      logDebug("  Loaded successfully from local registry");
-      return data as RegistryComponent;
-    } catch (error) {
-      throw new Error(
-        `Failed to read local component: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
-    }
-  }
-
-  // -------------------------------
-  // REMOTE REGISTRY (https)
-  // -------------------------------
-  const url = `${registryUrl}/${framework}/${componentName}.json`;
+  const path = `${framework}/${componentName}.json`;
 
   logDebug("Fetching component:");
   logDebug("  Name:", componentName);
   logDebug("  Framework:", framework);
-  logDebug("  URL:", url);
+  logDebug("  Registry:", registry.location);
 
   try {
-    const res = await fetch(url);
+    const res = await registry.get(path);
 
     logDebug("  Status:", res.status);
 
@@ -404,7 +276,7 @@ async function fetchComponent(
     }
 
     const data = await res.json();
-    logDebug("  Fetched successfully from remote registry");
+    logDebug(`  Fetched successfully from ${registry.kind} registry`);
 
     return data as RegistryComponent;
   } catch (error) {
@@ -415,15 +287,166 @@ async function fetchComponent(
   }
 }
 
+/* -------------------------------------------------------------------------- */
+/*                           COMPONENT SELECTION                              */
+/* -------------------------------------------------------------------------- */
+
+/** Components every configured registry ships for `framework`, by name */
+async function fetchAvailableComponents(
+  config: ComponentConfig,
+  framework: Framework,
+  options: AddOptions & { cwd: string }
+): Promise<RegistryEntry[]> {
+  const index = await fetchRegistryIndexes(
+    config,
+    getRegistrySourceOptions(options, options.cwd)
+  );
+
+  if (!Array.isArray(index?.animations)) {
+    throw new Error("Registry index has no animations");
+  }
+
+  return rankAnimations(index.animations, "", { framework });
+}
+
+/**
+ * Narrows the list with a search, then lets the user tick components.
+ * Returns an empty list when the prompt is cancelled.
+ */
+async function promptForComponents(
+  available: RegistryEntry[]
+): Promise<string[]> {
+  let matches: RegistryEntry[] = [];
+
+  while (matches.length === 0) {
+    const query = await text({
+      message: "Search components",
+      placeholder: "leave empty to list all",
+      defaultValue: "",
+    });
+
+    if (typeof query !== "string") return [];
+
+    matches = rankAnimations(available, query);
+    if (matches.length === 0) {
+      console.log(chalk.yellow(`⚠  No components match "${query}"`));
+    }
+  }
+
+  const selected = await multiselect({
+    message: "Select components to install",
+    options: matches.map((animation) => ({
+      value: animation.id,
+      label: animation.name,
+      hint: [animation.difficulty, animation.description]
+        .filter(Boolean)
+        .join(" · "),
+    })),
+    required: false,
+  });
+
+  return Array.isArray(selected) ? selected : [];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              FILE PLANNING                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Resolves where each file of a registry item lands in the project and what
+ * goes there, with registry imports pointed at the project's aliases. `diff`
+ * relies on this to compare against exactly what `add` would write.
+ */
+export function planComponentFiles(
+  component: RegistryComponent,
+  config: ComponentConfig,
+  options: Pick<AddOptions, "cwd" | "path"> = {}
+): PlannedFile[] {
+  const cwd = options.cwd ?? process.cwd();
+  const componentBasePath = options.path ?? config.aliases.components;
+  const aliases = loadPathAliases(cwd);
+
+  // Hooks, styles and assets of multi-file items sit next to the component
+  // unless the config gives them their own alias
+  const importTargets = {
+    components: join(cwd, componentBasePath),
+    utils: join(cwd, config.aliases.utils),
+    hooks: join(cwd, config.aliases.hooks ?? componentBasePath),
+    styles: join(cwd, config.aliases.styles ?? componentBasePath),
+    assets: join(cwd, config.aliases.assets ?? componentBasePath),
+  };
+  const fileBasePaths: Partial<Record<RegistryFileType, string>> = {
+    "registry:hook": importTargets.hooks,
+    "registry:style": importTargets.styles,
+    "registry:asset": importTargets.assets,
+  };
+
+  return component.files.map((file) => {
+    const targetPath =
+      component.type === "registry:lib"
+        ? // Utils go to the configured utils path, just the filename (index.ts)
+          join(cwd, config.aliases.utils, basename(file.name))
+        : join(
+            (file.type && fileBasePaths[file.type]) ?? importTargets.components,
+            file.name
+          );
+
+    return {
+      name: file.name,
+      targetPath,
+      content: rewriteRegistryImports(
+        file.content,
+        targetPath,
+        importTargets,
+        aliases
+      ),
+      utils: isUtilsFile(targetPath),
+    };
+  });
+}
+
 /* -------------------------------------------------------------------------- */
 /*                           COMPONENT INSTALLER                              */
 /* -------------------------------------------------------------------------- */
 
+/**
+ * A bare `utils` in `@acme/hero-glow` is acme's own `utils` when acme ships
+ * one, and the default registry's otherwise. `@ns/` names are kept as is.
+ */
+async function resolveRegistryDependency(
+  dependency: string,
+  parent: string,
+  context: InstallContext
+): Promise<string> {
+  const { namespace } = parseComponentName(parent);
+  if (!namespace || /^@[^/]+\//.test(dependency)) return dependency;
+
+  const scoped = formatComponentName(namespace, dependency);
+  if (context.installed.has(scoped) || context.lockfile?.components[scoped]) {
+    return scoped;
+  }
+
+  const { source, name } = resolveComponentSource(
+    context.config,
+    scoped,
+    getRegistrySourceOptions(context.options, context.cwd)
+  );
+  const res = await source.get(`${context.framework}/${name}.json`);
+  logDebug(`  ${scoped}:`, res.status);
+
+  if (res.ok) return scoped;
+  if (res.status === 404) return dependency;
+  throw new Error(
+    `Failed to fetch component: HTTP ${res.status}: ${res.statusText}`
+  );
+}
+
 async function installSingleComponent(
   componentName: string,
   context: InstallContext
 ): Promise<boolean> {
-  const { installed, config, framework, options, spinner } = context;
+  const { cwd, installed, config, framework, options, spinner, transaction } =
+    context;
 
   // Skip if already installed
   if (installed.has(componentName)) {
@@ -433,107 +456,179 @@ async function installSingleComponent(
 
   installed.add(componentName);
 
-  spinner?.start(`Installing ${chalk.cyan(componentName)}...\n`);
+  const verb = context.preview ? "Resolving" : "Installing";
+  spinner?.start(`${verb} ${chalk.cyan(componentName)}...\n`);
 
   try {
-    const registryUrl = getRegistryUrl(config);
-    const component = await fetchComponent(
+    const { source, name } = resolveComponentSource(
+      config,
       componentName,
-      framework,
-      registryUrl,
-      options.local
+      getRegistrySourceOptions(options, cwd)
     );
+    const component = await fetchComponent(name, framework, source);
 
     // Install registry dependencies first
+    const registryDependencies: string[] = [];
     if (component.registryDependencies?.length) {
       spinner?.stop();
       logDebug("Registry dependencies:", component.registryDependencies);
 
-      for (const dep of component.registryDependencies) {
+      for (const dependency of component.registryDependencies) {
+        const dep = await resolveRegistryDependency(
+          dependency,
+          componentName,
+          context
+        );
         const success = await installSingleComponent(dep, context);
         if (!success) {
           throw new Error(`Failed to install dependency: ${dep}`);
         }
+        registryDependencies.push(dep);
       }
 
-      spinner?.start(`Installing ${chalk.cyan(componentName)}...\n`);
+      spinner?.start(`${verb} ${chalk.cyan(componentName)}...\n`);
     }
 
-    // Install npm dependencies
-    if (component.dependencies?.length) {
-      spinner && (spinner.text = `Installing npm dependencies...`);
-      await installDependencies(component.dependencies);
-    }
-
-    // Install dev dependencies
-    if (component.devDependencies?.length) {
-      spinner && (spinner.text = `Installing dev dependencies...`);
-      await installDependencies(component.devDependencies, true);
-    }
+    // Packages install in one batch once every item is in place
+    context.packages.dependencies.push(...(component.dependencies ?? []));
+    context.packages.devDependencies.push(...(component.devDependencies ?? []));
 
     // Write component files
-    const componentBasePath = options.path ?? config.aliases.components;
+    const lockedFiles: LockfileFile[] = [];
     let filesWritten = 0;
     let filesSkipped = 0;
     let filesMerged = 0;
+    const utilsConflicts: string[] = [];
+
+    const lockFile = (
+      targetPath: string,
+      content: string,
+      written: string,
+      action: LockfileFileAction,
+      exports: string[] = []
+    ) => {
+      const registryHash = hashContent(content);
+
+      // Skipped files weren't installed from this content, so it's no base
+      if (action !== "skipped") {
+        transaction.write(getObjectPath(cwd, registryHash), content);
+      }
 
-    for (const file of component.files) {
-      // // Construct proper target path
-      let targetPath: string;
+      lockedFiles.push({
+        path: toLockfilePath(cwd, targetPath),
+        hash: hashContent(written),
+        registryHash,
+        action,
+        ...(exports.length > 0 && { exports }),
+      });
+    };
 
-      if (component.type === "registry:lib") {
-        // Utils go to the configured utils path
-        targetPath = join(
-          options.cwd ?? process.cwd(),
-          config.aliases.utils,
-          basename(file.name) // Just the filename (index.ts)
-        );
+    for (const file of planComponentFiles(component, config, {
+      ...options,
+      cwd,
+    })) {
+      const { targetPath } = file;
+      const path = toLockfilePath(cwd, targetPath);
+
+      // Sees what earlier items in the run staged for the same path
+      const current = transaction.read(targetPath);
+      const existed = current !== null;
+
+      let action: LockfileFileAction;
+      let content = file.content;
+      let functions: string[] = [];
+      let conflicts: string[] = [];
+
+      // Special handling for utils files
+      if (file.utils) {
+        const merge = mergeUtilsFile(current, file.content, options.overwrite);
+        ({ content, functions, conflicts } = merge);
+        action =
+          merge.result === "created"
+            ? existed
+              ? "overwritten"
+              : "created"
+            : merge.result;
       } else {
-        // Components go to components path
-        targetPath = join(
-          options.cwd ?? process.cwd(),
-          componentBasePath,
-          file.name
-        );
+        action = !existed
+          ? "created"
+          : options.overwrite
+            ? "overwritten"
+            : "skipped";
       }
 
-      // Special handling for utils files
-      if (isUtilsFile(targetPath)) {
-        spinner && (spinner.text = `Checking utils file...`);
+      if (context.preview) {
+        context.preview.files.push({
+          component: componentName,
+          path,
+          action,
+          ...(action === "merged" && {
+            diff: createUnifiedDiff(current!, content, {
+              oldLabel: path,
+              newLabel: path,
+            }),
+          }),
+          ...(conflicts.length > 0 && { conflicts }),
+        });
+        if (action !== "skipped") {
+          transaction.write(targetPath, content);
+        }
+        continue;
+      }
 
-        const mergeResult = await mergeUtilsFile(
-          targetPath,
-          file.content,
-          options.overwrite
-        );
+      utilsConflicts.push(...conflicts.map((name) => `${name} in ${path}`));
 
-        if (mergeResult === "merged") {
+      if (action === "skipped") {
+        logDebug("File exists, skipping:", targetPath);
+        filesSkipped++;
+      } else {
+        transaction.write(targetPath, content);
+        logDebug(`Staged file (${action}):`, targetPath);
+        if (action === "merged") {
           filesMerged++;
-          logDebug("Merged utils functions into:", targetPath);
-        } else if (mergeResult === "skipped") {
-          filesSkipped++;
-          logDebug("Utils file unchanged (all functions exist):", targetPath);
         } else {
           filesWritten++;
-          logDebug("Created new utils file:", targetPath);
         }
-
-        spinner &&
-          (spinner.text = `Installing ${chalk.cyan(componentName)}...`);
-        continue;
       }
 
-      // Regular file handling
-      if (existsSync(targetPath) && !options.overwrite) {
-        logDebug("File exists, skipping:", targetPath);
-        filesSkipped++;
-        continue;
-      }
+      lockFile(
+        targetPath,
+        file.content,
+        action === "skipped" ? current! : content,
+        action,
+        functions
+      );
+    }
+
+    if (context.preview) {
+      spinner?.stop();
+      return true;
+    }
 
-      ensureDirectory(targetPath);
-      writeFileSync(targetPath, file.content, "utf-8");
-      logDebug("Wrote file:", targetPath);
-      filesWritten++;
+    if (context.lockfile) {
+      const declared = [
+        ...(component.dependencies ?? []),
+        ...(component.devDependencies ?? []),
+      ].map(getPackageName);
+      const existing = context.existingPackages ?? new Set<string>();
+      const added = declared.filter((name) => !existing.has(name));
+
+      // Later items in this run didn't add what this one just installed
+      added.forEach((name) => existing.add(name));
+
+      recordInstall(context.lockfile, {
+        name: componentName,
+        framework,
+        registry: source.id,
+        type: component.type,
+        files: lockedFiles,
+        dependencies: component.dependencies ?? [],
+        devDependencies: component.devDependencies ?? [],
+        addedDependencies: [...new Set(added)],
+        registryDependencies,
+        direct: context.requested.has(componentName),
+        installedAt: new Date().toISOString(),
+      });
     }
 
     // Build status message
@@ -553,6 +648,36 @@ async function installSingleComponent(
 
     spinner?.succeed(statusMsg);
 
+    // Same-named utils that differ were kept, the component may expect ours
+    for (const conflict of utilsConflicts) {
+      console.log(
+        chalk.yellow(
+          `  ⚠ ${conflict} differs from the registry version, kept yours`
+        )
+      );
+    }
+    if (utilsConflicts.length > 0) {
+      console.log(
+        chalk.gray(`  Compare with: clipmotion diff ${componentName}`)
+      );
+    }
+
+    // Peers are the project's to install, it picks their version
+    const provided = [
+      ...(context.existingPackages ?? []),
+      ...context.packages.dependencies.map(getPackageName),
+    ];
+    const missingPeers = (component.peerDependencies ?? []).filter(
+      (peer) => !provided.includes(getPackageName(peer))
+    );
+    if (missingPeers.length > 0) {
+      console.log(
+        chalk.yellow(
+          `  ⚠ ${componentName} expects ${missingPeers.join(", ")} in your project`
+        )
+      );
+    }
+
     // Show contributor credit after successful install
     if (!options.silent && component.meta?.contributor) {
       displayContributorCredit(component);
@@ -577,6 +702,144 @@ async function installSingleComponent(
   }
 }
 
+/* -------------------------------------------------------------------------- */
+/*                              PACKAGE INSTALL                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Drops packages the project already has and duplicates across items.
+ * A package wanted as both kinds installs once, as a runtime dependency.
+ */
+function resolvePackages(
+  packages: PackageSpecs,
+  existing: Set<string>
+): PackageSpecs {
+  const seen = new Set(existing);
+  const unique = (specs: string[]) =>
+    specs.filter((spec) => {
+      const name = getPackageName(spec);
+      if (seen.has(name)) return false;
+      seen.add(name);
+      return true;
+    });
+
+  const dependencies = unique(packages.dependencies);
+  return { dependencies, devDependencies: unique(packages.devDependencies) };
+}
+
+/** Runs one install per dependency kind */
+async function installPackages(
+  packages: PackageSpecs,
+  cwd: string,
+  spinner: Ora | null
+): Promise<void> {
+  const all = [...packages.dependencies, ...packages.devDependencies];
+  if (all.length === 0) return;
+
+  const pm = detectPackageManager(cwd);
+  logDebug("Package manager:", pm);
+  spinner?.start(
+    `Installing ${all.length} package${all.length === 1 ? "" : "s"} with ${pm.name}...`
+  );
+
+  try {
+    await installDependencies(packages.dependencies, { cwd, verbose: DEBUG });
+    await installDependencies(packages.devDependencies, {
+      cwd,
+      dev: true,
+      verbose: DEBUG,
+    });
+    spinner?.succeed(`Installed ${all.map(getPackageName).join(", ")}`);
+  } catch (error) {
+    spinner?.fail("Failed to install packages");
+    throw error;
+  }
+}
+
+/**
+ * Writes the staged files, then installs packages. Any failure puts the
+ * files, package.json and the package manager lockfile back as they were.
+ */
+async function applyInstall(
+  context: InstallContext,
+  packages: PackageSpecs,
+  cwd: string
+): Promise<boolean> {
+  const { transaction, spinner } = context;
+
+  try {
+    transaction.commit();
+    getPackageFiles(detectPackageManager(cwd)).forEach(transaction.protect);
+    await installPackages(packages, cwd, spinner);
+    return true;
+  } catch (error) {
+    transaction.rollback();
+    logError(
+      error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error : undefined
+    );
+    console.log(chalk.gray("  Rolled back, your project was not changed\n"));
+    return false;
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 DRY RUN                                    */
+/* -------------------------------------------------------------------------- */
+
+function printInstallPreview(
+  preview: InstallPreview,
+  packages: PackageSpecs
+): void {
+  console.log(chalk.bold("\n📋 Dry run, nothing was written\n"));
+
+  const components = [...new Set(preview.files.map((file) => file.component))];
+  for (const component of components) {
+    console.log(chalk.bold(component));
+
+    for (const file of preview.files.filter((f) => f.component === component)) {
+      if (file.action === "created") {
+        console.log(chalk.green(`  + ${file.path}`) + chalk.gray(" (create)"));
+      } else if (file.action === "overwritten") {
+        console.log(chalk.red(`  ! ${file.path}`) + chalk.gray(" (overwrite)"));
+      } else if (file.action === "merged") {
+        console.log(chalk.blue(`  ~ ${file.path}`) + chalk.gray(" (merge)"));
+        console.log(
+          colorizeDiff(file.diff ?? "")
+            .split("\n")
+            .map((line) => `    ${line}`)
+            .join("\n")
+        );
+      } else {
+        console.log(chalk.gray(`  · ${file.path} (skip, already exists)`));
+      }
+
+      if (file.conflicts) {
+        console.log(
+          chalk.yellow(
+            `    ⚠ ${file.conflicts.join(", ")} differ from the registry version, yours would be kept`
+          )
+        );
+      }
+    }
+  }
+
+  const { dependencies, devDependencies } = packages;
+
+  if (dependencies.length === 0 && devDependencies.length === 0) {
+    console.log(chalk.gray("\nNo new packages to install"));
+    return;
+  }
+
+  console.log(chalk.bold("\nPackages to install:"));
+  if (dependencies.length > 0) {
+    console.log(`  dependencies: ${chalk.cyan(dependencies.join(", "))}`);
+  }
+  if (devDependencies.length > 0) {
+    console.log(`  devDependencies: ${chalk.cyan(devDependencies.join(", "))}`);
+  }
+}
+
 /* -------------------------------------------------------------------------- */
 /*                               MAIN COMMAND                                 */
 /* -------------------------------------------------------------------------- */
@@ -585,7 +848,7 @@ export async function addComponent(
   components: string[],
   options: AddOptions = {}
 ): Promise<void> {
-  const cwd = options.cwd ?? process.cwd();
+  const cwd = resolveProjectRoot(options.cwd);
 
   // Enable debug mode
   if (options.debug) {
@@ -594,23 +857,13 @@ export async function addComponent(
   }
 
   // Validate input
-  if (!components.length) {
+  const interactive = !components.length && process.stdin.isTTY === true;
+  if (!components.length && !options.all && !interactive) {
     console.error(chalk.red("\n✗ No components specified"));
     console.log(chalk.gray("  Usage: clipmotion add <component-name>\n"));
     process.exit(1);
   }
 
-  // Show intro
-  if (!options.silent) {
-    console.log(
-      chalk.blue(
-        `\n🎬 Installing ${components.length} component${
-          components.length > 1 ? "s" : ""
-        }...\n`
-      )
-    );
-  }
-
   // Load configuration
   logDebug("Loading configuration from:", cwd);
   const config = loadConfig(cwd);
@@ -618,15 +871,55 @@ export async function addComponent(
   // Determine framework to use
   let targetFramework = config.framework;
 
+  if (options.framework && !validateFramework(options.framework)) {
+    console.error(chalk.red(`\n✗ Invalid framework: ${options.framework}`));
+    console.log(chalk.gray("  Valid options: nextjs, react, vue, angular\n"));
+    process.exit(1);
+  }
+
   if (options.framework) {
-    if (!validateFramework(options.framework)) {
-      console.error(chalk.red(`\n✗ Invalid framework: ${options.framework}`));
-      console.log(chalk.gray("  Valid options: nextjs, react, vue, angular\n"));
+    targetFramework = options.framework as Framework;
+  }
+
+  // Pick from the registry index when no names were given
+  if (options.all || interactive) {
+    const spinner = options.silent ? null : ora("Fetching registry...").start();
+    let available: RegistryEntry[];
+
+    try {
+      available = await fetchAvailableComponents(config, targetFramework, {
+        ...options,
+        cwd,
+      });
+      spinner?.stop();
+    } catch (error) {
+      spinner?.fail("Failed to fetch registry index");
+      logError(
+        error instanceof Error ? error.message : String(error),
+        error instanceof Error ? error : undefined
+      );
       process.exit(1);
     }
 
-    targetFramework = options.framework as Framework;
+    if (available.length === 0) {
+      console.log(
+        chalk.yellow(`\n⚠  No components available for ${targetFramework}\n`)
+      );
+      return;
+    }
+
+    components = options.all
+      ? available.map((animation) => animation.id)
+      : await promptForComponents(available);
 
+    if (!components.length) {
+      console.log(chalk.gray("\nNo components selected.\n"));
+      return;
+    }
+  }
+
+  // Show intro
+  if (options.framework) {
     if (!options.silent) {
       console.log(
         chalk.blue(
@@ -651,14 +944,35 @@ export async function addComponent(
   logDebug("  Components path:", config.aliases.components);
   logDebug("  Utils path:", config.aliases.utils);
 
+  let lockfile: Lockfile;
+  try {
+    lockfile = readLockfile(cwd);
+  } catch (error) {
+    logError(
+      error instanceof Error ? error.message : `Failed to read ${LOCKFILE_NAME}`
+    );
+    process.exit(1);
+  }
+
   // Create installation context
   const spinner = options.silent ? null : ora();
+  const transaction = createTransaction();
   const context: InstallContext = {
+    cwd,
     installed: new Set<string>(),
+    requested: new Set(components),
     config,
     framework: targetFramework,
     options,
     spinner,
+    existingPackages: readPackageNames(cwd),
+    ...(options.dryRun
+      ? {
+          preview: { files: [] },
+        }
+      : { lockfile }),
+    packages: { dependencies: [], devDependencies: [] },
+    transaction,
   };
 
   // Install components
@@ -669,8 +983,6 @@ export async function addComponent(
     notFound: [] as string[],
   };
 
-  const registryUrl = getRegistryUrl(config, options.local);
-
   for (const componentName of components) {
     const success = await installSingleComponent(componentName, context);
     if (success) {
@@ -681,11 +993,36 @@ export async function addComponent(
     }
   }
 
+  // Resolved against package.json as it was before the run
+  const packages = resolvePackages(context.packages, readPackageNames(cwd));
+
+  if (context.preview) {
+    printInstallPreview(context.preview, packages);
+  } else if (results.failed > 0) {
+    // All or nothing, the items that did resolve stay staged only
+    transaction.rollback();
+    logDebug("Discarded staged writes");
+  } else {
+    // Staged with the files, so a failed install rolls it back too
+    if (Object.keys(lockfile.components).length > 0) {
+      transaction.write(getLockfilePath(cwd), serializeLockfile(lockfile));
+      logDebug("Staged lockfile:", LOCKFILE_NAME);
+    }
+
+    if (!(await applyInstall(context, packages, cwd))) {
+      process.exit(1);
+    }
+  }
+
   // Show summary
   if (!options.silent) {
     console.log(); // Empty line
 
-    if (results.failed === 0) {
+    if (results.failed === 0 && context.preview) {
+      console.log(
+        chalk.gray(`  Run again without --dry-run to apply these changes`)
+      );
+    } else if (results.failed === 0) {
       console.log(
         chalk.green.bold("✨ All components installed successfully!")
       );
@@ -710,7 +1047,9 @@ export async function addComponent(
         )
       );
       console.log(
-        chalk.gray(`  ${results.success} succeeded, ${results.failed} failed`)
+        chalk.gray(
+          `  ${results.success} succeeded, ${results.failed} failed, nothing was installed`
+        )
       );
     }
 
@@ -719,10 +1058,10 @@ export async function addComponent(
       console.log(chalk.yellow("\n💡 Suggestions:\n"));
 
       for (const componentName of results.notFound) {
-        const available = await getAvailableFrameworks(
-          componentName,
-          registryUrl
-        );
+        const available = await getAvailableFrameworks(componentName, config, {
+          ...options,
+          cwd,
+        });
 
         if (available.length > 0) {
           console.log(
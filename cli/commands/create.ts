@@ -3,6 +3,7 @@ import { existsSync, mkdirSync, writeFileSync } from "fs";
 import { join } from "path";
 import ora from "ora";
 import { text, select, confirm } from "@clack/prompts";
+import { resolveProjectRoot } from "../project-root.js";
 import type { Framework, CreateOptions, Difficulty } from "./types.js";
 
 /* -------------------------------------------------------------------------- */
@@ -544,6 +545,14 @@ function createComponentFiles(
   );
   writeFileSync(componentPath, componentContent, "utf-8");
 
+  // Difficulty has no JSDoc tag, the manifest carries it into the index
+  const manifestPath = join(uiDir, `${componentName}.meta.json`);
+  writeFileSync(
+    manifestPath,
+    `${JSON.stringify({ difficulty }, null, 2)}\n`,
+    "utf-8"
+  );
+
   // Create README
   const readmePath = join(frameworkDir, `${componentName}.README.md`);
   const readmeContent = getReadmeTemplate(
@@ -567,6 +576,7 @@ function createComponentFiles(
 
   console.log(chalk.green("\n✓ Files created successfully!\n"));
   console.log(chalk.gray("  Component:"), chalk.cyan(componentPath));
+  console.log(chalk.gray("  Manifest: "), chalk.cyan(manifestPath));
   console.log(chalk.gray("  README:   "), chalk.cyan(readmePath));
   console.log(chalk.gray("  Example:  "), chalk.cyan(examplePath));
 }
@@ -597,7 +607,7 @@ export async function createComponent(
     process.exit(1);
   }
 
-  const cwd = options.cwd ?? process.cwd();
+  const cwd = resolveProjectRoot(options.cwd);
 
   // Check if component already exists
   const registryDir = join(cwd, "registry");
@@ -628,7 +638,7 @@ export async function createComponent(
     spinner.stop();
 
     // Gather component details
-    const details = await promptForDetails(kebabName, options);
+    const details = await promptForDetails(kebabName, { ...options, cwd });
 
     spinner.start("Creating component files...");
 
@@ -1,22 +1,37 @@
 import chalk from "chalk";
 import { readFileSync, existsSync } from "fs";
 import { join } from "path";
+import { getLocalRegistryDir } from "../registry-source.js";
+import { resolveProjectRoot } from "../project-root.js";
 import type { ContributorInfo, CreditOptions } from "./types.js";
 
 /* -------------------------------------------------------------------------- */
 /*                                   UTILS                                    */
 /* -------------------------------------------------------------------------- */
 
-function getRegistryRoot(local: boolean): string {
+function getRegistryRoot(local: boolean, cwd: string): string {
   if (local) {
     // Use registry inside the ClipMotion repo (build output)
-    return join(__dirname, "..", "public", "r");
+    return getLocalRegistryDir();
   }
 
   // Remote mode is not meaningful for `credits` in user projects,
   // so we only support local mode for now.
   // You can later extend this to fetch from remote if you really want.
-  return join(process.cwd(), "public", "r");
+  return join(cwd, "public", "r");
+}
+
+function getVideoSources(meta: {
+  sources?: string[];
+  source?: string;
+}): string[] {
+  if (Array.isArray(meta.sources)) {
+    return meta.sources;
+  }
+
+  // Registries built before `sources` existed stored a single `source`,
+  // which was only a video URL when it pointed at http(s)
+  return meta.source && /^https?:\/\//.test(meta.source) ? [meta.source] : [];
 }
 
 /* -------------------------------------------------------------------------- */
@@ -25,9 +40,10 @@ function getRegistryRoot(local: boolean): string {
 
 async function showComponentCredits(
   componentName: string,
-  local: boolean
+  local: boolean,
+  cwd: string
 ): Promise<void> {
-  const registryRoot = getRegistryRoot(local);
+  const registryRoot = getRegistryRoot(local, cwd);
   const indexPath = join(registryRoot, "index.json");
 
   if (!existsSync(indexPath)) {
@@ -78,10 +94,9 @@ async function showComponentCredits(
           console.log(chalk.blue(`      🌐 Website: ${contributor.website}`));
         }
 
-        if (componentData.meta.source) {
-          console.log(
-            chalk.gray(`\n   📹 Source: ${componentData.meta.source}`)
-          );
+        const sources = getVideoSources(componentData.meta);
+        if (sources.length > 0) {
+          console.log(chalk.gray(`\n   📹 Source: ${sources.join(", ")}`));
         }
 
         console.log(chalk.gray(`\n   🎯 Available for: ${framework}\n`));
@@ -103,8 +118,8 @@ async function showComponentCredits(
   }
 }
 
-async function showAllContributors(local: boolean): Promise<void> {
-  const registryRoot = getRegistryRoot(local);
+async function showAllContributors(local: boolean, cwd: string): Promise<void> {
+  const registryRoot = getRegistryRoot(local, cwd);
 
   if (!existsSync(registryRoot)) {
     console.error(
@@ -213,13 +228,14 @@ export async function showCredits(
   componentName?: string,
   options: CreditOptions = {}
 ): Promise<void> {
+  const cwd = resolveProjectRoot(options.cwd);
   console.log(chalk.blue.bold("\n🎬 ClipMotion Credits\n"));
 
   if (componentName) {
     // Show credits for specific component
-    await showComponentCredits(componentName, options.local === true);
+    await showComponentCredits(componentName, options.local === true, cwd);
   } else {
     // Show all contributors
-    await showAllContributors(options.local === true);
+    await showAllContributors(options.local === true, cwd);
   }
 }
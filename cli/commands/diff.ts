@@ -0,0 +1,273 @@
+import chalk from "chalk";
+import ora from "ora";
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  fetchComponent,
+  loadConfig,
+  planComponentFiles,
+  validateFramework,
+} from "./add.js";
+import { findLockedFile, readLockfile, toLockfilePath } from "../lockfile.js";
+import { colorizeDiff, createUnifiedDiff } from "../text-diff.js";
+import { getDeclarationCode, getDeclarationNames } from "../utils-merge.js";
+import { resolveProjectRoot } from "../project-root.js";
+import {
+  getRegistrySourceOptions,
+  resolveComponentSource,
+} from "../registry-source.js";
+import type {
+  ComponentConfig,
+  ComponentDrift,
+  DiffOptions,
+  FileDrift,
+  Framework,
+  Lockfile,
+  LockfileEntry,
+  PlannedFile,
+} from "./types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   CONSTANTS                                */
+/* -------------------------------------------------------------------------- */
+
+let DEBUG = false;
+
+/* -------------------------------------------------------------------------- */
+/*                                     UTILS                                  */
+/* -------------------------------------------------------------------------- */
+
+function logDebug(...args: any[]): void {
+  if (DEBUG) {
+    console.log(chalk.gray("[DEBUG]"), ...args);
+  }
+}
+
+function logError(message: string, error?: Error): void {
+  console.error(chalk.red(`✗ ${message}`));
+  if (error && DEBUG) {
+    console.error(chalk.gray(error.stack || error.message));
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  COMPARISON                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Where the file actually lives: the lockfile remembers paths chosen with
+ * `add --path`, otherwise it is wherever `add` would put it today.
+ */
+export function resolveLocalPath(
+  file: PlannedFile,
+  entry: LockfileEntry | undefined,
+  cwd: string
+): string {
+  const locked = findLockedFile(entry, file.name);
+  return locked ? join(cwd, locked.path) : file.targetPath;
+}
+
+/**
+ * Utils files are shared, so only the functions this item ships are compared,
+ * ignoring whatever else the project keeps in the same file.
+ */
+function pickSharedFunctions(registryContent: string, localContent: string) {
+  const names = getDeclarationNames(registryContent);
+
+  const pick = (content: string) =>
+    names
+      .map((name) => getDeclarationCode(content, name)?.trim())
+      .filter((code): code is string => Boolean(code))
+      .join("\n\n");
+
+  return { upstream: pick(registryContent), local: pick(localContent) };
+}
+
+function compareFile(
+  file: PlannedFile,
+  localPath: string,
+  framework: Framework,
+  cwd: string
+): FileDrift {
+  const path = toLockfilePath(cwd, localPath);
+
+  if (!existsSync(localPath)) {
+    return { path, status: "missing" };
+  }
+
+  const localContent = readFileSync(localPath, "utf-8");
+  const { upstream, local } = file.utils
+    ? pickSharedFunctions(file.content, localContent)
+    : { upstream: file.content, local: localContent };
+
+  const diff = createUnifiedDiff(upstream, local, {
+    oldLabel: `registry/${framework}/${file.name}`,
+    newLabel: path,
+  });
+
+  return diff
+    ? { path, status: "modified", diff }
+    : { path, status: "unchanged" };
+}
+
+async function diffComponent(
+  name: string,
+  config: ComponentConfig,
+  lockfile: Lockfile,
+  options: DiffOptions
+): Promise<ComponentDrift> {
+  const cwd = options.cwd ?? process.cwd();
+  const entry = lockfile.components[name];
+  const framework = (options.framework ??
+    entry?.framework ??
+    config.framework) as Framework;
+  const local = options.local ?? entry?.registry === "local";
+
+  logDebug(`Diffing ${name} (${framework})`, entry ? "from lockfile" : "");
+
+  try {
+    // Against the registry as it is now, never a copy cached by `add`
+    const { source, name: itemName } = resolveComponentSource(config, name, {
+      ...getRegistrySourceOptions(options, cwd),
+      refresh: !options.offline,
+      local,
+    });
+    const component = await fetchComponent(itemName, framework, source);
+
+    const files = planComponentFiles(component, config, { cwd }).map((file) =>
+      compareFile(file, resolveLocalPath(file, entry, cwd), framework, cwd)
+    );
+
+    return { name, framework, files };
+  } catch (error) {
+    return {
+      name,
+      framework,
+      files: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   OUTPUT                                   */
+/* -------------------------------------------------------------------------- */
+
+function printDrift(results: ComponentDrift[]): void {
+  for (const result of results) {
+    console.log(
+      chalk.bold(`\n${result.name}`) + chalk.gray(` (${result.framework})`)
+    );
+
+    if (result.error) {
+      console.log(chalk.red(`  ✗ ${result.error}`));
+      continue;
+    }
+
+    for (const file of result.files) {
+      if (file.status === "unchanged") {
+        console.log(chalk.green(`  ✓ ${file.path}`));
+      } else if (file.status === "missing") {
+        console.log(chalk.yellow(`  ⚠ ${file.path} (missing)`));
+      } else {
+        console.log(chalk.red(`  ✗ ${file.path} (modified)\n`));
+        console.log(colorizeDiff(file.diff!));
+      }
+    }
+  }
+
+  const drifted = results.flatMap((result) =>
+    result.files.filter((file) => file.status !== "unchanged")
+  );
+  const failed = results.filter((result) => result.error);
+
+  console.log();
+  if (drifted.length === 0 && failed.length === 0) {
+    console.log(chalk.green.bold("✨ Everything matches the registry\n"));
+    return;
+  }
+
+  if (drifted.length > 0) {
+    console.log(
+      chalk.yellow.bold(
+        `⚠ ${drifted.length} file${drifted.length === 1 ? "" : "s"} drifted from the registry`
+      )
+    );
+  }
+  if (failed.length > 0) {
+    console.log(
+      chalk.red.bold(
+        `✗ ${failed.length} component${failed.length === 1 ? "" : "s"} could not be checked`
+      )
+    );
+  }
+  console.log();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 MAIN COMMAND                               */
+/* -------------------------------------------------------------------------- */
+
+export async function diffComponents(
+  components: string[],
+  options: DiffOptions = {}
+): Promise<void> {
+  DEBUG = options.debug ?? false;
+  const cwd = resolveProjectRoot(options.cwd);
+
+  if (options.framework && !validateFramework(options.framework)) {
+    console.error(chalk.red(`\n✗ Invalid framework: ${options.framework}`));
+    console.log(chalk.gray("  Valid options: nextjs, react, vue, angular\n"));
+    process.exit(1);
+  }
+
+  const config = loadConfig(cwd);
+
+  let lockfile: Lockfile;
+  try {
+    lockfile = readLockfile(cwd);
+  } catch (error) {
+    logError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Without names, check everything the lockfile says was installed
+  const names = components.length
+    ? components
+    : Object.keys(lockfile.components);
+
+  if (names.length === 0) {
+    console.log(chalk.yellow("\n⚠  No installed components to diff"));
+    console.log(chalk.gray("  Usage: clipmotion diff <component-name>\n"));
+    return;
+  }
+
+  const spinner = options.json
+    ? null
+    : ora("Comparing with registry...").start();
+
+  const results: ComponentDrift[] = [];
+  for (const name of names) {
+    results.push(
+      await diffComponent(name, config, lockfile, { ...options, cwd })
+    );
+  }
+
+  spinner?.stop();
+
+  const drift = results.some(
+    (result) =>
+      result.error || result.files.some((file) => file.status !== "unchanged")
+  );
+
+  if (options.json) {
+    console.log(JSON.stringify({ drift, components: results }, null, 2));
+  } else {
+    printDrift(results);
+  }
+
+  // Non-zero exit lets CI fail on local edits to registry components
+  if (drift) {
+    process.exit(1);
+  }
+}
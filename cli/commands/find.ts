@@ -4,6 +4,16 @@ import { join } from "path";
 import ora from "ora";
 import { select, confirm } from "@clack/prompts";
 import { addComponent } from "./add.js";
+import { parseVideoUrl, toVideoKey } from "../video-identity.js";
+import { createHttpResolver, resolveShortLink } from "../short-links.js";
+import { resolveProjectRoot } from "../project-root.js";
+import {
+  formatComponentName,
+  getRegistrySourceOptions,
+  getRegistrySources,
+  type RegistrySource,
+  type RegistrySourceOptions,
+} from "../registry-source.js";
 import type {
   Framework,
   FindOptions,
@@ -16,9 +26,6 @@ import type {
 /*                                   CONSTANTS                                */
 /* -------------------------------------------------------------------------- */
 
-const DEFAULT_REGISTRY_URL =
-  "https://raw.githubusercontent.com/nerdboi008/clipmotion/main/public/r";
-
 let DEBUG = false;
 
 /* -------------------------------------------------------------------------- */
@@ -61,7 +68,7 @@ function normalizeUrl(url: string): string {
   }
 }
 
-function loadConfig(cwd: string): ComponentConfig | null {
+export function loadConfig(cwd: string): ComponentConfig | null {
   const configPath = join(cwd, "clipmotion-components.json");
 
   logDebug("Looking for config at:", configPath);
@@ -82,64 +89,22 @@ function loadConfig(cwd: string): ComponentConfig | null {
   }
 }
 
-function getRegistryUrl(
-  config: ComponentConfig | null,
-  isLocal: boolean
-): string {
-  if (isLocal) {
-    logDebug("Local mode - using local registry");
-    return ""; // Not used in local mode
-  }
-  const url = config?.registry?.baseUrl || DEFAULT_REGISTRY_URL;
-  logDebug("Using remote registry URL:", url);
-  return url;
-}
-
 /* -------------------------------------------------------------------------- */
 /*                               REGISTRY FETCH                               */
 /* -------------------------------------------------------------------------- */
 
-async function fetchRegistryIndex(
-  registryUrl: string,
-  isLocal: boolean
+export async function fetchRegistryIndex(
+  registry: RegistrySource
 ): Promise<RegistryIndex> {
-  // LOCAL MODE: Read from public/r/index.json
-  if (isLocal) {
-    const indexPath = join(
-      __dirname,
-      "..", // build
-      "public",
-      "r",
-      "index.json"
-    );
-    logDebug("Local mode - reading from:", indexPath);
+  logDebug(`Fetching registry index from ${registry.kind}:`, registry.location);
 
-    if (!existsSync(indexPath)) {
-      throw new Error("Local registry not found. Run: npm run registry:build");
-    }
-
-    const text = readFileSync(indexPath, "utf-8");
-    try {
-      const data = JSON.parse(text);
-      logDebug("Local index.json parsed successfully");
-      return data as RegistryIndex;
-    } catch (error) {
-      throw new Error(
-        `Failed to parse local index.json: ${
-          error instanceof Error ? error.message : String(error)
-        }`
-      );
-    }
-  }
-
-  // REMOTE MODE: fetch logic
-  const url = `${registryUrl}/index.json`;
-  logDebug("Fetching registry index from:", url);
-
-  const res = await fetch(url);
-  logDebug("Registry index HTTP status:", res.status, res.statusText);
+  const res = await registry.get("index.json");
+  logDebug("Registry index status:", res.status, res.statusText);
 
   if (!res.ok) {
+    if (res.status === 404 && registry.id === "local") {
+      throw new Error("Local registry not found. Run: npm run registry:build");
+    }
     throw new Error(`HTTP ${res.status}: ${res.statusText}`);
   }
 
@@ -159,10 +124,117 @@ async function fetchRegistryIndex(
   }
 }
 
+/**
+ * Indexes of every configured registry merged into one. Entries from named
+ * registries get `@namespace/` ids so they install from where they came. A
+ * registry that fails is skipped with a warning, unless every one fails.
+ */
+export async function fetchRegistryIndexes(
+  config: ComponentConfig | null,
+  options: Omit<RegistrySourceOptions, "namespace"> = {}
+): Promise<RegistryIndex> {
+  const sources = [...getRegistrySources(config, options)];
+  const results = await Promise.allSettled(
+    sources.map(([, source]) => fetchRegistryIndex(source))
+  );
+
+  if (results.every((result) => result.status === "rejected")) {
+    throw (results[0] as PromiseRejectedResult).reason;
+  }
+
+  const merged: RegistryIndex = {
+    animations: [],
+    version: "",
+    lastUpdated: "",
+  };
+
+  results.forEach((result, i) => {
+    const [namespace] = sources[i]!;
+
+    if (result.status === "rejected") {
+      const reason = result.reason;
+      console.warn(
+        chalk.yellow(
+          `⚠  Skipped registry "${namespace}": ${
+            reason instanceof Error ? reason.message : String(reason)
+          }`
+        )
+      );
+      return;
+    }
+
+    const index = result.value;
+    merged.version ||= index.version;
+    merged.lastUpdated ||= index.lastUpdated;
+    merged.aliases = { ...index.aliases, ...merged.aliases };
+    merged.animations.push(
+      ...(Array.isArray(index.animations) ? index.animations : []).map(
+        (animation) => ({
+          ...animation,
+          id: formatComponentName(namespace, animation.id),
+        })
+      )
+    );
+  });
+
+  return merged;
+}
+
+function getEntryVideoKeys(animation: RegistryEntry): string[] {
+  if (animation.videoKeys) {
+    return animation.videoKeys;
+  }
+
+  // Indexes built before video keys existed only carry the raw URLs
+  return animation.sources
+    .map((source) => toVideoKey(source))
+    .filter((key): key is string => key !== null);
+}
+
+function getPlatform(url: string): string | null {
+  const identity = parseVideoUrl(url);
+  if (identity) {
+    return identity.platform;
+  }
+
+  try {
+    return new URL(url).hostname.replace("www.", "");
+  } catch {
+    return null;
+  }
+}
+
+function findAnimationByKey(
+  registry: RegistryIndex,
+  videoKey: string
+): RegistryEntry | null {
+  logDebug("Searching for video key:", videoKey);
+
+  const match = registry.animations.find((anim) =>
+    getEntryVideoKeys(anim).includes(videoKey)
+  );
+
+  if (match) {
+    logDebug("Video key match found:", match.id);
+  }
+
+  return match || null;
+}
+
 function findAnimationByUrl(
   registry: RegistryIndex,
   videoUrl: string
 ): RegistryEntry | null {
+  const videoKey = toVideoKey(videoUrl);
+
+  if (videoKey) {
+    const match = findAnimationByKey(registry, videoKey);
+    if (match) {
+      return match;
+    }
+  }
+
+  // Unsupported platforms fall back to comparing normalized URLs
   const normalizedUrl = normalizeUrl(videoUrl);
   logDebug("Searching for URL:", normalizedUrl);
 
@@ -180,32 +252,63 @@ function findAnimationByUrl(
   return match;
 }
 
+async function findAnimationByShortLink(
+  registry: RegistryIndex,
+  videoUrl: string,
+  options: FindOptions
+): Promise<RegistryEntry | null> {
+  const identity = parseVideoUrl(videoUrl);
+  if (!identity?.shortLink) {
+    return null;
+  }
+
+  logDebug("Resolving share link:", videoUrl);
+
+  try {
+    const resolution = await resolveShortLink(videoUrl, identity, {
+      aliases: registry.aliases,
+      // --offline keeps to the alias table and the local cache
+      resolver:
+        options.resolve === false || options.offline
+          ? null
+          : (options.resolver ?? createHttpResolver()),
+    });
+
+    if (!resolution) {
+      logDebug("Share link could not be resolved");
+      return null;
+    }
+
+    logDebug(`Share link resolved via ${resolution.via}:`, resolution.key);
+    return findAnimationByKey(registry, resolution.key);
+  } catch (error) {
+    logDebug(
+      "Share link resolution failed:",
+      error instanceof Error ? error.message : error
+    );
+    return null;
+  }
+}
+
 function findSimilarAnimations(
   registry: RegistryIndex,
   searchUrl: string
 ): RegistryEntry[] {
-  let domain: string;
-  try {
-    domain = new URL(searchUrl).hostname.replace("www.", "");
-  } catch {
-    logDebug("Failed to parse domain from search URL:", searchUrl);
+  const platform = getPlatform(searchUrl);
+  if (!platform) {
+    logDebug("Failed to parse platform from search URL:", searchUrl);
     return [];
   }
 
-  logDebug("Looking for animations from domain:", domain);
+  logDebug("Looking for animations from platform:", platform);
 
   const results = registry.animations.filter((anim) =>
-    anim.sources.some((source) => {
-      try {
-        const sourceDomain = new URL(source).hostname.replace("www.", "");
-        return sourceDomain === domain;
-      } catch {
-        return false;
-      }
-    })
+    anim.sources.some((source) => getPlatform(source) === platform)
   );
 
-  logDebug(`Found ${results.length} similar animations for domain ${domain}`);
+  logDebug(
+    `Found ${results.length} similar animations for platform ${platform}`
+  );
 
   return results;
 }
@@ -226,6 +329,20 @@ async function showAnimationDetails(
     chalk.cyan(`📦 Available for: ${animation.libraries.join(", ")}`)
   );
 
+  for (const library of animation.libraries) {
+    const summary = animation.frameworks?.[library];
+    if (!summary) continue;
+
+    const marker = library === framework ? chalk.green("›") : " ";
+    const deps =
+      summary.dependencies.length > 0
+        ? ` · deps: ${summary.dependencies.join(", ")}`
+        : "";
+    console.log(
+      chalk.gray(`  ${marker} ${library}: ${summary.files.join(", ")}${deps}`)
+    );
+  }
+
   if (animation.tags.length > 0) {
     console.log(chalk.gray(`🏷️  Tags: ${animation.tags.join(", ")}`));
   }
@@ -318,7 +435,7 @@ export async function findComponent(
   videoUrl: string,
   options: FindOptions = {}
 ): Promise<void> {
-  const cwd = options.cwd ?? process.cwd();
+  const cwd = resolveProjectRoot(options.cwd);
 
   if (options.debug) {
     DEBUG = true;
@@ -344,13 +461,15 @@ export async function findComponent(
   logDebug("Search URL:", videoUrl);
   logDebug("CWD:", cwd);
 
-  // Validate URL
-  try {
-    new URL(videoUrl);
-  } catch {
-    console.error(chalk.red("✗ Invalid URL provided"));
-    console.log(chalk.gray("  Please provide a valid video URL\n"));
-    return;
+  // Validate URL (known platforms also accept links without a scheme)
+  if (!parseVideoUrl(videoUrl)) {
+    try {
+      new URL(videoUrl);
+    } catch {
+      console.error(chalk.red("✗ Invalid URL provided"));
+      console.log(chalk.gray("  Please provide a valid video URL\n"));
+      return;
+    }
   }
 
   const spinner = ora("Fetching registry...").start();
@@ -360,11 +479,10 @@ export async function findComponent(
     const framework = config?.framework || null;
     logDebug("Project framework:", framework || "not configured");
 
-    const registry = await fetchRegistryIndex(
-      getRegistryUrl(config, options.local ?? false),
-      options.local ?? false
+    const registry = await fetchRegistryIndexes(
+      config,
+      getRegistrySourceOptions(options, cwd)
     );
-    // const registryUrl = getRegistryUrl(config);
 
     spinner.stop();
 
@@ -385,7 +503,9 @@ export async function findComponent(
       return;
     }
 
-    const animation = findAnimationByUrl(registry, videoUrl);
+    const animation =
+      findAnimationByUrl(registry, videoUrl) ??
+      (await findAnimationByShortLink(registry, videoUrl, options));
 
     if (!animation) {
       console.log(chalk.yellow("⚠  Animation not found in registry\n"));
@@ -1,11 +1,14 @@
 import { existsSync, writeFileSync, readFileSync, mkdirSync } from "fs";
 import { join } from "path";
 import chalk from "chalk";
-import { execa } from "execa";
 import { select, intro, confirm, log, outro, spinner } from "@clack/prompts";
+import {
+  detectPackageManager,
+  installDependencies,
+} from "../package-manager.js";
+import { resolveProjectRoot } from "../project-root.js";
 import type {
   Framework,
-  PackageManager,
   InitConfig as Config,
   InitOptions,
   InitResult,
@@ -50,36 +53,16 @@ function detectFramework(cwd: string): Framework | null {
 /*                         DEPENDENCY INSTALLER                                */
 /* -------------------------------------------------------------------------- */
 
-function detectPackageManager(): PackageManager {
-  const cwd = process.cwd();
-
-  if (existsSync(join(cwd, "bun.lockb"))) return "bun";
-  if (existsSync(join(cwd, "pnpm-lock.yaml"))) return "pnpm";
-  if (existsSync(join(cwd, "yarn.lock"))) return "yarn";
-
-  return "npm";
-}
-
-async function installDeps(deps: string[]): Promise<void> {
+async function installDeps(deps: string[], cwd: string): Promise<void> {
   if (!deps.length) return;
 
-  const pm = detectPackageManager();
+  const pm = detectPackageManager(cwd).name;
   const s = spinner();
 
   s.start(chalk.blue(`Installing dependencies with ${pm}...`));
 
   try {
-    const commands: Record<PackageManager, string[]> = {
-      npm: ["install", ...deps],
-      yarn: ["add", ...deps],
-      pnpm: ["add", ...deps],
-      bun: ["add", ...deps],
-    };
-
-    await execa(pm, commands[pm], {
-      stdio: "pipe", // Change to pipe for cleaner output
-      cwd: process.cwd(),
-    });
+    await installDependencies(deps, { cwd });
 
     s.stop(chalk.green(`Dependencies installed successfully`));
   } catch (error) {
@@ -173,7 +156,7 @@ function getFrameworkDeps(framework: Framework): string[] {
 /* -------------------------------------------------------------------------- */
 
 export async function init(options: InitOptions): Promise<InitResult> {
-  const cwd = options.cwd || process.cwd();
+  const cwd = resolveProjectRoot(options.cwd);
   const interactive = options.interactive !== false;
   const configPath = join(cwd, "clipmotion-components.json");
 
@@ -268,7 +251,7 @@ export async function init(options: InitOptions): Promise<InitResult> {
   const deps = getFrameworkDeps(framework);
   if (deps.length > 0 && interactive) {
     log.step(chalk.blue("Installing required dependencies..."));
-    await installDeps(deps);
+    await installDeps(deps, cwd);
   }
 
   // Success message
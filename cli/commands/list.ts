@@ -0,0 +1,369 @@
+import chalk from "chalk";
+import ora from "ora";
+import { existsSync, readdirSync } from "fs";
+import { basename, extname, join } from "path";
+import { validateFramework } from "./add.js";
+import { fetchRegistryIndex, loadConfig } from "./find.js";
+import { resolveProjectRoot } from "../project-root.js";
+import { getLockfilePath, readLockfile } from "../lockfile.js";
+import {
+  getRegistrySource,
+  getRegistrySourceOptions,
+} from "../registry-source.js";
+import type {
+  ComponentConfig,
+  ContributorInfo,
+  Framework,
+  ListGroupBy,
+  ListOptions,
+  RegistryEntry,
+} from "./types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   CONSTANTS                                */
+/* -------------------------------------------------------------------------- */
+
+const UNCATEGORIZED = "Uncategorized";
+
+let DEBUG = false;
+
+/* -------------------------------------------------------------------------- */
+/*                                     UTILS                                  */
+/* -------------------------------------------------------------------------- */
+
+function logDebug(...args: any[]): void {
+  if (DEBUG) {
+    console.log(chalk.gray("[DEBUG]"), ...args);
+  }
+}
+
+function logError(message: string, error?: Error): void {
+  console.error(chalk.red(`✗ ${message}`));
+  if (error && DEBUG) {
+    console.error(chalk.gray(error.stack || error.message));
+  }
+}
+
+function formatContributor(contributor?: ContributorInfo): string {
+  if (!contributor) return "";
+  if (contributor.name) return contributor.name;
+
+  // Fall back to the handle at the end of a profile URL
+  const profile = contributor.github || contributor.x || contributor.website;
+  return profile?.replace(/\/+$/, "").split("/").pop() ?? "";
+}
+
+function getDependencies(
+  animation: RegistryEntry,
+  framework?: Framework
+): string[] {
+  if (framework) {
+    const summary = animation.frameworks?.[framework];
+    if (summary) return summary.dependencies;
+  }
+  return animation.dependencies ?? [];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  INSTALLED                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Ids of the registry components installed in the project, from the lockfile.
+ * Projects without one fall back to scanning the components directory.
+ */
+function getInstalledIds(
+  animations: RegistryEntry[],
+  config: ComponentConfig,
+  cwd: string
+): Set<string> {
+  if (!existsSync(getLockfilePath(cwd))) {
+    logDebug("No lockfile, scanning the components directory");
+    return scanInstalledIds(animations, config, cwd);
+  }
+
+  const locked = new Set(Object.keys(readLockfile(cwd).components));
+  const installed = new Set(
+    animations
+      .filter((animation) => locked.has(animation.id))
+      .map((animation) => animation.id)
+  );
+
+  logDebug("Installed components:", [...installed]);
+  return installed;
+}
+
+/**
+ * Ids of the registry components found in the project's components directory.
+ * Uses the per-framework file list when the index has one, otherwise matches
+ * file names against component ids.
+ */
+function scanInstalledIds(
+  animations: RegistryEntry[],
+  config: ComponentConfig,
+  cwd: string
+): Set<string> {
+  const componentsDir = join(cwd, config.aliases.components);
+  const installed = new Set<string>();
+
+  if (!existsSync(componentsDir)) {
+    logDebug("Components directory not found:", componentsDir);
+    return installed;
+  }
+
+  const fileStems = new Set(
+    readdirSync(componentsDir).map((file) => basename(file, extname(file)))
+  );
+
+  for (const animation of animations) {
+    const files = animation.frameworks?.[config.framework]?.files;
+
+    const present = files
+      ? files.length > 0 &&
+        files.every((file) => existsSync(join(componentsDir, file)))
+      : fileStems.has(animation.id);
+
+    if (present) {
+      installed.add(animation.id);
+    }
+  }
+
+  logDebug("Installed components:", [...installed]);
+  return installed;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  GROUPING                                  */
+/* -------------------------------------------------------------------------- */
+
+interface ListGroup {
+  title: string;
+  framework?: Framework;
+  animations: RegistryEntry[];
+}
+
+function groupAnimations(
+  animations: RegistryEntry[],
+  groupBy: ListGroupBy
+): ListGroup[] {
+  const groups = new Map<string, ListGroup>();
+
+  const addTo = (title: string, animation: RegistryEntry, fw?: Framework) => {
+    if (!groups.has(title)) {
+      groups.set(
+        title,
+        fw
+          ? { title, framework: fw, animations: [] }
+          : { title, animations: [] }
+      );
+    }
+    groups.get(title)!.animations.push(animation);
+  };
+
+  for (const animation of animations) {
+    if (groupBy === "framework") {
+      animation.libraries.forEach((fw) => addTo(fw, animation, fw));
+    } else {
+      addTo(animation.category || UNCATEGORIZED, animation);
+    }
+  }
+
+  return [...groups.values()]
+    .sort((a, b) => {
+      // Keep the catch-all bucket last
+      if (a.title === UNCATEGORIZED) return 1;
+      if (b.title === UNCATEGORIZED) return -1;
+      return a.title.localeCompare(b.title);
+    })
+    .map((group) => ({
+      ...group,
+      animations: [...group.animations].sort((a, b) =>
+        a.name.localeCompare(b.name)
+      ),
+    }));
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   OUTPUT                                   */
+/* -------------------------------------------------------------------------- */
+
+function toRow(animation: RegistryEntry, group: ListGroup): string[] {
+  return [
+    animation.name,
+    animation.difficulty,
+    group.framework ? "" : animation.libraries.join(", "),
+    getDependencies(animation, group.framework).join(", ") || "-",
+    formatContributor(animation.contributor) || "-",
+  ];
+}
+
+function printTable(groups: ListGroup[]): void {
+  const byFramework = groups.some((group) => group.framework);
+  const header = [
+    "Component",
+    "Difficulty",
+    byFramework ? "" : "Frameworks",
+    "Dependencies",
+    "Contributor",
+  ];
+
+  const rows = groups.flatMap((group) =>
+    group.animations.map((animation) => toRow(animation, group))
+  );
+
+  // Framework groups already name the framework, so drop that column
+  const columns = header.map((_, i) => i).filter((i) => header[i] !== "");
+  const widths = columns.map((i) =>
+    Math.max(header[i]!.length, ...rows.map((row) => row[i]!.length))
+  );
+
+  const format = (cells: string[]) =>
+    columns
+      .map((i, c) => cells[i]!.padEnd(widths[c]!))
+      .join("  ")
+      .trimEnd();
+
+  console.log(chalk.gray(`  ${format(header)}`));
+
+  for (const group of groups) {
+    console.log(chalk.bold.cyan(`\n  ${group.title}`));
+
+    for (const animation of group.animations) {
+      console.log(`  ${format(toRow(animation, group))}`);
+    }
+  }
+
+  console.log();
+}
+
+function printTree(groups: ListGroup[]): void {
+  groups.forEach((group, groupIndex) => {
+    const lastGroup = groupIndex === groups.length - 1;
+    console.log(chalk.bold.cyan(`${lastGroup ? "└─" : "├─"} ${group.title}`));
+
+    const indent = lastGroup ? "   " : "│  ";
+
+    group.animations.forEach((animation, index) => {
+      const last = index === group.animations.length - 1;
+      console.log(
+        `${indent}${last ? "└─" : "├─"} ${chalk.bold(animation.name)} ${chalk.gray(`(${animation.difficulty})`)}`
+      );
+
+      const details = [
+        group.framework
+          ? null
+          : `frameworks: ${animation.libraries.join(", ")}`,
+        `dependencies: ${getDependencies(animation, group.framework).join(", ") || "none"}`,
+        animation.contributor
+          ? `contributor: ${formatContributor(animation.contributor)}`
+          : null,
+      ].filter((line): line is string => line !== null);
+
+      details.forEach((line, i) => {
+        const branch = i === details.length - 1 ? "└─" : "├─";
+        console.log(
+          chalk.gray(`${indent}${last ? "   " : "│  "}${branch} ${line}`)
+        );
+      });
+    });
+  });
+
+  console.log();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 MAIN COMMAND                               */
+/* -------------------------------------------------------------------------- */
+
+export async function listComponents(options: ListOptions = {}): Promise<void> {
+  DEBUG = options.debug ?? false;
+  const cwd = resolveProjectRoot(options.cwd);
+  const groupBy = options.groupBy ?? "category";
+
+  if (groupBy !== "category" && groupBy !== "framework") {
+    console.error(chalk.red(`✗ Invalid group: ${groupBy}`));
+    console.log(chalk.gray("  Use one of: category, framework\n"));
+    process.exit(1);
+  }
+
+  if (options.framework && !validateFramework(options.framework)) {
+    console.error(chalk.red(`✗ Invalid framework: ${options.framework}`));
+    console.log(chalk.gray("  Use one of: nextjs, react, vue, angular\n"));
+    process.exit(1);
+  }
+
+  const config = loadConfig(cwd);
+
+  if (options.installed && !config) {
+    console.error(chalk.red("✗ No clipmotion-components.json found"));
+    console.log(chalk.gray("  Run: clipmotion init\n"));
+    process.exit(1);
+  }
+
+  const spinner = options.json ? null : ora("Fetching registry...").start();
+
+  try {
+    const registry = await fetchRegistryIndex(
+      getRegistrySource(config, getRegistrySourceOptions(options, cwd))
+    );
+
+    spinner?.stop();
+
+    // Shared utilities and hooks are pulled in by components, not listed
+    let animations = (registry?.animations ?? []).filter(
+      (animation) => !animation.type || animation.type === "registry:component"
+    );
+
+    if (options.framework) {
+      animations = animations.filter((animation) =>
+        animation.libraries.includes(options.framework!)
+      );
+    }
+
+    const installed =
+      options.installed && config
+        ? getInstalledIds(animations, config, cwd)
+        : null;
+
+    if (installed) {
+      animations = animations.filter((animation) =>
+        installed.has(animation.id)
+      );
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(animations, null, 2));
+      return;
+    }
+
+    if (animations.length === 0) {
+      console.log(
+        chalk.yellow(
+          installed
+            ? "⚠  No registry components installed in this project\n"
+            : "⚠  No animations found in registry\n"
+        )
+      );
+      return;
+    }
+
+    console.log(
+      chalk.cyan(
+        `\n📦 ${animations.length} component${animations.length === 1 ? "" : "s"}${installed ? " installed" : ""}\n`
+      )
+    );
+
+    const groups = groupAnimations(animations, groupBy);
+
+    if (options.tree) {
+      printTree(groups);
+    } else {
+      printTable(groups);
+    }
+  } catch (error) {
+    spinner?.stop();
+    console.error(chalk.red("✖ Failed to list components"));
+    logError("List error", error as Error);
+    process.exit(1);
+  }
+}
@@ -4,13 +4,35 @@ import {
   writeFileSync,
   existsSync,
   mkdirSync,
+  rmSync,
   statSync,
+  watch,
+  type FSWatcher,
 } from "fs";
-import { join, basename, extname, relative, dirname } from "path";
+import { join, basename, extname, relative, dirname, resolve, sep } from "path";
 import chalk from "chalk";
 import ora, { type Ora } from "ora";
-import { registryItemSchema, type RegistryItem } from "../registry-schema.js";
-import type { ContributorInfo, BuildStats, ComponentType } from "./types.js";
+import { builtinModules } from "module";
+import { createHash } from "crypto";
+import ts from "typescript";
+import {
+  registryItemSchema,
+  registryManifestSchema,
+  type RegistryItem,
+  type RegistryManifest,
+} from "../registry-schema.js";
+import { toVideoKey } from "../video-identity.js";
+import { buildShortLinkAliases } from "../short-links.js";
+import { getPackageName } from "../package-manager.js";
+import type {
+  ContributorInfo,
+  BuildStats,
+  ComponentType,
+  Framework,
+  RegistryEntry,
+  RegistryBuildOptions,
+  RegistryFileType,
+} from "./types.js";
 
 /* -------------------------------------------------------------------------- */
 /*                                 CONSTANTS                                  */
@@ -18,6 +40,7 @@ import type { ContributorInfo, BuildStats, ComponentType } from "./types.js";
 
 const VALID_EXTENSIONS = [".tsx", ".ts", ".vue", ".jsx", ".js"] as const;
 
+/** Framework base package every item of that framework runs on */
 const FRAMEWORK_DEPENDENCIES: Record<string, string> = {
   nextjs: "next",
   react: "react",
@@ -25,14 +48,102 @@ const FRAMEWORK_DEPENDENCIES: Record<string, string> = {
   angular: "@angular/core",
 };
 
+/** Provided by the project's framework setup, never installed per item */
+const PEER_PACKAGES = ["react", "react-dom", "next", "vue"];
+
+const VUE_SCRIPT_BLOCK = /<script\b[^>]*>([\s\S]*?)<\/script>/g;
+
 const IGNORED_DIRS = ["node_modules", ".git", "dist", "build", "__tests__"];
 
+/** `<component>.meta.json`, next to the component's entry file */
+const MANIFEST_SUFFIX = ".meta.json";
+
+const STYLE_EXTENSIONS = [".css", ".scss", ".sass", ".less"];
+
+/** Registry items are JSON, so only text assets can travel in them */
+const ASSET_EXTENSIONS = [".svg", ".glsl", ".vert", ".frag", ".wgsl", ".json"];
+
+/** `@/<root>/…` placeholder each file type is imported through */
+const PLACEHOLDER_ROOTS: Record<RegistryFileType, string> = {
+  "registry:component": "components",
+  "registry:lib": "components",
+  "registry:hook": "hooks",
+  "registry:style": "styles",
+  "registry:asset": "assets",
+};
+
+const RELATIVE_IMPORT =
+  /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(["'])(\.{1,2}\/[^"']+)\2/g;
+
 const COMPONENT_TYPE_MAP: Record<string, ComponentType> = {
   ui: "registry:component",
   lib: "registry:lib",
   hooks: "registry:hook",
 };
 
+/**
+ * Source hashes of the last build. A per-checkout cache, like other tools
+ * keep in node_modules/.cache, so it's never committed or published.
+ */
+const BUILD_MANIFEST_PATH = join(
+  "node_modules",
+  ".cache",
+  "clipmotion",
+  "registry-build.json"
+);
+
+/** Bumped when the builder's output changes, so every item is rebuilt */
+const BUILD_MANIFEST_VERSION = 2;
+
+/** Editors save in bursts, one rebuild covers them */
+const WATCH_DEBOUNCE_MS = 100;
+
+let WATCHING = false;
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+interface PackageImports {
+  runtime: Set<string>;
+  /** Imports compilation removes, like `import type` */
+  typeOnly: Set<string>;
+}
+
+interface DependencyAnalysis {
+  dependencies: string[];
+  devDependencies: string[];
+  peerDependencies: string[];
+  /** Imported packages the repo's package.json doesn't list */
+  unknown: string[];
+}
+
+interface ValidationIssue {
+  path: PropertyKey[];
+  message: string;
+}
+
+/** What the last build wrote, keyed by output path relative to public/r */
+interface BuildManifest {
+  version: number;
+  items: Record<string, { hash: string }>;
+}
+
+interface BuildState {
+  previous: BuildManifest["items"];
+  next: BuildManifest["items"];
+  /** Items whose sources hashed the same as last build */
+  unchanged: number;
+}
+
+/** A file on disk that ships as part of a registry item */
+interface ItemSource {
+  path: string;
+  /** Path it installs to, relative to the alias of its type */
+  name: string;
+  type: RegistryFileType;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                                FILE UTILS                                  */
 /* -------------------------------------------------------------------------- */
@@ -46,6 +157,23 @@ function isValidComponentFile(filename: string): boolean {
   return VALID_EXTENSIONS.includes(ext as any);
 }
 
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+/** Source text with LF line endings, so a CRLF checkout builds the same items */
+function readSourceFile(path: string): string {
+  return readFileSync(path, "utf-8").replace(/\r\n/g, "\n");
+}
+
+function listFiles(dir: string): string[] {
+  return readdirSync(dir).flatMap((entry) => {
+    if (IGNORED_DIRS.includes(entry)) return [];
+    const path = join(dir, entry);
+    return safeStatSync(path).isDirectory() ? listFiles(path) : [path];
+  });
+}
+
 function ensureDirectory(dir: string): void {
   if (!existsSync(dir)) {
     mkdirSync(dir, { recursive: true });
@@ -60,11 +188,41 @@ function logError(message: string, error?: Error): void {
   }
 }
 
+/**
+ * Prints every issue under the file it came from and fails the build, so
+ * broken metadata is caught before it's pushed.
+ */
+function failValidation(file: string, issues: ValidationIssue[]): never {
+  console.error(
+    chalk.red(`\n❌ Schema Validation Error in: ${chalk.bold(file)}`)
+  );
+
+  for (const issue of issues) {
+    const path = issue.path.map(String).join(".");
+    console.error(
+      chalk.yellow(path ? `  → [${path}]: ` : "  → ") +
+        chalk.white(issue.message)
+    );
+  }
+
+  abortBuild();
+}
+
 function fatal(message: string, details?: string): never {
   console.error(chalk.red(`✗ ${message}`));
   if (details) {
     console.error(chalk.gray(`  ${details}`));
   }
+  abortBuild();
+}
+
+/** Thrown instead of exiting in watch mode, after the error was printed */
+class BuildAborted extends Error {}
+
+function abortBuild(): never {
+  if (WATCHING) {
+    throw new BuildAborted("Registry build aborted");
+  }
   process.exit(1);
 }
 
@@ -90,17 +248,37 @@ function extractContributorInfo(content: string): ContributorInfo | undefined {
   };
 }
 
+function extractSourceUrls(content: string): string[] {
+  const sources: string[] = [];
+  const sourceRegex = /@source\s+(.+)/g;
+
+  let match;
+  while ((match = sourceRegex.exec(content)) !== null) {
+    // Contributors sometimes quote the URL: @source "https://..."
+    const url = match[1]!.trim().replace(/^["'`]|["'`]$/g, "");
+    if (url && !sources.includes(url)) {
+      sources.push(url);
+    }
+  }
+
+  return sources;
+}
+
 function extractMetadata(content: string, filePath: string) {
   const descriptionMatch = content.match(/@description\s+(.+)/);
   const categoryMatch = content.match(/@category\s+(.+)/);
   const contributor = extractContributorInfo(content);
 
   const meta: {
-    source: string;
+    sources: string[];
+    filePath: string;
     category?: string;
     contributor?: ContributorInfo;
   } = {
-    source: relative(process.cwd(), filePath),
+    // Origin video URL(s) the animation was recreated from
+    sources: extractSourceUrls(content),
+    // Registry source file, always posix-style so output is OS independent
+    filePath: relative(process.cwd(), filePath).split(sep).join("/"),
   };
 
   if (categoryMatch?.[1]?.trim()) {
@@ -117,70 +295,363 @@ function extractMetadata(content: string, filePath: string) {
   };
 }
 
+/* -------------------------------------------------------------------------- */
+/*                                 MANIFESTS                                  */
+/* -------------------------------------------------------------------------- */
+
+function literalError(node: ts.Node, source: ts.SourceFile): Error {
+  const { line } = source.getLineAndCharacterOfPosition(node.getStart(source));
+  return new Error(
+    `\`meta\` can only hold plain values, \`${node.getText(source)}\` on line ${line + 1} isn't one`
+  );
+}
+
+/** The JSON value a literal expression spells out */
+function toLiteralValue(node: ts.Expression, source: ts.SourceFile): unknown {
+  while (
+    ts.isAsExpression(node) ||
+    ts.isSatisfiesExpression(node) ||
+    ts.isParenthesizedExpression(node)
+  ) {
+    node = node.expression;
+  }
+
+  if (ts.isStringLiteralLike(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map((element) => toLiteralValue(element, source));
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    return Object.fromEntries(
+      node.properties.map((property) => {
+        if (
+          !ts.isPropertyAssignment(property) ||
+          !(ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+        ) {
+          throw literalError(property, source);
+        }
+        return [
+          property.name.text,
+          toLiteralValue(property.initializer, source),
+        ];
+      })
+    );
+  }
+
+  throw literalError(node, source);
+}
+
+/** Value of `export const meta = { … }`, undefined when there's none */
+function readMetaExport(filePath: string, content: string): unknown {
+  // Single-file components need a parser of their own
+  if (extname(filePath) === ".vue") return undefined;
+
+  const source = ts.createSourceFile(
+    filePath,
+    content,
+    ts.ScriptTarget.Latest,
+    true
+  );
+
+  for (const statement of source.statements) {
+    const exported = ts.isVariableStatement(statement)
+      ? statement.modifiers?.some(
+          (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+        )
+      : false;
+    if (!exported) continue;
+
+    for (const declaration of (statement as ts.VariableStatement)
+      .declarationList.declarations) {
+      if (
+        ts.isIdentifier(declaration.name) &&
+        declaration.name.text === "meta" &&
+        declaration.initializer
+      ) {
+        return toLiteralValue(declaration.initializer, source);
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function getManifestPath(name: string, entryPath: string): string {
+  return join(dirname(entryPath), `${name}${MANIFEST_SUFFIX}`);
+}
+
+/**
+ * The item's manifests, the `meta` export of its entry file then
+ * `<name>.meta.json`, each validated on its own so errors name their file.
+ */
+function readManifests(
+  name: string,
+  entryPath: string,
+  content: string
+): RegistryManifest[] {
+  const manifests: [string, () => unknown][] = [
+    [
+      `${basename(entryPath)} (meta export)`,
+      () => readMetaExport(entryPath, content),
+    ],
+  ];
+
+  const manifestPath = getManifestPath(name, entryPath);
+  if (existsSync(manifestPath)) {
+    manifests.push([
+      relative(process.cwd(), manifestPath).split(sep).join("/"),
+      () => JSON.parse(readFileSync(manifestPath, "utf-8")),
+    ]);
+  }
+
+  return manifests.flatMap(([file, read]) => {
+    let value: unknown;
+    try {
+      value = read();
+    } catch (error) {
+      failValidation(file, [{ path: [], message: (error as Error).message }]);
+    }
+    if (value === undefined) return [];
+
+    const result = registryManifestSchema.safeParse(value);
+    if (!result.success) {
+      failValidation(file, result.error.issues);
+    }
+    return [result.data];
+  });
+}
+
+/**
+ * Lays manifests over the JSDoc tags: their fields win, sources and tags
+ * are combined, contributor fields are merged one by one.
+ */
+function mergeManifests(
+  { description, meta }: ReturnType<typeof extractMetadata>,
+  manifests: RegistryManifest[]
+) {
+  const merged = {
+    description,
+    meta: { ...meta } as typeof meta & Partial<RegistryManifest>,
+    peerDependencies: undefined as string[] | undefined,
+  };
+
+  for (const manifest of manifests) {
+    const { $schema, description, peerDependencies, ...fields } = manifest;
+
+    merged.description = description ?? merged.description;
+    merged.peerDependencies = peerDependencies ?? merged.peerDependencies;
+    Object.assign(merged.meta, fields, {
+      sources: union(merged.meta.sources, fields.sources),
+      ...(fields.tags && { tags: union(merged.meta.tags, fields.tags) }),
+      ...(fields.contributor && {
+        contributor: { ...merged.meta.contributor, ...fields.contributor },
+      }),
+    });
+  }
+
+  return merged;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                           DEPENDENCY EXTRACTION                            */
 /* -------------------------------------------------------------------------- */
 
 function extractPackageFromImport(importPath: string): string | null {
-  // Skip relative imports and path aliases
-  if (importPath?.startsWith(".") || importPath?.startsWith("@/")) {
+  // Skip relative imports, path aliases, subpath imports and Node builtins
+  if (
+    /^(\.|@\/|~\/|#)/.test(importPath) ||
+    importPath.startsWith("node:") ||
+    builtinModules.includes(importPath.split("/")[0]!)
+  ) {
     return null;
   }
 
   // Extract package name (handle scoped packages)
-  return importPath?.startsWith("@")
+  return importPath.startsWith("@")
     ? importPath.split("/").slice(0, 2).join("/")
-    : importPath?.split("/")[0] || null;
+    : importPath.split("/")[0] || null;
 }
 
-function extractDependencies(content: string, framework: string): string[] {
-  const dependencies = new Set<string>();
+function isPeerPackage(name: string): boolean {
+  return PEER_PACKAGES.includes(name) || name.startsWith("@angular/");
+}
 
-  // Add framework base dependency
-  const baseDep = FRAMEWORK_DEPENDENCIES[framework];
-  if (baseDep) {
-    dependencies.add(baseDep);
-  }
+/** `@types/…` package that types `name`, `@scope/pkg` → `@types/scope__pkg` */
+function getTypesPackage(name: string): string {
+  return `@types/${name.replace(/^@/, "").replace("/", "__")}`;
+}
 
-  // Extract imports using multiple patterns
-  const importPatterns = [
-    /import\s+.*?\s+from\s+['"]([^'"]+)['"]/g,
-    /require\s*\(['"]([^'"]+)['"]\)/g,
-    /import\s*\(['"]([^'"]+)['"]\)/g,
-  ];
+function isTypeOnlyImport(node: ts.ImportDeclaration): boolean {
+  const clause = node.importClause;
+  if (!clause) return false;
+  if (clause.isTypeOnly) return true;
+
+  // `import { type A, type B }` is elided as well
+  const bindings = clause.namedBindings;
+  return (
+    !clause.name &&
+    !!bindings &&
+    ts.isNamedImports(bindings) &&
+    bindings.elements.length > 0 &&
+    bindings.elements.every((element) => element.isTypeOnly)
+  );
+}
 
-  for (const pattern of importPatterns) {
-    let match;
-    while ((match = pattern.exec(content)) !== null) {
-      const packageName = extractPackageFromImport(match[1]!);
-      if (packageName) {
-        dependencies.add(packageName);
-      }
+function isTypeOnlyExport(node: ts.ExportDeclaration): boolean {
+  const clause = node.exportClause;
+  return (
+    node.isTypeOnly ||
+    (!!clause &&
+      ts.isNamedExports(clause) &&
+      clause.elements.length > 0 &&
+      clause.elements.every((element) => element.isTypeOnly))
+  );
+}
+
+/**
+ * Packages a file imports, split by whether the import survives compilation.
+ * Covers side-effect imports, re-exports, `import()`, `require()` and
+ * `import x = require()`, and the `<script>` blocks of Vue files.
+ */
+function collectImports(content: string, filePath: string): PackageImports {
+  const code =
+    extname(filePath) === ".vue"
+      ? [...content.matchAll(VUE_SCRIPT_BLOCK)]
+          .map(([, script]) => script)
+          .join("\n")
+      : content;
+  const source = ts.createSourceFile(
+    filePath.replace(/\.vue$/, ".ts"),
+    code,
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const imports: PackageImports = { runtime: new Set(), typeOnly: new Set() };
+
+  const visit = (node: ts.Node): void => {
+    let specifier: ts.Node | undefined;
+    let typeOnly = false;
+
+    if (ts.isImportDeclaration(node)) {
+      specifier = node.moduleSpecifier;
+      typeOnly = isTypeOnlyImport(node);
+    } else if (ts.isExportDeclaration(node)) {
+      specifier = node.moduleSpecifier;
+      typeOnly = isTypeOnlyExport(node);
+    } else if (
+      ts.isImportEqualsDeclaration(node) &&
+      ts.isExternalModuleReference(node.moduleReference)
+    ) {
+      specifier = node.moduleReference.expression;
+      typeOnly = node.isTypeOnly;
+    } else if (
+      ts.isCallExpression(node) &&
+      (node.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(node.expression) &&
+          node.expression.text === "require"))
+    ) {
+      specifier = node.arguments[0];
+    } else if (ts.isImportTypeNode(node)) {
+      // `typeof import("pkg")`
+      specifier = ts.isLiteralTypeNode(node.argument)
+        ? node.argument.literal
+        : undefined;
+      typeOnly = true;
     }
+
+    const name =
+      specifier && ts.isStringLiteralLike(specifier)
+        ? extractPackageFromImport(specifier.text)
+        : null;
+    if (name) {
+      (typeOnly ? imports.typeOnly : imports.runtime).add(name);
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return imports;
+}
+
+/** Version ranges of every package the repo's package.json lists */
+function readRepoVersions(): Map<string, string> {
+  const packageJsonPath = join(process.cwd(), "package.json");
+  if (!existsSync(packageJsonPath)) {
+    return new Map();
   }
 
-  return Array.from(dependencies).sort();
+  const pkg = JSON.parse(readFileSync(packageJsonPath, "utf-8"));
+  return new Map(
+    Object.entries<string>({
+      ...pkg.peerDependencies,
+      ...pkg.optionalDependencies,
+      ...pkg.devDependencies,
+      ...pkg.dependencies,
+    })
+  );
 }
 
-function extractDevDependencies(content: string): string[] {
-  const devDeps = new Set<string>();
-  const devPatterns = [/@testing-library/, /vitest/, /jest/, /@types\//];
+/**
+ * Sorts what the item's code imports into packages `add` installs, types it
+ * only needs to compile, and framework packages the project already has.
+ * Versions are the ranges the repo develops the registry against.
+ */
+function analyzeDependencies(
+  files: { name: string; content: string }[],
+  framework: string,
+  declaredPeers: string[] = []
+): DependencyAnalysis {
+  const versions = readRepoVersions();
+  const runtime = new Set<string>();
+  const typeOnly = new Set<string>();
 
-  for (const pattern of devPatterns) {
-    if (pattern.test(content)) {
-      const match = content.match(
-        new RegExp(`from ['"]([^'"]*${pattern.source}[^'"]*)['"]`)
-      );
-      if (match) {
-        const pkg = extractPackageFromImport(match[1]!);
-        if (pkg) {
-          devDeps.add(pkg);
-        }
-      }
-    }
+  for (const file of files) {
+    const imports = collectImports(file.content, file.name);
+    imports.runtime.forEach((name) => runtime.add(name));
+    imports.typeOnly.forEach((name) => typeOnly.add(name));
+  }
+
+  // Manifest peers are the project's to install, whatever their name
+  const peerNames = new Set(declaredPeers.map(getPackageName));
+  const isPeer = (name: string) => isPeerPackage(name) || peerNames.has(name);
+
+  const peers = new Set([...runtime, ...typeOnly].filter(isPeer));
+  const baseDep = FRAMEWORK_DEPENDENCIES[framework];
+  if (baseDep) {
+    peers.add(baseDep);
   }
 
-  return Array.from(devDeps).sort();
+  const dependencies = [...runtime].filter((name) => !isPeer(name));
+  const devDependencies = [
+    ...[...typeOnly].filter((name) => !runtime.has(name) && !isPeer(name)),
+    // Types of what's used, when the repo relies on them too
+    ...dependencies.map(getTypesPackage).filter((name) => versions.has(name)),
+  ];
+
+  const withVersion = (name: string) => {
+    const version = versions.get(name);
+    return version ? `${name}@${version}` : name;
+  };
+
+  return {
+    dependencies: dependencies.map(withVersion).sort(),
+    devDependencies: [...new Set(devDependencies)].map(withVersion).sort(),
+    // A declared peer keeps the range it was declared with
+    peerDependencies: [
+      ...declaredPeers,
+      ...[...peers].filter((name) => !declaredPeers.includes(name)),
+    ]
+      .map((peer) => (peer === getPackageName(peer) ? withVersion(peer) : peer))
+      .sort(),
+    unknown: [...dependencies, ...devDependencies].filter(
+      (name) => !versions.has(name)
+    ),
+  };
 }
 
 function extractRegistryDependencies(content: string): string[] {
@@ -214,10 +685,51 @@ function extractRegistryDependencies(content: string): string[] {
 /*                            IMPORT TRANSFORMATION                           */
 /* -------------------------------------------------------------------------- */
 
-function transformImports(content: string): string {
-  return content
-    .replace(/from\s+['"](\.\.\/lib\/utils)['"]/g, 'from "@/components/utils"')
-    .replace(/from\s+['"](\.\.\/lib\/([^'"]+))['"]/g, 'from "@/components/$2"');
+function toPlaceholder(
+  target: string,
+  from: ItemSource,
+  files: ItemSource[],
+  frameworkDir: string
+): string | null {
+  const lib = relative(join(frameworkDir, "lib"), target);
+  if (lib && !lib.startsWith("..")) {
+    return `@/components/${toPosix(lib)}`;
+  }
+
+  const file = files.find(
+    (candidate) =>
+      candidate.path === target ||
+      candidate.path.slice(0, -extname(candidate.path).length) === target
+  );
+
+  // Files of the same type keep their layout, relative imports still work
+  if (!file || file.type === from.type) return null;
+
+  // Keeps the extension the import was written with
+  const name = join(dirname(file.name), basename(target));
+  return `@/${PLACEHOLDER_ROOTS[file.type]}/${toPosix(name)}`;
+}
+
+/**
+ * Writes imports of `lib/` and of item files that install under another
+ * alias as `@/components/…`, `@/hooks/…`, `@/styles/…` or `@/assets/…`
+ * placeholders, `add` points them at wherever the project's aliases put those
+ * modules.
+ */
+function transformImports(
+  content: string,
+  from: ItemSource,
+  files: ItemSource[],
+  frameworkDir: string
+): string {
+  return content.replace(
+    RELATIVE_IMPORT,
+    (match, keyword: string, quote: string, specifier: string) => {
+      const target = resolve(dirname(from.path), specifier);
+      const placeholder = toPlaceholder(target, from, files, frameworkDir);
+      return placeholder ? `${keyword}${quote}${placeholder}${quote}` : match;
+    }
+  );
 }
 
 /* -------------------------------------------------------------------------- */
@@ -235,19 +747,142 @@ function determineTargetFileName(file: string, type: ComponentType): string {
   return file;
 }
 
+/**
+ * Type of an extra file of an item. Code is `codeType` unless it's named
+ * like a hook (`use-scroll.ts`, `useScroll.ts`) or sits in a `hooks/` folder.
+ */
+function getFileType(
+  name: string,
+  codeType: ComponentType
+): RegistryFileType | null {
+  const ext = extname(name);
+  if (STYLE_EXTENSIONS.includes(ext)) return "registry:style";
+  if (ASSET_EXTENSIONS.includes(ext)) return "registry:asset";
+  if (!isValidComponentFile(name)) return null;
+
+  const isHook =
+    /^use[A-Z-]/.test(basename(name)) || name.split("/").includes("hooks");
+  return isHook ? "registry:hook" : codeType;
+}
+
+/** `<folder>/<folder>.tsx`, the file a folder item takes its metadata from */
+function findFolderEntry(folder: string): string | null {
+  const name = basename(folder);
+  return (
+    VALID_EXTENSIONS.map((ext) => join(folder, `${name}${ext}`)).find(
+      existsSync
+    ) ?? null
+  );
+}
+
+/**
+ * Every file an item ships: the entry file, the rest of its folder and the
+ * files the entry declares with `@include ./path`.
+ */
+function collectItemFiles(
+  entryPath: string,
+  type: ComponentType,
+  folder?: string
+): ItemSource[] {
+  const files: ItemSource[] = [
+    {
+      path: entryPath,
+      name: folder
+        ? toPosix(relative(folder, entryPath))
+        : determineTargetFileName(basename(entryPath), type),
+      type,
+    },
+  ];
+  const has = (path: string) => files.some((file) => file.path === path);
+
+  for (const path of folder ? listFiles(folder) : []) {
+    if (has(path) || path.endsWith(MANIFEST_SUFFIX)) continue;
+    const name = toPosix(relative(folder!, path));
+    const fileType = getFileType(name, type);
+
+    if (!fileType) {
+      // READMEs, previews and binary assets stay in the repo
+      console.warn(chalk.yellow(`⚠ Skipped ${basename(folder!)}/${name}`));
+      continue;
+    }
+    files.push({ path, name, type: fileType });
+  }
+
+  const content = readSourceFile(entryPath);
+  for (const [, declared = ""] of content.matchAll(/@include\s+(\S+)/g)) {
+    const path = resolve(dirname(entryPath), declared);
+    if (has(path)) continue;
+    if (!existsSync(path)) {
+      throw new Error(`@include ${declared} not found`);
+    }
+
+    const name = basename(path);
+    const fileType = getFileType(name, type);
+    if (!fileType) {
+      throw new Error(
+        `@include ${declared} can't be shipped, only code, stylesheets and ${ASSET_EXTENSIONS.join(" ")} assets can`
+      );
+    }
+    files.push({ path, name, type: fileType });
+  }
+
+  return files;
+}
+
 function createRegistryItem(
   file: string,
   filePath: string,
   framework: string,
-  type: ComponentType
+  type: ComponentType,
+  sources: ItemSource[],
+  folder?: string
 ): RegistryItem | null {
   try {
-    const componentName = basename(file, extname(file));
-    const fileContent = readFileSync(filePath, "utf-8");
-    const transformedContent = transformImports(fileContent);
+    const componentName = folder ? file : basename(file, extname(file));
+    const fileContent = readSourceFile(filePath);
+    const frameworkDir = dirname(dirname(folder ?? filePath));
+
+    const files = sources.map((source) => {
+      const content = readSourceFile(source.path);
+      return {
+        name: source.name,
+        content: isValidComponentFile(source.path)
+          ? transformImports(content, source, sources, frameworkDir)
+          : content,
+        type: source.type,
+      };
+    });
+
+    // Dependencies come from the code, stylesheets and assets have none
+    const codeFiles = files.filter((registryFile) =>
+      isValidComponentFile(registryFile.name)
+    );
+    const code = codeFiles
+      .map((registryFile) => registryFile.content)
+      .join("\n");
+    const ownComponents = sources
+      .filter((source) => source.type === "registry:component")
+      .map((source) => basename(source.name, extname(source.name)));
+
+    const { description, meta, peerDependencies } = mergeManifests(
+      extractMetadata(fileContent, filePath),
+      readManifests(componentName, filePath, fileContent)
+    );
 
-    const { description, meta } = extractMetadata(fileContent, filePath);
-    const targetFileName = determineTargetFileName(file, type);
+    const packages = analyzeDependencies(
+      codeFiles,
+      framework,
+      peerDependencies
+    );
+    if (packages.unknown.length > 0) {
+      failValidation(
+        file,
+        packages.unknown.map((name) => ({
+          path: ["dependencies"],
+          message: `"${name}" is imported but not in package.json, add it to devDependencies so the registry is built against a known version`,
+        }))
+      );
+    }
 
     const rawItem = {
       name: componentName,
@@ -256,45 +891,126 @@ function createRegistryItem(
       description:
         description ||
         `${componentName} ${type.split(":")[1]} for ${framework}`,
-      files: [
-        {
-          name: targetFileName,
-          content: transformedContent,
-          type: type, // Added type field often expected in registry schemas
-        },
-      ],
-      dependencies: extractDependencies(transformedContent, framework),
-      devDependencies: extractDevDependencies(transformedContent),
-      registryDependencies: extractRegistryDependencies(transformedContent),
+      files,
+      dependencies: packages.dependencies,
+      devDependencies: packages.devDependencies,
+      registryDependencies: extractRegistryDependencies(code).filter(
+        (dep) => !ownComponents.includes(dep)
+      ),
+      peerDependencies: packages.peerDependencies,
       meta,
     };
 
     const result = registryItemSchema.safeParse(rawItem);
 
     if (!result.success) {
-      console.error(
-        chalk.red(`\n❌ Schema Validation Error in: ${chalk.bold(file)}`)
-      );
-
-      // Map through Zod issues for a clean output
-      result.error.issues.forEach((issue) => {
-        const path = issue.path.join(".");
-        console.error(
-          chalk.yellow(`  → [${path}]: `) + chalk.white(issue.message)
-        );
-      });
-
-      // Since we want to "catch errors before push," we exit 1 to fail the build/CI
-      process.exit(1);
+      failValidation(file, result.error.issues);
     }
 
     return result.data as RegistryItem;
   } catch (error) {
-    logError(`Failed to process ${file}`, error as Error);
+    if (!(error instanceof BuildAborted)) {
+      logError(`Failed to process ${file}`, error as Error);
+    }
     return null;
   }
 }
 
+/* -------------------------------------------------------------------------- */
+/*                              BUILD MANIFEST                                */
+/* -------------------------------------------------------------------------- */
+
+function readBuildManifest(): BuildManifest["items"] {
+  const manifestPath = join(process.cwd(), BUILD_MANIFEST_PATH);
+  if (!existsSync(manifestPath)) {
+    return {};
+  }
+
+  try {
+    const manifest: BuildManifest = JSON.parse(
+      readFileSync(manifestPath, "utf-8")
+    );
+    return manifest.version === BUILD_MANIFEST_VERSION ? manifest.items : {};
+  } catch {
+    // A broken cache only costs a full build
+    return {};
+  }
+}
+
+function writeBuildManifest(items: BuildManifest["items"]): void {
+  const sorted = Object.fromEntries(
+    Object.entries(items).sort(([a], [b]) => a.localeCompare(b))
+  );
+  const manifest: BuildManifest = {
+    version: BUILD_MANIFEST_VERSION,
+    items: sorted,
+  };
+  writeIfChanged(
+    join(process.cwd(), BUILD_MANIFEST_PATH),
+    JSON.stringify(manifest, null, 2)
+  );
+}
+
+/**
+ * Hash of everything an item's JSON is built from: its files, its
+ * `.meta.json` and the package.json its dependency versions come from.
+ */
+function hashItemSources(
+  name: string,
+  entryPath: string,
+  type: ComponentType,
+  sources: ItemSource[]
+): string {
+  const hash = createHash("sha256");
+  const add = (label: string, path: string) => {
+    hash.update(`${label}\0`);
+    if (existsSync(path)) {
+      hash.update(readSourceFile(path));
+    }
+    hash.update("\0");
+  };
+
+  hash.update(`${BUILD_MANIFEST_VERSION}\0${type}\0`);
+  for (const source of sources) {
+    add(
+      `${toPosix(relative(process.cwd(), source.path))}:${source.type}`,
+      source.path
+    );
+  }
+  add("manifest", getManifestPath(name, entryPath));
+  add("package.json", join(process.cwd(), "package.json"));
+
+  return hash.digest("hex");
+}
+
+/** Leaves files alone when their content is the same, so mtimes don't churn */
+function writeIfChanged(path: string, content: string): boolean {
+  if (existsSync(path) && readFileSync(path, "utf-8") === content) {
+    return false;
+  }
+
+  ensureDirectory(dirname(path));
+  writeFileSync(path, content, "utf-8");
+  return true;
+}
+
+/** Deletes what earlier builds wrote for sources that are gone now */
+function removeStaleOutputs(outputDir: string, state: BuildState): number {
+  let removed = 0;
+
+  for (const key of Object.keys(state.previous)) {
+    if (key in state.next) continue;
+
+    const outputPath = join(outputDir, key);
+    if (existsSync(outputPath)) {
+      rmSync(outputPath);
+      removed++;
+    }
+  }
+
+  return removed;
+}
+
 /* -------------------------------------------------------------------------- */
 /*                            FILE/DIR PROCESSING                             */
 /* -------------------------------------------------------------------------- */
@@ -304,14 +1020,24 @@ function processFile(
   dir: string,
   outputDir: string,
   framework: string,
-  type: ComponentType
+  type: ComponentType,
+  state: BuildState
 ): boolean {
   const filePath = join(dir, file);
+  let entryPath = filePath;
+  let folder: string | undefined;
 
-  // Check if it's a valid file
+  // Check if it's a valid file, or a folder holding one item
   try {
     const stat = __test__.safeStatSync(filePath);
-    if (stat.isDirectory() || !isValidComponentFile(file)) {
+    if (stat.isDirectory()) {
+      const entry = type === "registry:lib" ? null : findFolderEntry(filePath);
+      if (!entry) {
+        return false;
+      }
+      entryPath = entry;
+      folder = filePath;
+    } else if (!isValidComponentFile(file)) {
       return false;
     }
   } catch (error) {
@@ -319,18 +1045,46 @@ function processFile(
     return false;
   }
 
+  const componentName = folder ? file : basename(file, extname(file));
+  const outputPath = join(outputDir, `${componentName}.json`);
+  const key = `${framework}/${componentName}.json`;
+  const previous = state.previous[key];
+
+  // A failed item keeps its last good output until it builds again
+  if (previous) {
+    state.next[key] = previous;
+  }
+
+  let sources: ItemSource[];
+  try {
+    sources = collectItemFiles(entryPath, type, folder);
+  } catch (error) {
+    logError(`Failed to process ${file}`, error as Error);
+    return false;
+  }
+
+  const hash = hashItemSources(componentName, entryPath, type, sources);
+  if (previous?.hash === hash && existsSync(outputPath)) {
+    state.unchanged++;
+    return true;
+  }
+
   // Create and write registry item
-  const registryItem = createRegistryItem(file, filePath, framework, type);
+  const registryItem = createRegistryItem(
+    file,
+    entryPath,
+    framework,
+    type,
+    sources,
+    folder
+  );
   if (!registryItem) {
     return false;
   }
 
-  const componentName = basename(file, extname(file));
-  const outputPath = join(outputDir, `${componentName}.json`);
-
   try {
-    ensureDirectory(dirname(outputPath));
-    writeFileSync(outputPath, JSON.stringify(registryItem, null, 2), "utf-8");
+    writeIfChanged(outputPath, JSON.stringify(registryItem, null, 2));
+    state.next[key] = { hash };
     return true;
   } catch (error) {
     logError(`Failed to write ${outputPath}`, error as Error);
@@ -343,6 +1097,7 @@ function processDirectory(
   outputDir: string,
   framework: string,
   type: ComponentType,
+  state: BuildState,
   spinner: Ora
 ): number {
   if (!existsSync(dir)) {
@@ -355,7 +1110,7 @@ function processDirectory(
   for (const file of files) {
     spinner.text = `Processing ${chalk.cyan(framework)}/${chalk.gray(file)}...`;
 
-    if (processFile(file, dir, outputDir, framework, type)) {
+    if (processFile(file, dir, outputDir, framework, type, state)) {
       processed++;
     }
   }
@@ -376,6 +1131,7 @@ function processFramework(
   framework: string,
   registryDir: string,
   outputDir: string,
+  state: BuildState,
   spinner: Ora
 ): FrameworkStats {
   const frameworkDir = join(registryDir, framework);
@@ -396,6 +1152,7 @@ function processFramework(
       frameworkOutputDir,
       framework,
       "registry:component",
+      state,
       spinner
     );
   }
@@ -408,6 +1165,7 @@ function processFramework(
       frameworkOutputDir,
       framework,
       "registry:lib",
+      state,
       spinner
     );
   }
@@ -420,6 +1178,7 @@ function processFramework(
       frameworkOutputDir,
       framework,
       "registry:hook",
+      state,
       spinner
     );
     stats.utilities += hooks;
@@ -468,12 +1227,12 @@ function discoverFrameworks(registryDir: string): string[] {
 function createAnimationIndex(
   framework: string,
   frameworkOutputDir: string
-): any[] {
+): RegistryEntry[] {
   if (!existsSync(frameworkOutputDir)) {
     return [];
   }
 
-  const animations: any[] = [];
+  const animations: RegistryEntry[] = [];
   const jsonFiles = readdirSync(frameworkOutputDir).filter((f) =>
     f.endsWith(".json")
   );
@@ -482,16 +1241,37 @@ function createAnimationIndex(
     try {
       const filePath = join(frameworkOutputDir, jsonFile);
       const registryItem = JSON.parse(readFileSync(filePath, "utf-8"));
+      const sources: string[] = registryItem.meta?.sources ?? [];
+      const videoKeys = sources
+        .map((source) => toVideoKey(source))
+        .filter((key): key is string => key !== null);
+      const dependencies: string[] = registryItem.dependencies ?? [];
 
       animations.push({
         id: registryItem.name,
         name: registryItem.name,
         description: registryItem.description,
-        libraries: [framework],
-        sources: [registryItem.meta?.source || ""],
+        type: registryItem.type,
+        category: registryItem.meta?.category,
+        libraries: [framework as Framework],
+        frameworks: {
+          [framework]: {
+            files: (registryItem.files ?? []).map(
+              (file: { name: string }) => file.name
+            ),
+            dependencies,
+            devDependencies: registryItem.devDependencies ?? [],
+            peerDependencies: registryItem.peerDependencies ?? [],
+            registryDependencies: registryItem.registryDependencies ?? [],
+          },
+        },
+        sources,
+        videoKeys,
         difficulty: registryItem.meta?.difficulty || "medium",
         tags: registryItem.meta?.tags || [],
         demoUrl: registryItem.meta?.demoUrl || undefined,
+        dependencies,
+        contributor: registryItem.meta?.contributor,
       });
     } catch (error) {
       logError(`Failed to index ${jsonFile}`, error as Error);
@@ -501,11 +1281,66 @@ function createAnimationIndex(
   return animations;
 }
 
+function union(a: string[] = [], b: string[] = []): string[] {
+  return [...new Set([...a, ...b])];
+}
+
+/**
+ * Collapses the per-framework entries of the same animation into a single
+ * record listing every framework that ships it.
+ */
+function mergeAnimationEntries(entries: RegistryEntry[]): RegistryEntry[] {
+  const merged = new Map<string, RegistryEntry>();
+
+  for (const entry of entries) {
+    const existing = merged.get(entry.id);
+
+    if (!existing) {
+      merged.set(entry.id, { ...entry });
+      continue;
+    }
+
+    existing.libraries = union(
+      existing.libraries,
+      entry.libraries
+    ) as Framework[];
+    existing.frameworks = { ...existing.frameworks, ...entry.frameworks };
+    existing.sources = union(existing.sources, entry.sources);
+    existing.videoKeys = union(existing.videoKeys, entry.videoKeys);
+    existing.tags = union(existing.tags, entry.tags);
+    existing.dependencies = union(existing.dependencies, entry.dependencies);
+    if (!existing.demoUrl && entry.demoUrl) {
+      existing.demoUrl = entry.demoUrl;
+    }
+  }
+
+  return [...merged.values()];
+}
+
+function readAliasFile(registryDir: string): Record<string, string> {
+  const aliasPath = join(registryDir, "aliases.json");
+  if (!existsSync(aliasPath)) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(readFileSync(aliasPath, "utf-8"));
+  } catch (error) {
+    logError("Failed to parse registry/aliases.json", error as Error);
+    return {};
+  }
+}
+
+/**
+ * Writes index.json, keeping the file and its `lastUpdated` as they are
+ * when nothing else in it changed.
+ */
 function writeIndexFile(
   outputDir: string,
   frameworks: string[],
   stats: BuildStats,
-  animations: any[]
+  animations: RegistryEntry[],
+  aliases: Record<string, string>
 ): void {
   const indexPath = join(outputDir, "index.json");
   const indexData = {
@@ -517,8 +1352,22 @@ function writeIndexFile(
     },
     lastUpdated: new Date().toISOString(),
     animations,
+    aliases,
   };
 
+  if (existsSync(indexPath)) {
+    try {
+      const existing = JSON.parse(readFileSync(indexPath, "utf-8"));
+      const serialize = (index: object) =>
+        JSON.stringify({ ...index, lastUpdated: undefined });
+      if (serialize(existing) === serialize(indexData)) {
+        return;
+      }
+    } catch {
+      // Unreadable index, replaced below
+    }
+  }
+
   writeFileSync(indexPath, JSON.stringify(indexData, null, 2));
 }
 
@@ -526,8 +1375,182 @@ function writeIndexFile(
 /*                               MAIN COMMAND                                 */
 /* -------------------------------------------------------------------------- */
 
-export async function buildRegistry(): Promise<void> {
+/**
+ * Builds `registry/` into `public/r`. Items whose sources hash the same as
+ * last time are skipped, outputs of deleted sources are removed.
+ */
+function runBuild(registryDir: string, outputDir: string, spinner: Ora): void {
+  ensureDirectory(outputDir);
+
+  // Discover frameworks
+  const frameworks = discoverFrameworks(registryDir);
+  if (frameworks.length === 0) {
+    spinner.fail(chalk.red("No valid framework directories found"));
+    fatal(
+      "No valid framework directories found",
+      "Expected structure: registry/<framework>/ui/"
+    );
+  }
+
+  // Initialize stats
+  const stats: BuildStats = {
+    components: 0,
+    utilities: 0,
+    frameworks: frameworks.length,
+    errors: 0,
+    unchanged: 0,
+    removed: 0,
+  };
+
+  const state: BuildState = {
+    previous: readBuildManifest(),
+    next: {},
+    unchanged: 0,
+  };
+
+  // Process each framework
+  for (const framework of frameworks) {
+    try {
+      const frameworkStats = processFramework(
+        framework,
+        registryDir,
+        outputDir,
+        state,
+        spinner
+      );
+
+      stats.components += frameworkStats.components;
+      stats.utilities += frameworkStats.utilities;
+    } catch (error) {
+      stats.errors++;
+      logError(`Failed to process framework: ${framework}`, error as Error);
+
+      // Its outputs aren't stale, they just weren't rebuilt
+      for (const [key, entry] of Object.entries(state.previous)) {
+        if (key.startsWith(`${framework}/`)) {
+          state.next[key] ??= entry;
+        }
+      }
+    }
+  }
+
+  stats.unchanged = state.unchanged;
+  stats.removed = removeStaleOutputs(outputDir, state);
+  writeBuildManifest(state.next);
+
+  // Create animation index for each framework
+  const animations = mergeAnimationEntries(
+    frameworks.flatMap((framework) =>
+      createAnimationIndex(framework, join(outputDir, framework))
+    )
+  );
+
+  // Share links resolved ahead of time so `find` works offline
+  const aliases = buildShortLinkAliases(
+    animations.map((animation) => animation.sources),
+    readAliasFile(registryDir)
+  );
+
+  // Write index file
+  writeIndexFile(outputDir, frameworks, stats, animations, aliases);
+
+  // Show results
+  spinner.succeed(chalk.green.bold("✨ Registry built successfully!"));
+
+  console.log(chalk.gray("\n  Summary:"));
+  console.log(chalk.cyan(`    Components: ${stats.components}`));
+  console.log(chalk.cyan(`    Utilities: ${stats.utilities}`));
+  console.log(chalk.cyan(`    Frameworks: ${stats.frameworks}`));
+
+  if (stats.unchanged > 0) {
+    console.log(chalk.gray(`    Unchanged: ${stats.unchanged}`));
+  }
+
+  if (stats.removed > 0) {
+    console.log(chalk.gray(`    Removed: ${stats.removed}`));
+  }
+
+  if (stats.errors > 0) {
+    console.log(chalk.yellow(`    Errors: ${stats.errors}`));
+  }
+
+  console.log(
+    chalk.gray(`\n  Output: ${relative(process.cwd(), outputDir)}\n`)
+  );
+}
+
+function listWatchedDirectories(dir: string): string[] {
+  return [
+    dir,
+    ...readdirSync(dir).flatMap((entry) => {
+      if (IGNORED_DIRS.includes(entry)) return [];
+      const path = join(dir, entry);
+      return existsSync(path) && statSync(path).isDirectory()
+        ? listWatchedDirectories(path)
+        : [];
+    }),
+  ];
+}
+
+/**
+ * Calls `onChange` once a burst of changes under `registryDir` or to
+ * package.json settles. Every directory gets its own watcher, Node 18 can't
+ * watch recursively on Linux. Returns a function that stops watching.
+ */
+function watchRegistry(registryDir: string, onChange: () => void): () => void {
+  const watchers = new Map<string, FSWatcher>();
+  let timer: NodeJS.Timeout | undefined;
+
+  const watchPath = (path: string) => {
+    try {
+      watchers.set(path, watch(path, schedule));
+    } catch {
+      // Removed before it could be watched, the next sync drops it
+    }
+  };
+
+  // Picks up directories created or deleted since the last change
+  const sync = () => {
+    const dirs = new Set(
+      existsSync(registryDir) ? listWatchedDirectories(registryDir) : []
+    );
+    for (const [path, watcher] of watchers) {
+      if (path.startsWith(registryDir) && !dirs.has(path)) {
+        watcher.close();
+        watchers.delete(path);
+      }
+    }
+    for (const dir of dirs) {
+      if (!watchers.has(dir)) watchPath(dir);
+    }
+  };
+
+  function schedule() {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      sync();
+      onChange();
+    }, WATCH_DEBOUNCE_MS);
+  }
+
+  sync();
+  const packageJsonPath = join(process.cwd(), "package.json");
+  if (existsSync(packageJsonPath)) {
+    watchPath(packageJsonPath);
+  }
+
+  return () => {
+    clearTimeout(timer);
+    for (const watcher of watchers.values()) watcher.close();
+    watchers.clear();
+  };
+}
+
+export async function buildRegistry(
+  options: RegistryBuildOptions = {}
+): Promise<void> {
   const spinner = ora("Building registry...").start();
+  WATCHING = false;
 
   try {
     const registryDir = join(process.cwd(), "registry");
@@ -539,68 +1562,29 @@ export async function buildRegistry(): Promise<void> {
       fatal("Registry directory not found", `Expected: ${registryDir}`);
     }
 
-    ensureDirectory(outputDir);
-
-    // Discover frameworks
-    const frameworks = discoverFrameworks(registryDir);
-    if (frameworks.length === 0) {
-      spinner.fail(chalk.red("No valid framework directories found"));
-      fatal(
-        "No valid framework directories found",
-        "Expected structure: registry/<framework>/ui/"
-      );
+    if (!options.watch) {
+      runBuild(registryDir, outputDir, spinner);
+      return;
     }
 
-    // Initialize stats
-    const stats: BuildStats = {
-      components: 0,
-      utilities: 0,
-      frameworks: frameworks.length,
-      errors: 0,
-    };
-
-    const allAnimations: any[] = [];
+    // Broken items are reported and fixed while watching, not fatal
+    WATCHING = true;
 
-    // Process each framework
-    for (const framework of frameworks) {
+    const rebuild = (spinner: Ora) => {
       try {
-        const frameworkStats = processFramework(
-          framework,
-          registryDir,
-          outputDir,
-          spinner
-        );
-
-        stats.components += frameworkStats.components;
-        stats.utilities += frameworkStats.utilities;
-
-        // Create animation index for this framework
-        const frameworkOutputDir = join(outputDir, framework);
-        const animations = createAnimationIndex(framework, frameworkOutputDir);
-        allAnimations.push(...animations);
+        runBuild(registryDir, outputDir, spinner);
       } catch (error) {
-        stats.errors++;
-        logError(`Failed to process framework: ${framework}`, error as Error);
+        spinner.fail(chalk.red("Failed to build registry"));
+        if (!(error instanceof BuildAborted)) {
+          logError("Build error", error as Error);
+        }
       }
-    }
-
-    // Write index file
-    writeIndexFile(outputDir, frameworks, stats, allAnimations);
-
-    // Show results
-    spinner.succeed(chalk.green.bold("✨ Registry built successfully!"));
-
-    console.log(chalk.gray("\n  Summary:"));
-    console.log(chalk.cyan(`    Components: ${stats.components}`));
-    console.log(chalk.cyan(`    Utilities: ${stats.utilities}`));
-    console.log(chalk.cyan(`    Frameworks: ${stats.frameworks}`));
-
-    if (stats.errors > 0) {
-      console.log(chalk.yellow(`    Errors: ${stats.errors}`));
-    }
+      console.log(chalk.gray("  Watching registry/ for changes...\n"));
+    };
 
-    console.log(
-      chalk.gray(`\n  Output: ${relative(process.cwd(), outputDir)}\n`)
+    rebuild(spinner);
+    watchRegistry(registryDir, () =>
+      rebuild(ora("Rebuilding registry...").start())
     );
   } catch (error) {
     spinner.fail(chalk.red("Failed to build registry"));
@@ -612,4 +1596,5 @@ export async function buildRegistry(): Promise<void> {
 export const __test__ = {
   safeStatSync,
   processFile,
+  watchRegistry,
 };
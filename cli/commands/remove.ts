@@ -0,0 +1,415 @@
+import chalk from "chalk";
+import ora from "ora";
+import { confirm } from "@clack/prompts";
+import {
+  existsSync,
+  readdirSync,
+  readFileSync,
+  rmdirSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { dirname, join, resolve } from "path";
+import { isUtilsFile, readPackageNames } from "./add.js";
+import {
+  hashContent,
+  pruneObjects,
+  readLockfile,
+  readObject,
+  writeLockfile,
+} from "../lockfile.js";
+import { getPackageName, uninstallDependencies } from "../package-manager.js";
+import {
+  getDeclarationCode,
+  getDeclarationNames,
+  removeDeclarations,
+} from "../utils-merge.js";
+import { resolveProjectRoot } from "../project-root.js";
+import type {
+  FileRemoval,
+  Lockfile,
+  LockfileEntry,
+  LockfileFile,
+  RemovalPlan,
+  RemoveOptions,
+} from "./types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   CONSTANTS                                */
+/* -------------------------------------------------------------------------- */
+
+let DEBUG = false;
+
+/* -------------------------------------------------------------------------- */
+/*                                     UTILS                                  */
+/* -------------------------------------------------------------------------- */
+
+function logDebug(...args: any[]): void {
+  if (DEBUG) {
+    console.log(chalk.gray("[DEBUG]"), ...args);
+  }
+}
+
+function logError(message: string, error?: Error): void {
+  console.error(chalk.red(`✗ ${message}`));
+  if (error && DEBUG) {
+    console.error(chalk.gray(error.stack || error.message));
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/** Removes `dir` and its parents while they are empty, stopping at `cwd` */
+function removeEmptyDirectories(dir: string, cwd: string): void {
+  const root = resolve(cwd);
+  let current = resolve(dir);
+
+  while (current.startsWith(root) && current !== root) {
+    if (!existsSync(current) || readdirSync(current).length > 0) return;
+    rmdirSync(current);
+    logDebug("Removed empty directory:", current);
+    current = dirname(current);
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 UTILS PRUNING                              */
+/* -------------------------------------------------------------------------- */
+
+/** Functions an install put into a utils file */
+function ownedFunctions(cwd: string, file: LockfileFile): string[] {
+  // A merge only appended `exports`, the rest was already there
+  if (file.action === "merged") return file.exports ?? [];
+
+  const base = readObject(cwd, file.registryHash);
+  return [
+    ...new Set([
+      ...(base ? getDeclarationNames(base) : []),
+      ...(file.exports ?? []),
+    ]),
+  ];
+}
+
+/**
+ * Functions the remaining installs rely on, or null when a record has no
+ * stored registry content to tell.
+ */
+function neededFunctions(
+  cwd: string,
+  files: LockfileFile[]
+): Set<string> | null {
+  const needed = new Set<string>();
+
+  for (const file of files) {
+    const base = readObject(cwd, file.registryHash);
+    if (!base) return null;
+    getDeclarationNames(base).forEach((name) => needed.add(name));
+  }
+
+  return needed;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   PLANNING                                 */
+/* -------------------------------------------------------------------------- */
+
+function planFile(
+  path: string,
+  records: LockfileFile[],
+  remaining: LockfileEntry[],
+  cwd: string
+): FileRemoval | null {
+  const absolutePath = join(cwd, path);
+  if (!existsSync(absolutePath)) return null;
+
+  // Files that were there before `add` aren't ours to delete
+  const owned = records.filter((record) => record.action !== "skipped");
+  if (owned.length === 0) return { path, action: "keep" };
+
+  const content = readFileSync(absolutePath, "utf-8");
+  const shared = remaining.flatMap((entry) =>
+    entry.files.filter((file) => file.path === path)
+  );
+  const utils =
+    shared.length > 0 ||
+    isUtilsFile(path) ||
+    owned.some((record) => record.exports?.length);
+
+  if (!utils) {
+    const modified = hashContent(content) !== owned[owned.length - 1]!.hash;
+    return { path, action: "delete", ...(modified && { modified }) };
+  }
+
+  const needed = neededFunctions(cwd, shared);
+  if (!needed) {
+    logDebug("Unknown functions needed by other installs, keeping:", path);
+    return { path, action: "keep" };
+  }
+
+  const functions = [
+    ...new Set(owned.flatMap((record) => ownedFunctions(cwd, record))),
+  ].filter((name) => !needed.has(name) && getDeclarationCode(content, name));
+
+  if (functions.length === 0) return { path, action: "keep" };
+
+  // Nothing but our functions left, so the whole file goes
+  return removeDeclarations(content, functions)
+    ? { path, action: "prune", functions }
+    : { path, action: "delete", functions };
+}
+
+function planRemoval(
+  components: string[],
+  dependencies: string[],
+  lockfile: Lockfile,
+  cwd: string
+): RemovalPlan {
+  const removing = new Set([...components, ...dependencies]);
+  const remaining = Object.values(lockfile.components).filter(
+    (entry) => !removing.has(entry.name)
+  );
+
+  const byPath = new Map<string, LockfileFile[]>();
+  for (const name of removing) {
+    for (const file of lockfile.components[name]?.files ?? []) {
+      byPath.set(file.path, [...(byPath.get(file.path) ?? []), file]);
+    }
+  }
+
+  const files = [...byPath].flatMap(
+    ([path, records]) => planFile(path, records, remaining, cwd) ?? []
+  );
+
+  // Only packages these installs added, and only if nothing else declares them
+  const stillNeeded = new Set(
+    remaining.flatMap((entry) =>
+      [...entry.dependencies, ...entry.devDependencies].map(getPackageName)
+    )
+  );
+  const installed = readPackageNames(cwd);
+  const packages = [
+    ...new Set(
+      [...removing].flatMap(
+        (name) => lockfile.components[name]?.addedDependencies ?? []
+      )
+    ),
+  ].filter((name) => !stillNeeded.has(name) && installed.has(name));
+
+  return { components, dependencies, files, packages };
+}
+
+/**
+ * Registry dependencies installed only for `components` that nothing else
+ * needs, followed down the tree, so `remove card` takes the utils only card
+ * pulled in. Anything added by name stays until it's removed by name.
+ */
+function findOrphanedDependencies(
+  components: string[],
+  lockfile: Lockfile
+): string[] {
+  const removing = new Set(components);
+  const orphaned: string[] = [];
+  const queue = [...components];
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+
+    for (const dep of lockfile.components[name]?.registryDependencies ?? []) {
+      if (removing.has(dep) || lockfile.components[dep]?.direct !== false) {
+        continue;
+      }
+
+      const stillNeeded = Object.values(lockfile.components).some(
+        (entry) =>
+          !removing.has(entry.name) && entry.registryDependencies.includes(dep)
+      );
+      if (stillNeeded) continue;
+
+      removing.add(dep);
+      orphaned.push(dep);
+      queue.push(dep);
+    }
+  }
+
+  return orphaned;
+}
+
+function applyRemoval(plan: RemovalPlan, cwd: string): void {
+  for (const file of plan.files) {
+    const absolutePath = join(cwd, file.path);
+
+    if (file.action === "delete") {
+      rmSync(absolutePath, { force: true });
+      removeEmptyDirectories(dirname(absolutePath), cwd);
+      logDebug("Deleted:", file.path);
+    } else if (file.action === "prune") {
+      const content = readFileSync(absolutePath, "utf-8");
+      writeFileSync(
+        absolutePath,
+        removeDeclarations(content, file.functions ?? []),
+        "utf-8"
+      );
+      logDebug("Pruned:", file.path, file.functions);
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   OUTPUT                                   */
+/* -------------------------------------------------------------------------- */
+
+function printPlan(plan: RemovalPlan, dryRun: boolean): void {
+  console.log(
+    chalk.bold(
+      `\n${dryRun ? "Would remove" : "Removing"} ${plan.components.join(", ")}`
+    )
+  );
+
+  if (plan.dependencies.length > 0) {
+    console.log(
+      chalk.gray("  Registry dependencies no other component needs: ") +
+        chalk.cyan(plan.dependencies.join(", "))
+    );
+  }
+
+  for (const file of plan.files) {
+    if (file.action === "delete") {
+      console.log(
+        chalk.red(`  - ${file.path}`) +
+          (file.modified ? chalk.yellow(" (modified locally)") : "")
+      );
+    } else if (file.action === "prune") {
+      console.log(
+        chalk.yellow(`  ~ ${file.path}`) +
+          chalk.gray(` (remove ${file.functions!.join(", ")})`)
+      );
+    } else {
+      console.log(chalk.gray(`  · ${file.path} (kept)`));
+    }
+  }
+
+  if (plan.packages.length > 0) {
+    console.log(
+      chalk.gray(`\n  Packages no other component needs: `) +
+        chalk.cyan(plan.packages.join(", "))
+    );
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 MAIN COMMAND                               */
+/* -------------------------------------------------------------------------- */
+
+export async function removeComponents(
+  components: string[],
+  options: RemoveOptions = {}
+): Promise<void> {
+  DEBUG = options.debug ?? false;
+  const cwd = resolveProjectRoot(options.cwd);
+
+  if (components.length === 0) {
+    console.log(chalk.yellow("\n⚠  No components specified"));
+    console.log(chalk.gray("  Usage: clipmotion remove <component-name>\n"));
+    return;
+  }
+
+  let lockfile: Lockfile;
+  try {
+    lockfile = readLockfile(cwd);
+  } catch (error) {
+    logError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  const notInstalled = components.filter((name) => !lockfile.components[name]);
+  if (notInstalled.length > 0) {
+    logError(`Not installed: ${notInstalled.join(", ")}`);
+    process.exit(1);
+  }
+
+  // Refuse to pull a registry dependency out from under another component
+  const removing = new Set(components);
+  for (const entry of Object.values(lockfile.components)) {
+    if (removing.has(entry.name)) continue;
+
+    const required = entry.registryDependencies.filter((dep) =>
+      removing.has(dep)
+    );
+    if (required.length > 0) {
+      logError(`${required.join(", ")} is required by ${entry.name}`);
+      console.log(
+        chalk.gray(
+          `  Remove them together: clipmotion remove ${entry.name} ${components.join(" ")}\n`
+        )
+      );
+      process.exit(1);
+    }
+  }
+
+  const dependencies = findOrphanedDependencies(components, lockfile);
+  const plan = planRemoval(components, dependencies, lockfile, cwd);
+  const removed = [...components, ...dependencies];
+  printPlan(plan, options.dryRun ?? false);
+
+  if (options.dryRun) {
+    console.log(chalk.gray("\nDry run, nothing was changed.\n"));
+    return;
+  }
+
+  if (!options.yes) {
+    const proceed = await confirm({
+      message: `Remove ${plural(removed.length, "component")}?`,
+      initialValue: false,
+    });
+
+    if (proceed !== true) {
+      console.log(chalk.gray("\nAborted.\n"));
+      return;
+    }
+  }
+
+  applyRemoval(plan, cwd);
+
+  for (const name of removed) {
+    delete lockfile.components[name];
+  }
+  writeLockfile(cwd, lockfile);
+  pruneObjects(cwd, lockfile);
+
+  console.log(
+    chalk.green(`\n✓ Removed ${plural(removed.length, "component")}`)
+  );
+
+  if (plan.packages.length === 0) {
+    console.log();
+    return;
+  }
+
+  const uninstall =
+    options.yes ||
+    (await confirm({
+      message: `Uninstall ${plan.packages.join(", ")}?`,
+      initialValue: true,
+    })) === true;
+
+  if (!uninstall) {
+    console.log();
+    return;
+  }
+
+  const spinner = ora("Uninstalling packages...").start();
+  try {
+    await uninstallDependencies(plan.packages, { cwd, verbose: DEBUG });
+    spinner.succeed(`Uninstalled ${plan.packages.join(", ")}`);
+    console.log();
+  } catch (error) {
+    spinner.fail("Failed to uninstall packages");
+    logError(
+      error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error : undefined
+    );
+    process.exit(1);
+  }
+}
@@ -0,0 +1,372 @@
+import chalk from "chalk";
+import ora from "ora";
+import { select } from "@clack/prompts";
+import { addComponent, validateFramework } from "./add.js";
+import { fetchRegistryIndexes, loadConfig } from "./find.js";
+import { resolveProjectRoot } from "../project-root.js";
+import { getRegistrySourceOptions } from "../registry-source.js";
+import type {
+  Difficulty,
+  Framework,
+  RegistryEntry,
+  SearchOptions,
+} from "./types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   CONSTANTS                                */
+/* -------------------------------------------------------------------------- */
+
+const DEFAULT_LIMIT = 10;
+
+// Where a query term lands matters: a hit in the name beats one in the prose
+const FIELD_WEIGHTS = {
+  name: 4,
+  tags: 3,
+  category: 2,
+  description: 1,
+} as const;
+
+let DEBUG = false;
+
+/* -------------------------------------------------------------------------- */
+/*                                     UTILS                                  */
+/* -------------------------------------------------------------------------- */
+
+function logDebug(...args: any[]): void {
+  if (DEBUG) {
+    console.log(chalk.gray("[DEBUG]"), ...args);
+  }
+}
+
+function logError(message: string, error?: Error): void {
+  console.error(chalk.red(`✗ ${message}`));
+  if (error && DEBUG) {
+    console.error(chalk.gray(error.stack || error.message));
+  }
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
+
+/**
+ * Characters of `term` in order inside `text`, scored by how tightly they
+ * cluster (`"cfb"` in `"chromatic-flow-background"` still matches).
+ */
+function subsequenceScore(term: string, text: string): number {
+  let start = -1;
+  let position = -1;
+
+  for (const char of term) {
+    position = text.indexOf(char, position + 1);
+    if (position === -1) return 0;
+    if (start === -1) start = position;
+  }
+
+  return term.length / (position - start + 1);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   RANKING                                  */
+/* -------------------------------------------------------------------------- */
+
+/** How well one query term matches a field, from 0 (no match) to 1 */
+function scoreTerm(term: string, field: string): number {
+  const words = tokenize(field);
+  const text = field.toLowerCase();
+
+  if (words.includes(term)) return 1;
+  if (words.some((word) => word.startsWith(term))) return 0.8;
+  if (text.includes(term)) return 0.6;
+
+  // Tolerate typos once a term is long enough to be unambiguous
+  if (term.length >= 4) {
+    const maxDistance = term.length >= 7 ? 2 : 1;
+    if (words.some((word) => editDistance(term, word) <= maxDistance)) {
+      return 0.5;
+    }
+  }
+
+  if (term.length >= 3) {
+    return subsequenceScore(term, words.join("")) * 0.4;
+  }
+
+  return 0;
+}
+
+function scoreAnimation(animation: RegistryEntry, terms: string[]): number {
+  const fields: [string, number][] = [
+    [`${animation.id} ${animation.name}`, FIELD_WEIGHTS.name],
+    [animation.tags.join(" "), FIELD_WEIGHTS.tags],
+    [animation.category ?? "", FIELD_WEIGHTS.category],
+    [animation.description ?? "", FIELD_WEIGHTS.description],
+  ];
+
+  let total = 0;
+
+  for (const term of terms) {
+    const best = Math.max(
+      ...fields.map(([field, weight]) => scoreTerm(term, field) * weight)
+    );
+
+    // Every term has to match somewhere
+    if (best === 0) return 0;
+    total += best;
+  }
+
+  return total;
+}
+
+function matchesFilters(
+  animation: RegistryEntry,
+  options: SearchOptions
+): boolean {
+  if (options.framework && !animation.libraries.includes(options.framework)) {
+    return false;
+  }
+
+  if (options.difficulty && animation.difficulty !== options.difficulty) {
+    return false;
+  }
+
+  if (
+    options.category &&
+    animation.category?.toLowerCase() !== options.category.toLowerCase()
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Ranks the animations matching `query` and the filters, best match first.
+ * An empty query lists everything that passes the filters by name.
+ */
+export function rankAnimations(
+  animations: RegistryEntry[],
+  query: string,
+  options: SearchOptions = {}
+): RegistryEntry[] {
+  const terms = tokenize(query);
+
+  const candidates = animations.filter(
+    (animation) =>
+      // Shared utilities and hooks are pulled in by components, not searched
+      (!animation.type || animation.type === "registry:component") &&
+      matchesFilters(animation, options)
+  );
+
+  if (terms.length === 0) {
+    return [...candidates].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return candidates
+    .map((animation) => ({
+      animation,
+      score: scoreAnimation(animation, terms),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort(
+      (a, b) =>
+        b.score - a.score || a.animation.name.localeCompare(b.animation.name)
+    )
+    .map(({ animation }) => animation);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   OUTPUT                                   */
+/* -------------------------------------------------------------------------- */
+
+function printResults(results: RegistryEntry[], query: string): void {
+  const label = query ? ` for "${query}"` : "";
+  console.log(
+    chalk.cyan(
+      `🔍 ${results.length} result${results.length === 1 ? "" : "s"}${label}\n`
+    )
+  );
+
+  for (const animation of results) {
+    const details = [
+      animation.difficulty,
+      animation.category,
+      animation.libraries.join(", "),
+    ].filter(Boolean);
+
+    console.log(
+      `  ${chalk.bold(animation.id)}  ${chalk.gray(details.join(" · "))}`
+    );
+    if (animation.description) {
+      console.log(chalk.gray(`    ${animation.description}`));
+    }
+  }
+
+  console.log();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 MAIN COMMAND                               */
+/* -------------------------------------------------------------------------- */
+
+export async function searchComponents(
+  query: string | undefined,
+  options: SearchOptions = {}
+): Promise<void> {
+  DEBUG = options.debug ?? false;
+  const cwd = resolveProjectRoot(options.cwd);
+  const searchQuery = (query ?? "").trim();
+
+  logDebug("Search query:", searchQuery);
+  logDebug("Filters:", {
+    framework: options.framework,
+    difficulty: options.difficulty,
+    category: options.category,
+  });
+
+  if (
+    options.difficulty &&
+    !(["easy", "medium", "hard"] as Difficulty[]).includes(options.difficulty)
+  ) {
+    console.error(chalk.red(`✗ Invalid difficulty: ${options.difficulty}`));
+    console.log(chalk.gray("  Use one of: easy, medium, hard\n"));
+    process.exit(1);
+  }
+
+  if (options.framework && !validateFramework(options.framework)) {
+    console.error(chalk.red(`✗ Invalid framework: ${options.framework}`));
+    console.log(chalk.gray("  Use one of: nextjs, react, vue, angular\n"));
+    process.exit(1);
+  }
+
+  const limit = Number(options.limit ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(limit) || limit <= 0) {
+    console.error(chalk.red(`✗ Invalid limit: ${options.limit}`));
+    process.exit(1);
+  }
+
+  const spinner = ora("Fetching registry...").start();
+
+  try {
+    const config = loadConfig(cwd);
+    const framework: Framework | null = config?.framework || null;
+
+    const registry = await fetchRegistryIndexes(
+      config,
+      getRegistrySourceOptions(options, cwd)
+    );
+
+    spinner.stop();
+
+    if (!registry || !Array.isArray(registry.animations)) {
+      logDebug("Registry missing animations array:", registry);
+      console.log(chalk.yellow("⚠  No animations found in registry\n"));
+      return;
+    }
+
+    const results = rankAnimations(registry.animations, searchQuery, options);
+
+    if (results.length === 0) {
+      console.log(chalk.yellow("⚠  No animations match your search\n"));
+      console.log(
+        chalk.gray("  Tip: try fewer words or drop a --framework filter\n")
+      );
+      return;
+    }
+
+    const shown = results.slice(0, limit);
+    printResults(shown, searchQuery);
+
+    if (results.length > shown.length) {
+      console.log(
+        chalk.gray(
+          `  …and ${results.length - shown.length} more, use --limit to see them\n`
+        )
+      );
+    }
+
+    if (options.interactive === false) {
+      return;
+    }
+
+    const choice = await select({
+      message: "Install one of these?",
+      options: [
+        ...shown.map((animation) => ({
+          value: animation.id,
+          label: animation.name,
+          hint: animation.libraries.join(", "),
+        })),
+        { value: "", label: "Exit" },
+      ],
+    });
+
+    if (typeof choice !== "string" || !choice) {
+      console.log(chalk.gray("\nExiting...\n"));
+      return;
+    }
+
+    const animation = shown.find((entry) => entry.id === choice)!;
+
+    if (!framework) {
+      console.log(chalk.yellow("\n⚠  Project not initialized"));
+      console.log(chalk.gray("  Run: clipmotion init\n"));
+      return;
+    }
+
+    if (!animation.libraries.includes(framework)) {
+      console.error(
+        chalk.red(
+          `\n✗ Cannot install: Component not available for ${framework}`
+        )
+      );
+      console.error(
+        chalk.gray(
+          `  Available frameworks: ${animation.libraries.join(", ")}\n`
+        )
+      );
+      return;
+    }
+
+    console.log();
+    await addComponent([animation.id], {
+      cwd,
+      silent: false,
+      overwrite: options.overwrite ?? false,
+      local: options.local ?? false,
+      offline: options.offline ?? false,
+      debug: DEBUG,
+    });
+  } catch (error) {
+    spinner.stop();
+    console.error(chalk.red("✖ Failed to search the registry"));
+    logError("Search error", error as Error);
+    console.log(
+      chalk.gray(
+        "  Tip: run again with --debug to see more details, e.g. `clipmotion search <query> --debug`\n"
+      )
+    );
+    process.exit(1);
+  }
+}
@@ -1,4 +1,6 @@
 import type { Ora } from "ora";
+import type { ShortLinkResolver } from "../short-links.js";
+import type { Transaction } from "../transaction.js";
 
 /* ------------------------- Shared primitives ------------------------- */
 
@@ -13,6 +15,12 @@ export type ComponentType =
   | "registry:lib"
   | "registry:hook";
 
+/** What a file of a registry item is, which decides the alias it goes to */
+export type RegistryFileType =
+  | ComponentType
+  | "registry:style"
+  | "registry:asset";
+
 export interface ContributorInfo {
   name?: string;
   github?: string;
@@ -25,12 +33,21 @@ export interface ContributorInfo {
 export interface BaseAliases {
   components: string;
   utils: string;
+  /** Hooks of multi-file items, next to the components when unset */
+  hooks?: string;
+  /** Stylesheets of multi-file items, next to the components when unset */
+  styles?: string;
+  /** Shaders, SVGs and other assets, next to the components when unset */
+  assets?: string;
 }
 
 export interface BaseRegistryConfig {
   baseUrl?: string;
 }
 
+/** Named registries, `default` serves names without a `@namespace/` */
+export type RegistriesConfig = Record<string, BaseRegistryConfig>;
+
 export interface TailwindConfig {
   config: string;
   css: string;
@@ -43,7 +60,7 @@ export interface ComponentConfig {
   style?: string;
   framework: Framework;
   aliases: BaseAliases;
-  registry?: BaseRegistryConfig;
+  registry?: BaseRegistryConfig | RegistriesConfig;
   tailwind?: TailwindConfig;
 }
 
@@ -62,6 +79,16 @@ export interface InitConfig {
 export interface RegistryFile {
   name: string;
   content: string;
+  type?: RegistryFileType;
+}
+
+/** A prop of a component, as documented in its manifest */
+export interface PropDoc {
+  name: string;
+  type: string;
+  description?: string;
+  default?: string;
+  required?: boolean;
 }
 
 export interface RegistryItem {
@@ -72,10 +99,19 @@ export interface RegistryItem {
   dependencies: string[];
   devDependencies?: string[];
   registryDependencies: string[];
+  /** Packages the project provides itself, never installed by `add` */
+  peerDependencies?: string[];
   meta?: {
-    source?: string;
+    /** Origin video URL(s) the animation was recreated from */
+    sources?: string[];
+    /** Registry source file the item was built from */
+    filePath?: string;
     category?: string;
+    difficulty?: Difficulty;
+    tags?: string[];
+    demoUrl?: string;
     contributor?: ContributorInfo;
+    props?: PropDoc[];
   };
 }
 
@@ -84,6 +120,15 @@ export interface BuildStats {
   utilities: number;
   frameworks: number;
   errors: number;
+  /** Items skipped because their sources didn't change */
+  unchanged: number;
+  /** Outputs deleted because their sources are gone */
+  removed: number;
+}
+
+export interface RegistryBuildOptions {
+  /** Keep running and rebuild whenever a registry source changes */
+  watch?: boolean;
 }
 
 /* --------------------------- Init command ----------------------------- */
@@ -113,19 +158,69 @@ export interface AddOptions {
   srcDir?: boolean;
   cssVariables?: boolean;
   local?: boolean;
+  /** Only read cached registry files, never the network */
+  offline?: boolean;
+  /** Revalidate cached registry files with the server */
+  refresh?: boolean;
   framework?: string;
+  /** Resolve everything and print the planned changes without writing */
+  dryRun?: boolean;
 }
 
 export interface InstallContext {
+  /** Resolved project root, see `resolveProjectRoot` */
+  cwd: string;
   installed: Set<string>;
+  /** Names given to `add`, recorded as direct installs */
+  requested: Set<string>;
   config: ComponentConfig;
   framework: Framework;
   options: AddOptions;
   spinner: Ora | null;
+  /** Install records for `clipmotion-lock.json`, filled as items install */
+  lockfile?: Lockfile;
+  /** Packages in package.json before this run, to tell added deps apart */
+  existingPackages?: Set<string>;
+  /** Collects planned changes instead of applying them (`--dry-run`) */
+  preview?: InstallPreview;
+  /** Packages every item in the run declared, installed in one batch */
+  packages: PackageSpecs;
+  /** Staged file writes, applied once every item has resolved */
+  transaction: Transaction;
+}
+
+export interface PackageSpecs {
+  dependencies: string[];
+  devDependencies: string[];
 }
 
 export type MergeResult = "created" | "merged" | "skipped";
 
+/** Where `add` puts one registry file, and what it writes there */
+export interface PlannedFile {
+  name: string;
+  targetPath: string;
+  content: string;
+  /** Shared utils files are merged function by function, never replaced */
+  utils: boolean;
+}
+
+/** A file write `add --dry-run` would make */
+export interface PreviewFile {
+  component: string;
+  /** Project-relative path with forward slashes */
+  path: string;
+  action: LockfileFileAction;
+  /** Unified diff of a merge into an existing file */
+  diff?: string;
+  /** Utils exports that differ from the registry and would be kept */
+  conflicts?: string[];
+}
+
+export interface InstallPreview {
+  files: PreviewFile[];
+}
+
 export interface RegistryComponent {
   name: string;
   type: string;
@@ -133,9 +228,11 @@ export interface RegistryComponent {
   dependencies?: string[];
   devDependencies?: string[];
   registryDependencies?: string[];
+  peerDependencies?: string[];
   meta?: {
     description?: string;
-    source?: string;
+    sources?: string[];
+    filePath?: string;
     contributor?: ContributorInfo;
   };
 }
@@ -165,28 +262,249 @@ export interface FindOptions {
   overwrite?: boolean;
   cwd?: string;
   local?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
+  /** Follow share-link redirects over the network (`--no-resolve` disables) */
+  resolve?: boolean;
+  /** Custom share-link resolver, defaults to following HTTP redirects */
+  resolver?: ShortLinkResolver;
+}
+
+/** What one framework ships for an animation */
+export interface FrameworkSummary {
+  files: string[];
+  dependencies: string[];
+  devDependencies: string[];
+  /** Framework packages the project provides, see `RegistryItem` */
+  peerDependencies?: string[];
+  registryDependencies: string[];
 }
 
 export interface RegistryEntry {
   id: string;
   name: string;
   description: string;
+  type?: ComponentType;
+  category?: string;
   sources: string[];
+  /** Canonical `platform:id` keys of `sources`, see `video-identity.ts` */
+  videoKeys?: string[];
   tags: string[];
   difficulty: Difficulty;
+  /** Every framework that ships this animation */
   libraries: Framework[];
+  /** Per-framework files and dependencies, keyed like `libraries` */
+  frameworks?: Partial<Record<Framework, FrameworkSummary>>;
   demoUrl?: string;
+  /** Union of the dependencies of every framework */
   dependencies?: string[];
+  contributor?: ContributorInfo;
 }
 
 export interface RegistryIndex {
   animations: RegistryEntry[];
+  /** Share-link video keys mapped to canonical ones, for offline lookups */
+  aliases?: Record<string, string>;
   version: string;
   lastUpdated: string;
 }
 
+/* ------------------------------ Lockfile ----------------------------- */
+
+/** What `add` did with a file, `skipped` files were already present */
+export type LockfileFileAction =
+  | "created"
+  | "overwritten"
+  | "merged"
+  | "skipped";
+
+export interface LockfileFile {
+  /** Project-relative path with forward slashes */
+  path: string;
+  /** `sha256-<hex>` of the file on disk right after install */
+  hash: string;
+  /**
+   * `sha256-<hex>` of the content the registry shipped, stored under
+   * `.clipmotion/objects` as the merge base for `update`
+   */
+  registryHash: string;
+  action: LockfileFileAction;
+  /** Functions appended to a shared utils file */
+  exports?: string[];
+}
+
+export interface LockfileEntry {
+  name: string;
+  framework: Framework;
+  /** Registry base URL, or `local` for the bundled development registry */
+  registry: string;
+  type: string;
+  files: LockfileFile[];
+  dependencies: string[];
+  devDependencies: string[];
+  /** Packages this install added to package.json (not there before) */
+  addedDependencies: string[];
+  registryDependencies: string[];
+  /**
+   * False when only installed as another component's registry dependency,
+   * so `remove` may take it once nothing needs it. Missing counts as direct.
+   */
+  direct?: boolean;
+  installedAt: string;
+  /** Set by `update` when registry changes were applied */
+  updatedAt?: string;
+}
+
+export interface Lockfile {
+  version: number;
+  components: Record<string, LockfileEntry>;
+}
+
+/* ---------------------------- Diff command --------------------------- */
+
+export interface DiffOptions {
+  debug?: boolean;
+  local?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
+  cwd?: string;
+  json?: boolean;
+  framework?: string;
+}
+
+export type FileDriftStatus = "unchanged" | "modified" | "missing";
+
+export interface FileDrift {
+  /** Project-relative path with forward slashes */
+  path: string;
+  status: FileDriftStatus;
+  /** Unified diff from the registry version to the local file */
+  diff?: string;
+}
+
+export interface ComponentDrift {
+  name: string;
+  framework: Framework;
+  files: FileDrift[];
+  /** Set when the registry item could not be fetched */
+  error?: string;
+}
+
+/* --------------------------- Update command -------------------------- */
+
+export interface UpdateOptions {
+  debug?: boolean;
+  local?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
+  cwd?: string;
+}
+
+/**
+ * `updated` took the registry version as-is, `merged` combined it with local
+ * edits, `conflicted` left conflict markers, `skipped` kept a locally
+ * modified file that has no merge base
+ */
+export type UpdateStatus =
+  | "updated"
+  | "merged"
+  | "conflicted"
+  | "unchanged"
+  | "skipped";
+
+export interface FileUpdate {
+  /** Project-relative path with forward slashes */
+  path: string;
+  status: UpdateStatus;
+  /** Number of conflict blocks written into the file */
+  conflicts?: number;
+}
+
+export interface ComponentUpdate {
+  name: string;
+  framework: Framework;
+  files: FileUpdate[];
+  /** Registry items the new version needs that aren't installed yet */
+  newRegistryDependencies?: string[];
+  /** Set when the registry item could not be fetched */
+  error?: string;
+}
+
+/* --------------------------- Remove command -------------------------- */
+
+export interface RemoveOptions {
+  debug?: boolean;
+  cwd?: string;
+  /** Skip confirmation prompts, including the package uninstall */
+  yes?: boolean;
+  /** Print what would be removed without changing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * `delete` removes the file, `prune` drops functions from a shared utils
+ * file, `keep` leaves a file that was there before `add`
+ */
+export type FileRemovalAction = "delete" | "prune" | "keep";
+
+export interface FileRemoval {
+  /** Project-relative path with forward slashes */
+  path: string;
+  action: FileRemovalAction;
+  /** Functions pruned from a shared utils file */
+  functions?: string[];
+  /** The file changed since install, so local edits are lost */
+  modified?: boolean;
+}
+
+export interface RemovalPlan {
+  components: string[];
+  /** Registry dependencies installed for `components` that nothing else needs */
+  dependencies: string[];
+  files: FileRemoval[];
+  /** Packages added by these components that nothing else declares */
+  packages: string[];
+}
+
+/* --------------------------- Search command -------------------------- */
+
+export interface SearchOptions {
+  debug?: boolean;
+  local?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
+  cwd?: string;
+  framework?: Framework;
+  difficulty?: Difficulty;
+  category?: string;
+  /** Maximum number of results to show */
+  limit?: string | number;
+  /** Offer to install a result (`--no-interactive` only prints them) */
+  interactive?: boolean;
+  overwrite?: boolean;
+}
+
+/* ---------------------------- List command --------------------------- */
+
+export type ListGroupBy = "category" | "framework";
+
+export interface ListOptions {
+  debug?: boolean;
+  local?: boolean;
+  offline?: boolean;
+  refresh?: boolean;
+  cwd?: string;
+  json?: boolean;
+  tree?: boolean;
+  groupBy?: ListGroupBy;
+  framework?: Framework;
+  /** Only show components recorded in the project's lockfile */
+  installed?: boolean;
+}
+
 /* --------------------------- Credits command ------------------------- */
 
 export interface CreditOptions {
   local?: boolean;
+  cwd?: string;
 }
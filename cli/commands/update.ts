@@ -0,0 +1,487 @@
+import chalk from "chalk";
+import ora from "ora";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import {
+  fetchComponent,
+  loadConfig,
+  planComponentFiles,
+  readPackageNames,
+} from "./add.js";
+import { resolveLocalPath } from "./diff.js";
+import {
+  findLockedFile,
+  hashContent,
+  readLockfile,
+  readObject,
+  toLockfilePath,
+  writeLockfile,
+  writeObject,
+} from "../lockfile.js";
+import { getPackageName, installDependencies } from "../package-manager.js";
+import { mergeThreeWay, type ThreeWayMergeOptions } from "../text-diff.js";
+import {
+  getDeclarationCode,
+  getDeclarationNames,
+  mergeUtilsContent,
+} from "../utils-merge.js";
+import { resolveProjectRoot } from "../project-root.js";
+import {
+  formatComponentName,
+  getRegistrySourceOptions,
+  parseComponentName,
+  resolveComponentSource,
+} from "../registry-source.js";
+import type {
+  ComponentConfig,
+  ComponentUpdate,
+  FileUpdate,
+  Lockfile,
+  LockfileFile,
+  RegistryComponent,
+  UpdateOptions,
+  UpdateStatus,
+} from "./types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   CONSTANTS                                */
+/* -------------------------------------------------------------------------- */
+
+let DEBUG = false;
+
+/* -------------------------------------------------------------------------- */
+/*                                     UTILS                                  */
+/* -------------------------------------------------------------------------- */
+
+function logDebug(...args: any[]): void {
+  if (DEBUG) {
+    console.log(chalk.gray("[DEBUG]"), ...args);
+  }
+}
+
+function logError(message: string, error?: Error): void {
+  console.error(chalk.red(`✗ ${message}`));
+  if (error && DEBUG) {
+    console.error(chalk.gray(error.stack || error.message));
+  }
+}
+
+function plural(count: number, word: string): string {
+  return `${count} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   MERGING                                  */
+/* -------------------------------------------------------------------------- */
+
+interface MergeOutcome {
+  status: UpdateStatus;
+  content: string;
+  conflicts: number;
+}
+
+/**
+ * Brings `local` up to `upstream`, using `base` (what was installed) to tell
+ * local edits from registry changes.
+ */
+function mergeContent(
+  base: string | null,
+  local: string,
+  upstream: string,
+  labels: ThreeWayMergeOptions
+): MergeOutcome {
+  if (local === upstream || base === upstream) {
+    return { status: "unchanged", content: local, conflicts: 0 };
+  }
+
+  if (base === null) {
+    return { status: "skipped", content: local, conflicts: 0 };
+  }
+
+  if (local === base) {
+    return { status: "updated", content: upstream, conflicts: 0 };
+  }
+
+  const merged = mergeThreeWay(base, local, upstream, labels);
+  return {
+    status: merged.conflicts > 0 ? "conflicted" : "merged",
+    content: merged.text,
+    conflicts: merged.conflicts,
+  };
+}
+
+/**
+ * Utils files are shared with other items and the project's own helpers, so
+ * they are merged one declaration at a time. Declarations new upstream are
+ * added like `add` does, with the imports they need.
+ */
+function mergeUtilsDeclarations(
+  base: string | null,
+  local: string,
+  upstream: string,
+  labels: ThreeWayMergeOptions
+): MergeOutcome & { added: string[] } {
+  let content = local;
+  let conflicts = 0;
+  const statuses = new Set<UpdateStatus>();
+
+  for (const name of getDeclarationNames(upstream)) {
+    const upstreamCode = getDeclarationCode(upstream, name)?.trim();
+    const localCode = getDeclarationCode(content, name)?.trim();
+    if (!upstreamCode || !localCode) continue;
+
+    const baseCode = base
+      ? (getDeclarationCode(base, name)?.trim() ?? null)
+      : null;
+    const outcome = mergeContent(baseCode, localCode, upstreamCode, labels);
+    logDebug(`Utils declaration ${name}:`, outcome.status);
+
+    statuses.add(outcome.status);
+    if (outcome.status === "unchanged" || outcome.status === "skipped") {
+      continue;
+    }
+
+    content = content.replace(localCode, () => outcome.content.trimEnd());
+    conflicts += outcome.conflicts;
+  }
+
+  const merged = mergeUtilsContent(content, upstream);
+  if (merged.content !== content) {
+    statuses.add("updated");
+  }
+
+  const order: UpdateStatus[] = ["conflicted", "merged", "updated", "skipped"];
+  return {
+    status: order.find((status) => statuses.has(status)) ?? "unchanged",
+    content: merged.content,
+    conflicts,
+    added: merged.added,
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   UPDATING                                 */
+/* -------------------------------------------------------------------------- */
+
+async function updateComponent(
+  name: string,
+  config: ComponentConfig,
+  lockfile: Lockfile,
+  options: UpdateOptions
+): Promise<ComponentUpdate> {
+  const cwd = options.cwd ?? process.cwd();
+  const entry = lockfile.components[name]!;
+  const { framework } = entry;
+  const local = options.local ?? entry.registry === "local";
+
+  logDebug(`Updating ${name} (${framework})`);
+
+  let component: RegistryComponent;
+  try {
+    // Against the registry as it is now, never a copy cached by `add`
+    const { source, name: itemName } = resolveComponentSource(config, name, {
+      ...getRegistrySourceOptions(options, cwd),
+      refresh: !options.offline,
+      local,
+    });
+    component = await fetchComponent(itemName, framework, source);
+  } catch (error) {
+    return {
+      name,
+      framework,
+      files: [],
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  const files: FileUpdate[] = [];
+  const records = new Map(
+    entry.files.map((file): [string, LockfileFile] => [file.path, file])
+  );
+
+  for (const file of planComponentFiles(component, config, { cwd })) {
+    const localPath = resolveLocalPath(file, entry, cwd);
+    const path = toLockfilePath(cwd, localPath);
+    const locked = findLockedFile(entry, file.name);
+    const labels = {
+      localLabel: path,
+      upstreamLabel: `registry/${framework}/${file.name}`,
+    };
+
+    let outcome: MergeOutcome & { added?: string[] };
+    let localContent: string | null = null;
+
+    if (existsSync(localPath)) {
+      localContent = readFileSync(localPath, "utf-8");
+      // Files `add` skipped have no snapshot and are treated as unmerged
+      const base = locked ? readObject(cwd, locked.registryHash) : null;
+
+      outcome = file.utils
+        ? mergeUtilsDeclarations(base, localContent, file.content, labels)
+        : mergeContent(base, localContent, file.content, labels);
+    } else {
+      outcome = { status: "updated", content: file.content, conflicts: 0 };
+    }
+
+    files.push({
+      path,
+      status: outcome.status,
+      ...(outcome.conflicts > 0 && { conflicts: outcome.conflicts }),
+    });
+
+    if (outcome.content !== localContent) {
+      mkdirSync(dirname(localPath), { recursive: true });
+      writeFileSync(localPath, outcome.content, "utf-8");
+      logDebug(`Wrote ${path} (${outcome.status})`);
+    }
+
+    // Keep the old base for files left alone, unless upstream moved on
+    const registryHash = hashContent(file.content);
+    if (
+      locked &&
+      (outcome.status === "skipped" ||
+        (outcome.status === "unchanged" &&
+          locked.registryHash === registryHash))
+    ) {
+      continue;
+    }
+
+    // The new registry content is the base for the next update
+    writeObject(cwd, file.content);
+    const exports = [
+      ...new Set([...(locked?.exports ?? []), ...(outcome.added ?? [])]),
+    ];
+
+    records.set(path, {
+      path,
+      hash: hashContent(readFileSync(localPath)),
+      registryHash,
+      action: locked?.action ?? "created",
+      ...(exports.length > 0 && { exports }),
+    });
+  }
+
+  // Install packages the new version needs that the project doesn't have
+  const existing = readPackageNames(cwd);
+  const missing = (deps: string[] = []) =>
+    deps.filter((dep) => !existing.has(getPackageName(dep)));
+  const newDependencies = missing(component.dependencies);
+  const newDevDependencies = missing(component.devDependencies);
+
+  await installDependencies(newDependencies, { cwd, verbose: DEBUG });
+  await installDependencies(newDevDependencies, {
+    cwd,
+    dev: true,
+    verbose: DEBUG,
+  });
+
+  const changed = files.some(
+    (file) => file.status !== "unchanged" && file.status !== "skipped"
+  );
+
+  // Bare names of a namespaced item mean its registry's copy, as in `add`
+  const { namespace } = parseComponentName(name);
+  const registryDependencies = (component.registryDependencies ?? []).map(
+    (dep) => {
+      const scoped =
+        namespace && !/^@[^/]+\//.test(dep)
+          ? formatComponentName(namespace, dep)
+          : dep;
+      return lockfile.components[scoped] ? scoped : dep;
+    }
+  );
+
+  lockfile.components[name] = {
+    ...entry,
+    type: component.type,
+    files: [...records.values()],
+    dependencies: component.dependencies ?? [],
+    devDependencies: component.devDependencies ?? [],
+    addedDependencies: [
+      ...new Set([
+        ...entry.addedDependencies,
+        ...[...newDependencies, ...newDevDependencies].map(getPackageName),
+      ]),
+    ],
+    registryDependencies,
+    ...(changed && { updatedAt: new Date().toISOString() }),
+  };
+
+  const newRegistryDependencies = registryDependencies.filter(
+    (dep) => !lockfile.components[dep]
+  );
+
+  return {
+    name,
+    framework,
+    files,
+    ...(newRegistryDependencies.length > 0 && { newRegistryDependencies }),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   OUTPUT                                   */
+/* -------------------------------------------------------------------------- */
+
+function formatFileUpdate(file: FileUpdate): string {
+  switch (file.status) {
+    case "updated":
+      return chalk.green(`  ✓ ${file.path} (updated)`);
+    case "merged":
+      return chalk.blue(`  ✓ ${file.path} (merged with local changes)`);
+    case "conflicted":
+      return chalk.red(
+        `  ✗ ${file.path} (${plural(file.conflicts ?? 0, "conflict")})`
+      );
+    case "skipped":
+      return chalk.yellow(
+        `  ⚠ ${file.path} (modified locally, no merge base — kept as is)`
+      );
+    default:
+      return chalk.gray(`  · ${file.path} (unchanged)`);
+  }
+}
+
+function printSummary(results: ComponentUpdate[]): void {
+  for (const result of results) {
+    console.log(
+      chalk.bold(`\n${result.name}`) + chalk.gray(` (${result.framework})`)
+    );
+
+    if (result.error) {
+      console.log(chalk.red(`  ✗ ${result.error}`));
+      continue;
+    }
+
+    result.files.forEach((file) => console.log(formatFileUpdate(file)));
+  }
+
+  const files = results.flatMap((result) => result.files);
+  const count = (status: UpdateStatus) =>
+    files.filter((file) => file.status === status).length;
+
+  const parts = [
+    chalk.green(`${count("updated")} updated`),
+    chalk.blue(`${count("merged")} merged`),
+    chalk.red(`${count("conflicted")} conflicted`),
+    chalk.gray(`${count("unchanged")} unchanged`),
+  ];
+  if (count("skipped") > 0) {
+    parts.push(chalk.yellow(`${count("skipped")} skipped`));
+  }
+
+  console.log(`\n${parts.join(chalk.gray(" · "))}`);
+
+  const failed = results.filter((result) => result.error);
+  if (failed.length > 0) {
+    console.log(
+      chalk.red.bold(
+        `✗ ${plural(failed.length, "component")} could not be updated`
+      )
+    );
+  }
+
+  if (count("conflicted") > 0) {
+    console.log(
+      chalk.yellow("\n⚠ Resolve the conflict markers in the files above")
+    );
+    console.log(chalk.gray("  Review the result with: clipmotion diff"));
+  }
+
+  if (count("skipped") > 0) {
+    console.log(
+      chalk.gray(
+        "\n  Skipped files were already there before install, use `clipmotion add --overwrite` to replace them"
+      )
+    );
+  }
+
+  const newDependencies = [
+    ...new Set(
+      results.flatMap((result) => result.newRegistryDependencies ?? [])
+    ),
+  ];
+  if (newDependencies.length > 0) {
+    console.log(chalk.yellow("\n⚠ New registry dependencies:"));
+    console.log(
+      chalk.gray(`  Install with: clipmotion add ${newDependencies.join(" ")}`)
+    );
+  }
+
+  console.log();
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 MAIN COMMAND                               */
+/* -------------------------------------------------------------------------- */
+
+export async function updateComponents(
+  components: string[],
+  options: UpdateOptions = {}
+): Promise<void> {
+  DEBUG = options.debug ?? false;
+  const cwd = resolveProjectRoot(options.cwd);
+
+  const config = loadConfig(cwd);
+
+  let lockfile: Lockfile;
+  try {
+    lockfile = readLockfile(cwd);
+  } catch (error) {
+    logError(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
+
+  // Without names, update everything the lockfile says was installed
+  const names = components.length
+    ? components
+    : Object.keys(lockfile.components);
+
+  if (names.length === 0) {
+    console.log(chalk.yellow("\n⚠  No installed components to update"));
+    console.log(chalk.gray("  Usage: clipmotion update <component-name>\n"));
+    return;
+  }
+
+  // Merging needs the install record, so only locked components qualify
+  const notInstalled = names.filter((name) => !lockfile.components[name]);
+  if (notInstalled.length > 0) {
+    logError(`Not installed: ${notInstalled.join(", ")}`);
+    console.log(
+      chalk.gray(`  Install with: clipmotion add ${notInstalled.join(" ")}\n`)
+    );
+    process.exit(1);
+  }
+
+  const spinner = ora("Updating components...").start();
+
+  const results: ComponentUpdate[] = [];
+  try {
+    for (const name of names) {
+      spinner.text = `Updating ${chalk.cyan(name)}...`;
+      results.push(
+        await updateComponent(name, config, lockfile, { ...options, cwd })
+      );
+    }
+  } catch (error) {
+    spinner.fail("Update failed");
+    logError(
+      error instanceof Error ? error.message : String(error),
+      error instanceof Error ? error : undefined
+    );
+    writeLockfile(cwd, lockfile);
+    process.exit(1);
+  }
+
+  spinner.stop();
+  writeLockfile(cwd, lockfile);
+  printSummary(results);
+
+  const conflicted = results.some(
+    (result) =>
+      result.error || result.files.some((file) => file.status === "conflicted")
+  );
+  if (conflicted) {
+    process.exit(1);
+  }
+}
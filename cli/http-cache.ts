@@ -0,0 +1,151 @@
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { getUserCacheDir } from "./user-cache.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `default` serves fresh entries and revalidates stale ones, `refresh`
+ * revalidates everything, `offline` never touches the network
+ */
+export type CacheMode = "default" | "refresh" | "offline";
+
+export interface CachedFetchOptions {
+  /** Sent with every request, only their hash is stored, as part of the key */
+  headers?: Record<string, string>;
+  /** How long an entry is served without asking the server */
+  ttl: number;
+  mode?: CacheMode;
+}
+
+interface CacheEntry {
+  url: string;
+  etag?: string;
+  /** When the server last confirmed the body, ms since epoch */
+  fetchedAt: number;
+  body: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+const NOT_MODIFIED = 304;
+
+/* -------------------------------------------------------------------------- */
+/*                                  STORAGE                                   */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * `CLIPMOTION_NO_CACHE` turns the cache off, every request goes to the
+ * server as if it had never been made before.
+ */
+export function isHttpCacheEnabled(): boolean {
+  return !process.env.CLIPMOTION_NO_CACHE;
+}
+
+/**
+ * Entry of `url` as fetched with `headers`. Credentials are part of the key,
+ * so what one token may read is never served to another, or to no token.
+ */
+export function getHttpCachePath(
+  url: string,
+  headers: Record<string, string> = {}
+): string {
+  const identity = Object.entries(headers)
+    .map(([name, value]) => [name.toLowerCase(), value])
+    .sort(([a = ""], [b = ""]) => a.localeCompare(b));
+  const key = createHash("sha256")
+    .update(identity.length > 0 ? `${url}\0${JSON.stringify(identity)}` : url)
+    .digest("hex");
+  return join(getUserCacheDir(), "http", `${key}.json`);
+}
+
+function readEntry(path: string): CacheEntry | null {
+  if (!existsSync(path)) return null;
+
+  try {
+    const entry = JSON.parse(readFileSync(path, "utf-8"));
+    return typeof entry?.body === "string" ? (entry as CacheEntry) : null;
+  } catch {
+    // A corrupt entry is only a missed request saved
+    return null;
+  }
+}
+
+function writeEntry(path: string, entry: CacheEntry): void {
+  try {
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, JSON.stringify(entry), "utf-8");
+  } catch {
+    // Read-only home directories (sandboxed CI) must not break fetches
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   FETCH                                    */
+/* -------------------------------------------------------------------------- */
+
+function fromCache(entry: CacheEntry): Response {
+  return new Response(entry.body, { status: 200 });
+}
+
+/**
+ * GETs `url` through the on-disk cache. Stale entries are revalidated with
+ * `If-None-Match`, and served as-is when the server can't be reached.
+ * Error responses are passed through and never stored.
+ */
+export async function cachedFetch(
+  url: string,
+  options: CachedFetchOptions
+): Promise<Response> {
+  const { headers = {}, ttl, mode = "default" } = options;
+  const path = getHttpCachePath(url, headers);
+  const cached = readEntry(path);
+
+  if (mode === "offline") {
+    if (cached) return fromCache(cached);
+    throw new Error(`${url} is not cached yet, run once without --offline`);
+  }
+
+  if (cached && mode === "default" && Date.now() - cached.fetchedAt < ttl) {
+    return fromCache(cached);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(url, {
+      headers: {
+        ...headers,
+        ...(cached?.etag && { "If-None-Match": cached.etag }),
+      },
+    });
+  } catch (error) {
+    if (cached) return fromCache(cached);
+    throw error;
+  }
+
+  if (cached && res.status === NOT_MODIFIED) {
+    writeEntry(path, { ...cached, fetchedAt: Date.now() });
+    return fromCache(cached);
+  }
+
+  if (!res.ok) {
+    // A registry having a bad day shouldn't hide what we already have
+    return cached && res.status >= 500 ? fromCache(cached) : res;
+  }
+
+  const body = await res.text();
+  const etag = res.headers.get("etag");
+  writeEntry(path, {
+    url,
+    ...(etag && { etag }),
+    fetchedAt: Date.now(),
+    body,
+  });
+
+  return new Response(body, { status: res.status });
+}
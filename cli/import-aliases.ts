@@ -0,0 +1,376 @@
+import ts from "typescript";
+import { existsSync, readFileSync } from "fs";
+import {
+  dirname,
+  extname,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+  sep,
+} from "path";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+/** One import alias of the project, like `@/*` → `./src/*` */
+export interface PathAlias {
+  /** `@/` for `@/*`, or the whole specifier of an exact alias */
+  prefix: string;
+  /** Absolute directory (wildcard) or module path without extension (exact) */
+  target: string;
+  wildcard: boolean;
+}
+
+/** Where registry imports point in the project, as absolute directories */
+export interface ImportTargets {
+  components: string;
+  /** Directory of the shared utils module */
+  utils: string;
+  hooks: string;
+  styles: string;
+  assets: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+const TSCONFIG_FILES = ["tsconfig.json", "jsconfig.json"];
+
+const VITE_CONFIG_FILES = [
+  "vite.config.ts",
+  "vite.config.mts",
+  "vite.config.js",
+  "vite.config.mjs",
+  "vite.config.cts",
+  "vite.config.cjs",
+];
+
+/**
+ * Module specifiers in registry files that stand for project paths:
+ * `@/components/utils` (and the older `@/lib/utils`) is the utils module,
+ * `@/components/<name>` another component, `@/hooks/…`, `@/styles/…` and
+ * `@/assets/…` files of the item. registry:build writes them.
+ */
+const REGISTRY_IMPORT =
+  /(\bfrom\s*|\bimport\s*\(\s*|\bimport\s+)(["'])(@\/(?:components|lib|hooks|styles|assets)\/[^"']+)\2/g;
+
+/* -------------------------------------------------------------------------- */
+/*                                  TSCONFIG                                  */
+/* -------------------------------------------------------------------------- */
+
+// Only compiler options are needed, never the project's file list
+const parseConfigHost: ts.ParseConfigHost = {
+  useCaseSensitiveFileNames: ts.sys.useCaseSensitiveFileNames,
+  readDirectory: () => [],
+  fileExists: ts.sys.fileExists,
+  readFile: ts.sys.readFile,
+};
+
+function parseTsconfig(configPath: string): ts.ParsedCommandLine | null {
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error || !config) return null;
+
+  return ts.parseJsonConfigFileContent(
+    config,
+    parseConfigHost,
+    dirname(configPath),
+    undefined,
+    configPath
+  );
+}
+
+function toTsconfigAliases(
+  parsed: ts.ParsedCommandLine,
+  configDir: string
+): PathAlias[] {
+  const { paths, baseUrl } = parsed.options;
+  if (!paths) return [];
+
+  // Relative to the config that declared `paths`, maybe an `extends` base
+  const base =
+    baseUrl ??
+    (parsed.options as { pathsBasePath?: string }).pathsBasePath ??
+    configDir;
+
+  const aliases: PathAlias[] = [];
+  for (const [pattern, targets] of Object.entries(paths)) {
+    const target = targets[0];
+    if (!target) continue;
+
+    if (pattern.endsWith("*") && target.endsWith("*")) {
+      aliases.push({
+        prefix: pattern.slice(0, -1),
+        target: resolve(base, target.slice(0, -1)),
+        wildcard: true,
+      });
+    } else if (!pattern.includes("*") && !target.includes("*")) {
+      aliases.push({
+        prefix: pattern,
+        target: stripModuleExtension(resolve(base, target)),
+        wildcard: false,
+      });
+    }
+  }
+  return aliases;
+}
+
+/**
+ * `paths` from tsconfig.json or jsconfig.json, following `extends`. Vite
+ * templates keep them in a referenced config like tsconfig.app.json.
+ */
+export function readTsconfigAliases(cwd: string): PathAlias[] {
+  const configPath = TSCONFIG_FILES.map((name) => join(cwd, name)).find(
+    existsSync
+  );
+  if (!configPath) return [];
+
+  const parsed = parseTsconfig(configPath);
+  if (!parsed) return [];
+
+  const aliases = toTsconfigAliases(parsed, cwd);
+  if (aliases.length > 0) return aliases;
+
+  for (const reference of parsed.projectReferences ?? []) {
+    const referencePath = ts.resolveProjectReferencePath(reference);
+    const referenced = existsSync(referencePath)
+      ? parseTsconfig(referencePath)
+      : null;
+    const referencedAliases = referenced
+      ? toTsconfigAliases(referenced, dirname(referencePath))
+      : [];
+    if (referencedAliases.length > 0) return referencedAliases;
+  }
+
+  return [];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                    VITE                                    */
+/* -------------------------------------------------------------------------- */
+
+function getPropertyName(name: ts.PropertyName): string | null {
+  return ts.isIdentifier(name) || ts.isStringLiteralLike(name)
+    ? name.text
+    : null;
+}
+
+/**
+ * Evaluates the path expressions aliases are usually written with: string
+ * literals, `path.resolve(__dirname, "./src")` and
+ * `fileURLToPath(new URL("./src", import.meta.url))`.
+ */
+function evaluatePath(node: ts.Expression, configDir: string): string | null {
+  if (ts.isStringLiteralLike(node)) {
+    if (isAbsolute(node.text) && existsSync(node.text)) return node.text;
+    // `/src` means the project root in Vite
+    return resolve(configDir, node.text.replace(/^\//, ""));
+  }
+
+  if (
+    ts.isIdentifier(node) ||
+    ts.isPropertyAccessExpression(node) ||
+    ts.isCallExpression(node)
+  ) {
+    const text = node.getText();
+    if (
+      text === "__dirname" ||
+      text === "import.meta.dirname" ||
+      text === "process.cwd()"
+    ) {
+      return configDir;
+    }
+  }
+
+  if (!ts.isCallExpression(node)) return null;
+  const callee = node.expression.getText();
+
+  if (/^(path\.)?(resolve|join)$/.test(callee)) {
+    const parts = node.arguments.map((arg) =>
+      ts.isStringLiteralLike(arg) ? arg.text : evaluatePath(arg, configDir)
+    );
+    if (parts.some((part) => part === null)) return null;
+    return resolve(configDir, ...(parts as string[]));
+  }
+
+  const [url] = node.arguments;
+  if (
+    /^(url\.)?fileURLToPath$/.test(callee) &&
+    url &&
+    ts.isNewExpression(url) &&
+    url.expression.getText() === "URL"
+  ) {
+    const [path] = url.arguments ?? [];
+    return path && ts.isStringLiteralLike(path)
+      ? resolve(configDir, path.text)
+      : null;
+  }
+
+  return null;
+}
+
+function toViteAlias(
+  find: string,
+  replacement: ts.Expression,
+  configDir: string
+): PathAlias | null {
+  const target = evaluatePath(replacement, configDir);
+  if (!target) return null;
+
+  // `@` matches `@/…`, so both spell the same alias
+  return {
+    prefix: find.endsWith("/") ? find : `${find}/`,
+    target,
+    wildcard: true,
+  };
+}
+
+/** `resolve.alias` of vite.config, as an object or `{ find, replacement }`s */
+export function readViteAliases(cwd: string): PathAlias[] {
+  const configPath = VITE_CONFIG_FILES.map((name) => join(cwd, name)).find(
+    existsSync
+  );
+  if (!configPath) return [];
+
+  const source = ts.createSourceFile(
+    configPath,
+    readFileSync(configPath, "utf-8"),
+    ts.ScriptTarget.Latest,
+    true
+  );
+  const aliases: PathAlias[] = [];
+
+  const visit = (node: ts.Node): void => {
+    if (
+      ts.isPropertyAssignment(node) &&
+      getPropertyName(node.name) === "alias" &&
+      ts.isObjectLiteralExpression(node.parent) &&
+      ts.isPropertyAssignment(node.parent.parent) &&
+      getPropertyName(node.parent.parent.name) === "resolve"
+    ) {
+      const value = node.initializer;
+
+      if (ts.isObjectLiteralExpression(value)) {
+        for (const property of value.properties) {
+          const find = ts.isPropertyAssignment(property)
+            ? getPropertyName(property.name)
+            : null;
+          const alias =
+            find && ts.isPropertyAssignment(property)
+              ? toViteAlias(find, property.initializer, cwd)
+              : null;
+          if (alias) aliases.push(alias);
+        }
+      }
+
+      if (ts.isArrayLiteralExpression(value)) {
+        for (const element of value.elements) {
+          if (!ts.isObjectLiteralExpression(element)) continue;
+          const field = (name: string) =>
+            element.properties.find(
+              (property): property is ts.PropertyAssignment =>
+                ts.isPropertyAssignment(property) &&
+                getPropertyName(property.name) === name
+            )?.initializer;
+
+          // Regex `find`s can't be turned back into a specifier
+          const find = field("find");
+          const replacement = field("replacement");
+          const alias =
+            find && ts.isStringLiteralLike(find) && replacement
+              ? toViteAlias(find.text, replacement, cwd)
+              : null;
+          if (alias) aliases.push(alias);
+        }
+      }
+    }
+
+    ts.forEachChild(node, visit);
+  };
+  visit(source);
+
+  return aliases;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 REWRITING                                  */
+/* -------------------------------------------------------------------------- */
+
+function stripModuleExtension(path: string): string {
+  const withoutExtension = /\.[cm]?[jt]sx?$/.test(path)
+    ? path.slice(0, -extname(path).length)
+    : path;
+  return withoutExtension.replace(/[\\/]index$/, "");
+}
+
+function toPosix(path: string): string {
+  return path.split(sep).join("/");
+}
+
+/** Every import alias the project declares, tsconfig `paths` first */
+export function loadPathAliases(cwd: string): PathAlias[] {
+  return [...readTsconfigAliases(cwd), ...readViteAliases(cwd)];
+}
+
+/**
+ * The specifier `fromFile` should use for the module at `target`: the
+ * shortest one an alias produces, or a relative path when none covers it.
+ */
+export function getImportSpecifier(
+  target: string,
+  fromFile: string,
+  aliases: PathAlias[]
+): string {
+  const candidates = aliases.flatMap((alias) => {
+    if (!alias.wildcard) {
+      return alias.target === target ? [alias.prefix] : [];
+    }
+
+    const rest = relative(alias.target, target);
+    return rest && !rest.startsWith("..") && !isAbsolute(rest)
+      ? [alias.prefix + toPosix(rest)]
+      : [];
+  });
+
+  if (candidates.length > 0) {
+    return candidates.reduce((shortest, candidate) =>
+      candidate.length < shortest.length ? candidate : shortest
+    );
+  }
+
+  const path = toPosix(relative(dirname(fromFile), target));
+  return path.startsWith(".") ? path : `./${path}`;
+}
+
+/**
+ * Points the registry's `@/components/…` imports in a file bound for
+ * `filePath` at where those modules live in this project.
+ */
+export function rewriteRegistryImports(
+  content: string,
+  filePath: string,
+  targets: ImportTargets,
+  aliases: PathAlias[]
+): string {
+  return content.replace(
+    REGISTRY_IMPORT,
+    (match, keyword: string, quote: string, specifier: string) => {
+      const [, root = "", name = "", rest = ""] =
+        /^@\/(\w+)\/([^/]+)(.*)$/.exec(specifier) ?? [];
+
+      // `@/lib/…` only ever meant utils, other libs are built as components
+      const target =
+        name === "utils" && (root === "components" || root === "lib")
+          ? join(targets.utils, rest)
+          : root !== "lib"
+            ? join(targets[root as keyof ImportTargets], name, rest)
+            : null;
+      if (!target) return match;
+
+      const rewritten = getImportSpecifier(target, filePath, aliases);
+      return `${keyword}${quote}${rewritten}${quote}`;
+    }
+  );
+}
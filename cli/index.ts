@@ -1,10 +1,15 @@
 #!/usr/bin/env node
 
-import { Command } from "commander";
+import { Command, Option } from "commander";
 import { addComponent } from "./commands/add.js";
 import { buildRegistry } from "./commands/registry-build.js";
 import { init } from "./commands/init.js";
 import { findComponent } from "./commands/find.js";
+import { searchComponents } from "./commands/search.js";
+import { listComponents } from "./commands/list.js";
+import { diffComponents } from "./commands/diff.js";
+import { updateComponents } from "./commands/update.js";
+import { removeComponents } from "./commands/remove.js";
 import { createComponent } from "./commands/create.js";
 import { join } from "path";
 import { readFileSync } from "fs";
@@ -37,9 +42,11 @@ program
   )
   .option("-c, --components-dir <dir>", "Custom components directory")
   .option("--no-interactive", "Run in non-interactive mode")
+  .option("--cwd <cwd>", "working directory", process.cwd())
   .action(async (options) => {
     try {
       await init({
+        cwd: options.cwd,
         framework: options.framework,
         componentsDir: options.componentsDir,
         interactive: options.interactive,
@@ -66,23 +73,134 @@ program
   .option("--src-dir", "use src directory", false)
   .option("--css-variables", "use css variables", true)
   .option("-l, --local", "use local registry (for development)", false)
+  .addOption(
+    new Option("--offline", "only use cached registry files").conflicts(
+      "refresh"
+    )
+  )
+  .option("--refresh", "revalidate cached registry files")
   .option(
     "-f, --framework <framework>",
     "override framework (nextjs, react, vue, angular)"
   )
+  .option("--dry-run", "preview file changes and packages without writing")
   .action(addComponent);
 
+program
+  .command("diff")
+  .description("Compare installed components against the registry")
+  .argument("[components...]", "component names (defaults to the lockfile)")
+  .option("-d, --debug", "enable debug logs")
+  .option("-l, --local", "use local registry (for development)")
+  .addOption(
+    new Option("--offline", "only use cached registry files").conflicts(
+      "refresh"
+    )
+  )
+  .option("--refresh", "revalidate cached registry files")
+  .option(
+    "-f, --framework <framework>",
+    "override framework (nextjs, react, vue, angular)"
+  )
+  .option("--json", "print machine-readable JSON")
+  .option("-c, --cwd <cwd>", "working directory", process.cwd())
+  .action(diffComponents);
+
+program
+  .command("update")
+  .description(
+    "Update installed components, merging registry changes with local edits"
+  )
+  .argument("[components...]", "component names (defaults to the lockfile)")
+  .option("-d, --debug", "enable debug logs")
+  .option("-l, --local", "use local registry (for development)")
+  .addOption(
+    new Option("--offline", "only use cached registry files").conflicts(
+      "refresh"
+    )
+  )
+  .option("--refresh", "revalidate cached registry files")
+  .option("-c, --cwd <cwd>", "working directory", process.cwd())
+  .action(updateComponents);
+
+program
+  .command("remove")
+  .description("Remove installed components and clean up what they added")
+  .argument("<components...>", "component names")
+  .option("-d, --debug", "enable debug logs")
+  .option("-y, --yes", "skip confirmation prompts")
+  .option("--dry-run", "preview what would be removed")
+  .option("-c, --cwd <cwd>", "working directory", process.cwd())
+  .action(removeComponents);
+
 program
   .command("find")
   .description("Find animation by video URL (Instagram, TikTok, YouTube)")
   .argument("<video-url>", "URL of the video containing the animation")
   .option("-d, --debug", "enable debug logs")
   .option("-l, --local", "use local registry (for development)", false)
+  .addOption(
+    new Option("--offline", "only use cached registry files").conflicts(
+      "refresh"
+    )
+  )
+  .option("--refresh", "revalidate cached registry files")
   .option("-i, --install", "install component immediately after finding")
+  .option("--no-resolve", "don't follow share-link redirects over the network")
   .option("-o, --overwrite", "overwrite existing files")
   .option("-c, --cwd <cwd>", "working directory", process.cwd())
   .action(findComponent);
 
+program
+  .command("search")
+  .description("Search animations by name, description, tags or category")
+  .argument("[query]", "words to search for")
+  .option("-d, --debug", "enable debug logs")
+  .option("-l, --local", "use local registry (for development)", false)
+  .addOption(
+    new Option("--offline", "only use cached registry files").conflicts(
+      "refresh"
+    )
+  )
+  .option("--refresh", "revalidate cached registry files")
+  .option(
+    "-f, --framework <framework>",
+    "only show components for a framework (nextjs, react, vue, angular)"
+  )
+  .option("--difficulty <level>", "only show a difficulty (easy, medium, hard)")
+  .option("--category <category>", "only show a category")
+  .option("-n, --limit <count>", "maximum number of results", "10")
+  .option("--no-interactive", "print results without the install prompt")
+  .option("-o, --overwrite", "overwrite existing files")
+  .option("-c, --cwd <cwd>", "working directory", process.cwd())
+  .action(searchComponents);
+
+program
+  .command("list")
+  .description("List the components available in the registry")
+  .option("-d, --debug", "enable debug logs")
+  .option("-l, --local", "use local registry (for development)", false)
+  .addOption(
+    new Option("--offline", "only use cached registry files").conflicts(
+      "refresh"
+    )
+  )
+  .option("--refresh", "revalidate cached registry files")
+  .option(
+    "-g, --group-by <group>",
+    "group by category or framework",
+    "category"
+  )
+  .option(
+    "-f, --framework <framework>",
+    "only show components for a framework (nextjs, react, vue, angular)"
+  )
+  .option("-i, --installed", "only show components installed in this project")
+  .option("-t, --tree", "print a tree instead of a table")
+  .option("--json", "print machine-readable JSON")
+  .option("-c, --cwd <cwd>", "working directory", process.cwd())
+  .action(listComponents);
+
 program
   .command("create")
   .description("Create a new component for contribution (for contributors)")
@@ -101,11 +219,13 @@ program
   .option("--website <url>", "your personal website URL")
   .option("--debug", "enable debug logs")
   .option("--no-interactive", "Run in non-interactive mode")
+  .option("--cwd <cwd>", "working directory", process.cwd())
   .action(createComponent);
 
 program
   .command("registry:build")
   .description("Build registry JSON files from component source files")
+  .option("-w, --watch", "rebuild when registry sources change")
   .action(buildRegistry);
 
 program
@@ -113,6 +233,7 @@ program
   .description("Show credits for contributors")
   .argument("[component-name]", "show credits for specific component")
   .option("-l, --local", "use local registry (for development)", false)
+  .option("-c, --cwd <cwd>", "working directory", process.cwd())
   .action(showCredits);
 
 program.parse();
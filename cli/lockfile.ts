@@ -0,0 +1,189 @@
+import { createHash } from "crypto";
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { join, relative, sep } from "path";
+import type {
+  Lockfile,
+  LockfileEntry,
+  LockfileFile,
+} from "./commands/types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+export const LOCKFILE_NAME = "clipmotion-lock.json";
+
+export const LOCKFILE_VERSION = 1;
+
+/** Registry content as installed, kept as the base for three-way merges */
+export const OBJECTS_DIR = join(".clipmotion", "objects");
+
+/* -------------------------------------------------------------------------- */
+/*                                  HELPERS                                   */
+/* -------------------------------------------------------------------------- */
+
+export function getLockfilePath(cwd: string): string {
+  return join(cwd, LOCKFILE_NAME);
+}
+
+export function hashContent(content: string | Buffer): string {
+  return `sha256-${createHash("sha256").update(content).digest("hex")}`;
+}
+
+/** Project-relative path with forward slashes, stable across platforms */
+export function toLockfilePath(cwd: string, filePath: string): string {
+  return relative(cwd, filePath).split(sep).join("/");
+}
+
+export function createLockfile(): Lockfile {
+  return { version: LOCKFILE_VERSION, components: {} };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  READ/WRITE                                */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Reads `clipmotion-lock.json` from `cwd`, or returns an empty lockfile when
+ * the project has none yet. Throws on a corrupt or newer-format lockfile so
+ * callers never overwrite records they could not understand.
+ */
+export function readLockfile(cwd: string): Lockfile {
+  const lockfilePath = getLockfilePath(cwd);
+
+  if (!existsSync(lockfilePath)) {
+    return createLockfile();
+  }
+
+  let data: Partial<Lockfile>;
+  try {
+    data = JSON.parse(readFileSync(lockfilePath, "utf-8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to parse ${LOCKFILE_NAME}: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  if (typeof data.version === "number" && data.version > LOCKFILE_VERSION) {
+    throw new Error(
+      `${LOCKFILE_NAME} was written by a newer clipmotion (version ${data.version}), please upgrade`
+    );
+  }
+
+  return {
+    version: LOCKFILE_VERSION,
+    components: data.components ?? {},
+  };
+}
+
+/** The lockfile as written to disk, for callers that stage their writes */
+export function serializeLockfile(lockfile: Lockfile): string {
+  // Sorted keys keep lockfile diffs readable in code review
+  const components = Object.fromEntries(
+    Object.entries(lockfile.components).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+  return (
+    JSON.stringify({ version: LOCKFILE_VERSION, components }, null, 2) + "\n"
+  );
+}
+
+export function writeLockfile(cwd: string, lockfile: Lockfile): void {
+  writeFileSync(getLockfilePath(cwd), serializeLockfile(lockfile), "utf-8");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   OBJECTS                                  */
+/* -------------------------------------------------------------------------- */
+
+export function getObjectPath(cwd: string, hash: string): string {
+  return join(cwd, OBJECTS_DIR, hash.replace(/^sha256-/, ""));
+}
+
+/** Stores content under its hash and returns the hash */
+export function writeObject(cwd: string, content: string): string {
+  const hash = hashContent(content);
+  const objectPath = getObjectPath(cwd, hash);
+
+  if (!existsSync(objectPath)) {
+    mkdirSync(join(cwd, OBJECTS_DIR), { recursive: true });
+    writeFileSync(objectPath, content, "utf-8");
+  }
+
+  return hash;
+}
+
+export function readObject(cwd: string, hash: string): string | null {
+  const objectPath = getObjectPath(cwd, hash);
+  return existsSync(objectPath) ? readFileSync(objectPath, "utf-8") : null;
+}
+
+/** Deletes stored objects no lockfile entry points at anymore */
+export function pruneObjects(cwd: string, lockfile: Lockfile): void {
+  const objectsDir = join(cwd, OBJECTS_DIR);
+  if (!existsSync(objectsDir)) return;
+
+  const referenced = new Set(
+    Object.values(lockfile.components).flatMap((entry) =>
+      entry.files.map((file) => file.registryHash.replace(/^sha256-/, ""))
+    )
+  );
+
+  for (const name of readdirSync(objectsDir)) {
+    if (!referenced.has(name)) {
+      rmSync(join(objectsDir, name), { force: true });
+    }
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  RECORDS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** The record of a registry file, matched by its name within the item */
+export function findLockedFile(
+  entry: LockfileEntry | undefined,
+  fileName: string
+): LockfileFile | undefined {
+  return entry?.files.find(
+    (file) => file.path === fileName || file.path.endsWith(`/${fileName}`)
+  );
+}
+
+/**
+ * Stores an install record. Files skipped because they already existed keep
+ * their earlier record, so re-running `add` doesn't forget what the first
+ * install wrote or which packages it added, or that it was added by name.
+ */
+export function recordInstall(lockfile: Lockfile, entry: LockfileEntry): void {
+  const previous = lockfile.components[entry.name];
+
+  if (!previous) {
+    lockfile.components[entry.name] = entry;
+    return;
+  }
+
+  const previousFiles = new Map(
+    previous.files.map((file): [string, LockfileFile] => [file.path, file])
+  );
+
+  lockfile.components[entry.name] = {
+    ...entry,
+    files: entry.files.map((file) =>
+      file.action === "skipped" ? (previousFiles.get(file.path) ?? file) : file
+    ),
+    addedDependencies: [
+      ...new Set([...previous.addedDependencies, ...entry.addedDependencies]),
+    ],
+    direct: entry.direct !== false || previous.direct !== false,
+  };
+}
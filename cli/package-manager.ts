@@ -0,0 +1,246 @@
+import { execa } from "execa";
+import { existsSync, readFileSync } from "fs";
+import { dirname, join, resolve } from "path";
+import type { PackageManager } from "./commands/types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface PackageManagerInfo {
+  name: PackageManager;
+  /** Where the lockfile lives, the workspace root in a monorepo */
+  root: string;
+  /** Nearest directory with a package.json, the package being changed */
+  packageDir: string;
+  /** Name of that package when it's a member of the workspace at `root` */
+  workspace?: string;
+}
+
+export interface PackageCommand {
+  command: PackageManager;
+  args: string[];
+  cwd: string;
+}
+
+export interface PackageCommandOptions {
+  cwd?: string;
+  dev?: boolean;
+  /** Show the package manager's own output */
+  verbose?: boolean;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+// Checked in this order, so a stray npm lockfile loses to the others
+const LOCKFILES: [string, PackageManager][] = [
+  ["bun.lock", "bun"],
+  ["bun.lockb", "bun"],
+  ["pnpm-lock.yaml", "pnpm"],
+  ["yarn.lock", "yarn"],
+  ["package-lock.json", "npm"],
+  ["npm-shrinkwrap.json", "npm"],
+];
+
+const PACKAGE_MANAGERS: PackageManager[] = ["npm", "yarn", "pnpm", "bun"];
+
+/* -------------------------------------------------------------------------- */
+/*                                  HELPERS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** `@scope/name@^1.0.0` → `@scope/name` */
+export function getPackageName(spec: string): string {
+  const versionAt = spec.indexOf("@", 1);
+  return versionAt === -1 ? spec : spec.slice(0, versionAt);
+}
+
+function readPackageJson(dir: string): Record<string, any> | null {
+  const path = join(dir, "package.json");
+  if (!existsSync(path)) return null;
+
+  try {
+    return JSON.parse(readFileSync(path, "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/** `pnpm@9.1.0+sha512.abc` → `pnpm` */
+function parsePackageManagerField(value: unknown): PackageManager | null {
+  if (typeof value !== "string") return null;
+  const name = value.split("@")[0] as PackageManager;
+  return PACKAGE_MANAGERS.includes(name) ? name : null;
+}
+
+function isWorkspaceRoot(
+  dir: string,
+  pkg: Record<string, any> | null
+): boolean {
+  return (
+    existsSync(join(dir, "pnpm-workspace.yaml")) || Boolean(pkg?.workspaces)
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 DETECTION                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Looks for a lockfile in the project, then walks up to the workspace root it
+ * belongs to, if any, without leaving the repository. Parent directories
+ * outside a workspace are never used. A `packageManager` field wins over
+ * lockfiles.
+ */
+export function detectPackageManager(
+  cwd: string = process.cwd()
+): PackageManagerInfo {
+  const start = resolve(cwd);
+  let declared: PackageManager | null = null;
+  let locked: PackageManager | null = null;
+  let packageDir: string | null = null;
+  let root: string | null = null;
+  let workspaceRoot = false;
+
+  for (let dir = start; ; dir = dirname(dir)) {
+    const pkg = readPackageJson(dir);
+    if (pkg && !packageDir) packageDir = dir;
+    workspaceRoot = isWorkspaceRoot(dir, pkg);
+
+    // Above the project only a workspace root counts, not a stray lockfile
+    const inProject = dir === start || dir === packageDir;
+    if (inProject || workspaceRoot) {
+      declared ??= parsePackageManagerField(pkg?.packageManager);
+      const lockfile = LOCKFILES.find(([name]) => existsSync(join(dir, name)));
+
+      if (lockfile || workspaceRoot) {
+        locked = lockfile?.[1] ?? null;
+        root = dir;
+        break;
+      }
+    }
+
+    if (existsSync(join(dir, ".git")) || dirname(dir) === dir) break;
+  }
+
+  packageDir ??= start;
+  const workspace =
+    workspaceRoot && root !== packageDir
+      ? readPackageJson(packageDir)?.name
+      : undefined;
+
+  return {
+    name: declared ?? locked ?? "npm",
+    root: root ?? packageDir,
+    packageDir,
+    ...(typeof workspace === "string" && { workspace }),
+  };
+}
+
+/** package.json files and lockfiles an install may rewrite */
+export function getPackageFiles(info: PackageManagerInfo): string[] {
+  return [
+    ...new Set([
+      join(info.packageDir, "package.json"),
+      join(info.root, "package.json"),
+      ...LOCKFILES.map(([name]) => join(info.root, name)),
+    ]),
+  ];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  COMMANDS                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Targets the workspace package from the root, or runs in the package */
+function inWorkspace(info: PackageManagerInfo, args: string[]): PackageCommand {
+  const { name, workspace } = info;
+
+  // bun has no workspace flag for add/remove, it works from the package dir
+  if (!workspace || name === "bun") {
+    return { command: name, args, cwd: info.packageDir };
+  }
+
+  const workspaceArgs: Record<PackageManager, string[]> = {
+    npm: [...args, "-w", workspace],
+    yarn: ["workspace", workspace, ...args],
+    pnpm: ["--filter", workspace, ...args],
+    bun: args,
+  };
+
+  return { command: name, args: workspaceArgs[name], cwd: info.root };
+}
+
+export function getInstallCommand(
+  info: PackageManagerInfo,
+  packages: string[],
+  dev: boolean = false
+): PackageCommand {
+  const devFlag: Record<PackageManager, string> = {
+    npm: "--save-dev",
+    yarn: "--dev",
+    pnpm: "--save-dev",
+    bun: "--dev",
+  };
+
+  return inWorkspace(info, [
+    info.name === "npm" ? "install" : "add",
+    ...(dev ? [devFlag[info.name]] : []),
+    ...packages,
+  ]);
+}
+
+export function getUninstallCommand(
+  info: PackageManagerInfo,
+  packages: string[]
+): PackageCommand {
+  return inWorkspace(info, [
+    info.name === "npm" ? "uninstall" : "remove",
+    ...packages,
+  ]);
+}
+
+async function run(
+  { command, args, cwd }: PackageCommand,
+  verbose: boolean,
+  action: string
+): Promise<void> {
+  try {
+    await execa(command, args, { stdio: verbose ? "inherit" : "pipe", cwd });
+  } catch (error) {
+    throw new Error(
+      `Failed to ${action} dependencies with ${command}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+}
+
+export async function installDependencies(
+  packages: string[],
+  options: PackageCommandOptions = {}
+): Promise<void> {
+  if (!packages.length) return;
+
+  const info = detectPackageManager(options.cwd);
+  await run(
+    getInstallCommand(info, packages, options.dev),
+    options.verbose ?? false,
+    "install"
+  );
+}
+
+export async function uninstallDependencies(
+  packages: string[],
+  options: PackageCommandOptions = {}
+): Promise<void> {
+  if (!packages.length) return;
+
+  const info = detectPackageManager(options.cwd);
+  await run(
+    getUninstallCommand(info, packages),
+    options.verbose ?? false,
+    "uninstall"
+  );
+}
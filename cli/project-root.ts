@@ -0,0 +1,19 @@
+import chalk from "chalk";
+import { existsSync, statSync } from "fs";
+import { resolve } from "path";
+
+/**
+ * Absolute project directory for `--cwd`, defaulting to where clipmotion
+ * runs. Commands resolve it once and pass it to every file, registry and
+ * install operation, so relative paths never depend on `process.cwd()`.
+ */
+export function resolveProjectRoot(cwd?: string): string {
+  const root = resolve(cwd ?? process.cwd());
+
+  if (!existsSync(root) || !statSync(root).isDirectory()) {
+    console.error(chalk.red(`\n✗ Project directory not found: ${cwd}`));
+    process.exit(1);
+  }
+
+  return root;
+}
@@ -2,12 +2,43 @@ import { z } from "zod";
 
 export const contributorSchema = z.object({
   name: z.string().min(1, "Contributor name is required"),
-  github: z.string().url().optional().or(z.string().startsWith("https://github.com/")),
+  github: z
+    .string()
+    .url()
+    .optional()
+    .or(z.string().startsWith("https://github.com/")),
   x: z.string().optional(),
   twitter: z.string().optional(),
   website: z.string().url().optional(),
 });
 
+export const difficultySchema = z.enum(["easy", "medium", "hard"]);
+
+export const propDocSchema = z.strictObject({
+  name: z.string().min(1, "Prop name is required"),
+  type: z.string().min(1, "Prop type is required"),
+  description: z.string().optional(),
+  default: z.string().optional(),
+  required: z.boolean().optional(),
+});
+
+/**
+ * `<component>.meta.json` or a `meta` export of the component. Unknown keys
+ * are errors so a typo doesn't silently drop metadata.
+ */
+export const registryManifestSchema = z.strictObject({
+  $schema: z.string().optional(),
+  description: z.string().min(1).optional(),
+  category: z.string().min(1).optional(),
+  difficulty: difficultySchema.optional(),
+  tags: z.array(z.string().min(1)).optional(),
+  demoUrl: z.string().url("Demo URL must be a URL").optional(),
+  sources: z.array(z.string().url("Source must be a video URL")).optional(),
+  contributor: contributorSchema.partial().optional(),
+  peerDependencies: z.array(z.string().min(1)).optional(),
+  props: z.array(propDocSchema).optional(),
+});
+
 export const registryItemSchema = z.object({
   name: z.string(),
   description: z.string(),
@@ -16,19 +47,31 @@ export const registryItemSchema = z.object({
   dependencies: z.array(z.string()).default([]),
   devDependencies: z.array(z.string()).default([]),
   registryDependencies: z.array(z.string()).default([]),
+  peerDependencies: z.array(z.string()).optional(),
   files: z.array(
     z.object({
       name: z.string(),
       content: z.string(),
-      type: z.string(),
+      type: z.enum([
+        "registry:component",
+        "registry:lib",
+        "registry:hook",
+        "registry:style",
+        "registry:asset",
+      ]),
     })
   ),
   meta: z.object({
     category: z.string().optional(),
-    difficulty: z.enum(["easy", "medium", "hard"]).optional(),
-    source: z.string().optional(),
+    difficulty: difficultySchema.optional(),
+    tags: z.array(z.string()).optional(),
+    demoUrl: z.string().url().optional(),
+    sources: z.array(z.string().url("Source must be a video URL")).default([]),
+    filePath: z.string().optional(),
     contributor: contributorSchema.optional(),
+    props: z.array(propDocSchema).optional(),
   }),
 });
 
-export type RegistryItem = z.infer<typeof registryItemSchema>;
\ No newline at end of file
+export type RegistryItem = z.infer<typeof registryItemSchema>;
+export type RegistryManifest = z.infer<typeof registryManifestSchema>;
@@ -0,0 +1,472 @@
+import { execa } from "execa";
+import { createHash } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync } from "fs";
+import { isAbsolute, join, resolve } from "path";
+import { fileURLToPath } from "url";
+import { getUserCacheDir } from "./user-cache.js";
+import {
+  cachedFetch,
+  isHttpCacheEnabled,
+  type CacheMode,
+} from "./http-cache.js";
+import type {
+  BaseRegistryConfig,
+  ComponentConfig,
+  RegistriesConfig,
+} from "./commands/types.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+/** The parts of a fetch `Response` the registry readers use */
+export type RegistryResponse = Pick<
+  Response,
+  "ok" | "status" | "statusText" | "json" | "text"
+>;
+
+export type RegistrySourceKind = "file" | "http" | "git" | "npm";
+
+export interface RegistrySource {
+  kind: RegistrySourceKind;
+  /** What the lockfile records, `local` for the bundled registry */
+  id: string;
+  /** Where files are read from, for messages */
+  location: string;
+  /** Reads a registry file, `path` is relative like `react/button.json` */
+  get(path: string): Promise<RegistryResponse>;
+}
+
+export interface RegistrySourceOptions {
+  /** Read the registry bundled with the CLI (`--local`) */
+  local?: boolean;
+  /** Project root that relative directory paths resolve against */
+  cwd?: string;
+  /** Named registry to read, the default one when omitted */
+  namespace?: string;
+  /** Only use cached registry files and existing checkouts (`--offline`) */
+  offline?: boolean;
+  /** Revalidate every cached file with the server (`--refresh`) */
+  refresh?: boolean;
+}
+
+export interface HttpSourceOptions {
+  headers?: Record<string, string>;
+  cache?: CacheMode;
+}
+
+/** A component name split into its registry and the name within it */
+export interface ComponentRef {
+  /** Registry name from `@namespace/name`, null for the default registry */
+  namespace: string | null;
+  name: string;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+export const DEFAULT_REGISTRY_URL =
+  "https://raw.githubusercontent.com/nerdboi008/clipmotion/main/public/r";
+
+/** Registry that serves names without a `@namespace/` */
+export const DEFAULT_REGISTRY = "default";
+
+// The index lists new components, so it goes stale sooner than items
+const INDEX_TTL_MS = 10 * 60 * 1000;
+const ITEM_TTL_MS = 60 * 60 * 1000;
+
+/** Where a git repo or npm package keeps its built registry */
+const REGISTRY_DIR = join("public", "r");
+
+// Git and npm checkouts prepared during this run, by directory
+const checkouts = new Map<string, Promise<RegistrySource>>();
+
+/* -------------------------------------------------------------------------- */
+/*                                  HELPERS                                   */
+/* -------------------------------------------------------------------------- */
+
+/** Registry built into the CLI package, what `--local` reads from */
+export function getLocalRegistryDir(): string {
+  return join(__dirname, "..", "public", "r"); // build/../public/r
+}
+
+/**
+ * Headers for the HTTP registry `namespace`. `CLIPMOTION_REGISTRY_TOKEN` is
+ * sent as a bearer token, `CLIPMOTION_REGISTRY_HEADERS` adds a JSON object of
+ * headers for other schemes. Named registries read the same variables with
+ * their name appended, `CLIPMOTION_REGISTRY_TOKEN_ACME` for `@acme`, so no
+ * registry sees another's credentials. The public registry never gets any.
+ */
+export function getRegistryHeaders(
+  namespace: string,
+  config: ComponentConfig | null,
+  env: NodeJS.ProcessEnv = process.env
+): Record<string, string> {
+  const location = getRegistryLocations(config)[namespace] ?? "";
+  if (location.replace(/\/+$/, "") === DEFAULT_REGISTRY_URL) {
+    return {};
+  }
+
+  const suffix =
+    namespace === DEFAULT_REGISTRY
+      ? ""
+      : `_${namespace.toUpperCase().replace(/[^A-Z0-9]+/g, "_")}`;
+  const token = env[`CLIPMOTION_REGISTRY_TOKEN${suffix}`];
+  const extra = env[`CLIPMOTION_REGISTRY_HEADERS${suffix}`];
+  const headers: Record<string, string> = {};
+
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+
+  if (extra) {
+    try {
+      Object.assign(headers, JSON.parse(extra));
+    } catch {
+      throw new Error(
+        `CLIPMOTION_REGISTRY_HEADERS${suffix} must be a JSON object`
+      );
+    }
+  }
+
+  return headers;
+}
+
+/** Checkout directory for a git or npm registry, keyed by its spec */
+function getCheckoutDir(kind: RegistrySourceKind, spec: string): string {
+  const key = createHash("sha256").update(spec).digest("hex").slice(0, 16);
+  return join(getUserCacheDir(), "registries", kind, key);
+}
+
+/**
+ * Runs `prepare` the first time a checkout is read and shares the result
+ * with every source for the same directory, so each command fetches once.
+ */
+function lazyCheckout(
+  dir: string,
+  prepare: () => Promise<RegistrySource>
+): () => Promise<RegistrySource> {
+  return () => {
+    let pending = checkouts.get(dir);
+    if (!pending) {
+      pending = prepare();
+      checkouts.set(dir, pending);
+    }
+    return pending;
+  };
+}
+
+/** The checkout an earlier run left behind, for `--offline` */
+function useExistingCheckout(
+  registryDir: string,
+  spec: string
+): RegistrySource {
+  if (!existsSync(registryDir)) {
+    throw new Error(`${spec} is not cached yet, run once without --offline`);
+  }
+  return createFileSource(registryDir);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  ADAPTERS                                  */
+/* -------------------------------------------------------------------------- */
+
+/** A registry directory on disk, like the `public/r` registry:build writes */
+export function createFileSource(
+  dir: string,
+  id: string = dir
+): RegistrySource {
+  return {
+    kind: "file",
+    id,
+    location: dir,
+    get: async (path) => {
+      const file = join(dir, path);
+      return existsSync(file)
+        ? new Response(readFileSync(file, "utf-8"))
+        : new Response(null, { status: 404, statusText: "Not Found" });
+    },
+  };
+}
+
+export function createHttpSource(
+  baseUrl: string,
+  options: HttpSourceOptions = {}
+): RegistrySource {
+  const base = baseUrl.replace(/\/+$/, "");
+  const headers = options.headers ?? {};
+
+  return {
+    kind: "http",
+    id: baseUrl,
+    location: base,
+    get: (path) => {
+      const url = `${base}/${path}`;
+
+      if (!isHttpCacheEnabled()) {
+        // Nothing to read offline, and --offline must never reach the network
+        if (options.cache === "offline") {
+          return Promise.reject(
+            new Error(
+              `${url} can't be read with --offline while CLIPMOTION_NO_CACHE is set`
+            )
+          );
+        }
+        return fetch(url, { headers });
+      }
+
+      return cachedFetch(url, {
+        headers,
+        ttl: path === "index.json" ? INDEX_TTL_MS : ITEM_TTL_MS,
+        ...(options.cache && { mode: options.cache }),
+      });
+    },
+  };
+}
+
+/**
+ * A registry committed to a git repo, `git+<url>#<ref>`. The ref is fetched
+ * shallowly into the user cache on first read and `public/r` is read from it.
+ */
+export function createGitSource(
+  spec: string,
+  cache: CacheMode = "default"
+): RegistrySource {
+  const [url = "", ref = "HEAD"] = spec.replace(/^git\+/, "").split("#");
+  const dir = getCheckoutDir("git", spec);
+
+  const checkout = lazyCheckout(dir, async () => {
+    if (cache === "offline") {
+      return useExistingCheckout(join(dir, REGISTRY_DIR), spec);
+    }
+
+    try {
+      if (!existsSync(join(dir, ".git"))) {
+        mkdirSync(dir, { recursive: true });
+        await execa("git", ["init", "--quiet"], { cwd: dir });
+      }
+      await execa("git", ["fetch", "--quiet", "--depth", "1", url, ref], {
+        cwd: dir,
+      });
+      await execa("git", ["checkout", "--quiet", "--force", "FETCH_HEAD"], {
+        cwd: dir,
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch registry ${url}#${ref}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+    return createFileSource(join(dir, REGISTRY_DIR));
+  });
+
+  return {
+    kind: "git",
+    id: spec,
+    location: `${url}#${ref}`,
+    get: async (path) => (await checkout()).get(path),
+  };
+}
+
+/**
+ * A registry published as an npm package, `npm:<name>[@<version>]`. The
+ * tarball is packed with the user's npm config, so private scopes work.
+ */
+export function createNpmSource(
+  spec: string,
+  cache: CacheMode = "default"
+): RegistrySource {
+  const packageSpec = spec.replace(/^npm:/, "");
+  const dir = getCheckoutDir("npm", packageSpec);
+
+  const unpack = lazyCheckout(dir, async () => {
+    // Tarballs always unpack into `package/`
+    const registryDir = join(dir, "package", REGISTRY_DIR);
+    if (cache === "offline") {
+      return useExistingCheckout(registryDir, spec);
+    }
+
+    try {
+      rmSync(dir, { recursive: true, force: true });
+      mkdirSync(dir, { recursive: true });
+
+      const { stdout } = await execa(
+        "npm",
+        ["pack", packageSpec, "--json", "--pack-destination", dir],
+        { cwd: dir }
+      );
+      const [packed] = JSON.parse(stdout) as { filename: string }[];
+      if (!packed) throw new Error("npm pack produced no tarball");
+
+      await execa("tar", ["-xzf", packed.filename], { cwd: dir });
+    } catch (error) {
+      throw new Error(
+        `Failed to download registry package ${packageSpec}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+    return createFileSource(registryDir);
+  });
+
+  return {
+    kind: "npm",
+    id: spec,
+    location: packageSpec,
+    get: async (path) => (await unpack()).get(path),
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 SELECTION                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Picks the adapter for a registry location:
+ * `https://…` or `http://…`, `git+<url>#<ref>`, `npm:<package>`, and
+ * `file://…` or a directory path, relative to the project root.
+ */
+export function createRegistrySource(
+  location: string,
+  cwd: string = process.cwd(),
+  cache: CacheMode = "default",
+  headers: Record<string, string> = {}
+): RegistrySource {
+  if (/^https?:\/\//.test(location)) {
+    return createHttpSource(location, { headers, cache });
+  }
+  if (location.startsWith("git+")) return createGitSource(location, cache);
+  if (location.startsWith("npm:")) return createNpmSource(location, cache);
+
+  if (location.startsWith("file://")) {
+    return createFileSource(fileURLToPath(location), location);
+  }
+
+  const dir = isAbsolute(location) ? location : resolve(cwd, location);
+  return createFileSource(dir, location);
+}
+
+/* -------------------------------------------------------------------------- */
+/*                             NAMED REGISTRIES                               */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Base URL of every configured registry, by name. `registry` is either a
+ * single `{ baseUrl }` or a map of named ones, where `default` serves
+ * unprefixed names and falls back to the public ClipMotion registry.
+ */
+export function getRegistryLocations(
+  config: ComponentConfig | null
+): Record<string, string> {
+  const registry = config?.registry ?? {};
+  const named: RegistriesConfig =
+    typeof registry.baseUrl === "string"
+      ? { [DEFAULT_REGISTRY]: registry as BaseRegistryConfig }
+      : (registry as RegistriesConfig);
+
+  const locations: Record<string, string> = {
+    [DEFAULT_REGISTRY]: DEFAULT_REGISTRY_URL,
+  };
+  for (const [name, entry] of Object.entries(named)) {
+    if (entry?.baseUrl) locations[name] = entry.baseUrl;
+  }
+  return locations;
+}
+
+/** `@acme/hero-glow` → `{ namespace: "acme", name: "hero-glow" }` */
+export function parseComponentName(componentName: string): ComponentRef {
+  const match = /^@([^/]+)\/(.+)$/.exec(componentName);
+  if (!match || match[1] === DEFAULT_REGISTRY) {
+    return { namespace: null, name: match?.[2] ?? componentName };
+  }
+  return { namespace: match[1]!, name: match[2]! };
+}
+
+/** The inverse of `parseComponentName`, default registry names stay bare */
+export function formatComponentName(
+  namespace: string | null,
+  name: string
+): string {
+  return namespace && namespace !== DEFAULT_REGISTRY
+    ? `@${namespace}/${name}`
+    : name;
+}
+
+/**
+ * The registry a command reads: a named one for `namespace`, otherwise the
+ * default from `registry.baseUrl`, or the bundled one with `--local`.
+ */
+export function getRegistrySource(
+  config: ComponentConfig | null,
+  options: RegistrySourceOptions = {}
+): RegistrySource {
+  const namespace = options.namespace ?? DEFAULT_REGISTRY;
+
+  if (options.local && namespace === DEFAULT_REGISTRY) {
+    return createFileSource(getLocalRegistryDir(), "local");
+  }
+
+  const location = getRegistryLocations(config)[namespace];
+  if (!location) {
+    throw new Error(
+      `Unknown registry "@${namespace}", add it under "registry" in clipmotion-components.json`
+    );
+  }
+
+  const cache: CacheMode = options.offline
+    ? "offline"
+    : options.refresh
+      ? "refresh"
+      : "default";
+
+  return createRegistrySource(
+    location,
+    options.cwd,
+    cache,
+    getRegistryHeaders(namespace, config)
+  );
+}
+
+/** Source options from a command's `--local`, `--offline` and `--refresh` */
+export function getRegistrySourceOptions(
+  options: { local?: boolean; offline?: boolean; refresh?: boolean },
+  cwd: string
+): Omit<RegistrySourceOptions, "namespace"> {
+  return {
+    local: options.local ?? false,
+    offline: options.offline ?? false,
+    refresh: options.refresh ?? false,
+    cwd,
+  };
+}
+
+/** The registry serving `componentName` and the item's name within it */
+export function resolveComponentSource(
+  config: ComponentConfig | null,
+  componentName: string,
+  options: Omit<RegistrySourceOptions, "namespace"> = {}
+): { source: RegistrySource; name: string } {
+  const { namespace, name } = parseComponentName(componentName);
+  return {
+    source: getRegistrySource(config, {
+      ...options,
+      ...(namespace && { namespace }),
+    }),
+    name,
+  };
+}
+
+/** Every configured registry, by name, with `default` first */
+export function getRegistrySources(
+  config: ComponentConfig | null,
+  options: Omit<RegistrySourceOptions, "namespace"> = {}
+): Map<string, RegistrySource> {
+  return new Map(
+    Object.keys(getRegistryLocations(config)).map((namespace) => [
+      namespace,
+      getRegistrySource(config, { ...options, namespace }),
+    ])
+  );
+}
@@ -0,0 +1,204 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, join } from "path";
+import { getUserCacheDir } from "./user-cache.js";
+import {
+  getVideoKey,
+  parseVideoUrl,
+  toVideoKey,
+  type VideoIdentity,
+} from "./video-identity.js";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Turns a share link into the URL it redirects to.
+ * Returns `null` when the link cannot be resolved.
+ */
+export type ShortLinkResolver = (url: string) => Promise<string | null>;
+
+/** Short-link key → canonical video key, e.g. `tiktok:short:ZM1` → `tiktok:73` */
+export type ShortLinkAliases = Record<string, string>;
+
+export interface ResolveShortLinkOptions {
+  /** Precomputed alias table shipped with the registry index */
+  aliases?: ShortLinkAliases | undefined;
+  /** Network resolver, omit to stay offline */
+  resolver?: ShortLinkResolver | null | undefined;
+  /** On-disk cache file, defaults to the user cache directory */
+  cachePath?: string;
+}
+
+export interface ShortLinkResolution {
+  key: string;
+  via: "alias" | "cache" | "resolver";
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+const MAX_REDIRECTS = 5;
+
+const RESOLVE_TIMEOUT_MS = 5000;
+
+// Share hosts serve a login wall to unknown clients instead of the redirect
+const USER_AGENT =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148";
+
+/* -------------------------------------------------------------------------- */
+/*                                   CACHE                                    */
+/* -------------------------------------------------------------------------- */
+
+export function getShortLinkCachePath(): string {
+  return join(getUserCacheDir(), "short-links.json");
+}
+
+export function readShortLinkCache(cachePath: string): ShortLinkAliases {
+  if (!existsSync(cachePath)) {
+    return {};
+  }
+
+  try {
+    const data = JSON.parse(readFileSync(cachePath, "utf-8"));
+    return data && typeof data === "object" ? (data as ShortLinkAliases) : {};
+  } catch {
+    // A corrupt cache is only a missed optimisation
+    return {};
+  }
+}
+
+export function writeShortLinkCache(
+  cachePath: string,
+  cache: ShortLinkAliases
+): void {
+  try {
+    mkdirSync(dirname(cachePath), { recursive: true });
+    writeFileSync(cachePath, JSON.stringify(cache, null, 2), "utf-8");
+  } catch {
+    // Read-only home directories (sandboxed CI) must not break lookups
+  }
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  RESOLVER                                  */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Default resolver: follows redirects by hand until it reaches a URL that
+ * parses to a canonical video id.
+ */
+export function createHttpResolver(): ShortLinkResolver {
+  return async (url) => {
+    let current = url;
+
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+      const res = await fetch(current, {
+        redirect: "manual",
+        headers: { "User-Agent": USER_AGENT },
+        signal: AbortSignal.timeout(RESOLVE_TIMEOUT_MS),
+      });
+
+      const location = res.headers?.get("location");
+      if (res.status >= 300 && res.status < 400 && location) {
+        current = new URL(location, current).toString();
+
+        const identity = parseVideoUrl(current);
+        if (identity && !identity.shortLink) {
+          return current;
+        }
+        continue;
+      }
+
+      // Some hosts answer 200 after following redirects internally
+      const identity = res.url ? parseVideoUrl(res.url) : null;
+      return identity && !identity.shortLink ? res.url : null;
+    }
+
+    return null;
+  };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 RESOLUTION                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Maps a share link to its canonical video key, checking the registry alias
+ * table first, then the on-disk cache, and only then the network resolver.
+ */
+export async function resolveShortLink(
+  url: string,
+  identity: VideoIdentity,
+  options: ResolveShortLinkOptions = {}
+): Promise<ShortLinkResolution | null> {
+  const shortKey = getVideoKey(identity);
+
+  const alias = options.aliases?.[shortKey];
+  if (alias) {
+    return { key: alias, via: "alias" };
+  }
+
+  const cachePath = options.cachePath ?? getShortLinkCachePath();
+  const cache = readShortLinkCache(cachePath);
+
+  const cached = cache[shortKey];
+  if (cached) {
+    return { key: cached, via: "cache" };
+  }
+
+  if (!options.resolver) {
+    return null;
+  }
+
+  const resolvedUrl = await options.resolver(url);
+  const resolved = resolvedUrl ? parseVideoUrl(resolvedUrl) : null;
+
+  if (!resolved || resolved.shortLink) {
+    return null;
+  }
+
+  const resolvedKey = getVideoKey(resolved);
+
+  writeShortLinkCache(cachePath, { ...cache, [shortKey]: resolvedKey });
+
+  return { key: resolvedKey, via: "resolver" };
+}
+
+/**
+ * Builds the alias table for a set of source lists: within one component,
+ * every share link points at the first canonical video of that component.
+ */
+export function buildShortLinkAliases(
+  sourceLists: string[][],
+  extraAliases: Record<string, string> = {}
+): ShortLinkAliases {
+  const aliases: ShortLinkAliases = {};
+
+  for (const [shortUrl, canonicalUrl] of Object.entries(extraAliases)) {
+    const shortIdentity = parseVideoUrl(shortUrl);
+    const canonicalKey = toVideoKey(canonicalUrl);
+
+    if (shortIdentity?.shortLink && canonicalKey) {
+      aliases[getVideoKey(shortIdentity)] = canonicalKey;
+    }
+  }
+
+  for (const sources of sourceLists) {
+    const identities = sources
+      .map((source) => parseVideoUrl(source))
+      .filter((identity): identity is VideoIdentity => identity !== null);
+
+    const canonical = identities.find((identity) => !identity.shortLink);
+    if (!canonical) continue;
+
+    for (const identity of identities) {
+      if (identity.shortLink) {
+        aliases[getVideoKey(identity)] = getVideoKey(canonical);
+      }
+    }
+  }
+
+  return aliases;
+}
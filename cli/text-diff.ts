@@ -0,0 +1,331 @@
+import chalk from "chalk";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface UnifiedDiffOptions {
+  oldLabel?: string;
+  newLabel?: string;
+  /** Unchanged lines kept around each change, defaults to 3 */
+  context?: number;
+}
+
+export interface ThreeWayMergeOptions {
+  localLabel?: string;
+  upstreamLabel?: string;
+}
+
+export interface ThreeWayMergeResult {
+  text: string;
+  /** Number of conflict blocks written into `text` */
+  conflicts: number;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 LINE DIFF                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Splits text into lines, treating CRLF and LF the same */
+export function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.replace(/\r\n/g, "\n").split("\n");
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+/**
+ * Line diff from the longest common subsequence. Shared prefix and suffix
+ * are peeled off first, so small edits to large files stay cheap.
+ */
+export function diffLines(oldLines: string[], newLines: string[]): DiffLine[] {
+  let start = 0;
+  while (
+    start < oldLines.length &&
+    start < newLines.length &&
+    oldLines[start] === newLines[start]
+  ) {
+    start++;
+  }
+
+  let oldEnd = oldLines.length;
+  let newEnd = newLines.length;
+  while (
+    oldEnd > start &&
+    newEnd > start &&
+    oldLines[oldEnd - 1] === newLines[newEnd - 1]
+  ) {
+    oldEnd--;
+    newEnd--;
+  }
+
+  const a = oldLines.slice(start, oldEnd);
+  const b = newLines.slice(start, newEnd);
+
+  // lcs[i][j] = LCS length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i]![j] =
+        a[i] === b[j]
+          ? lcs[i + 1]![j + 1]! + 1
+          : Math.max(lcs[i + 1]![j]!, lcs[i]![j + 1]!);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      middle.push({ type: "context", text: a[i]! });
+      i++;
+      j++;
+    } else if (lcs[i + 1]![j]! >= lcs[i]![j + 1]!) {
+      middle.push({ type: "remove", text: a[i]! });
+      i++;
+    } else {
+      middle.push({ type: "add", text: b[j]! });
+      j++;
+    }
+  }
+  while (i < a.length) middle.push({ type: "remove", text: a[i++]! });
+  while (j < b.length) middle.push({ type: "add", text: b[j++]! });
+
+  return [
+    ...oldLines
+      .slice(0, start)
+      .map((text): DiffLine => ({ type: "context", text })),
+    ...middle,
+    ...oldLines
+      .slice(oldEnd)
+      .map((text): DiffLine => ({ type: "context", text })),
+  ];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   HUNKS                                    */
+/* -------------------------------------------------------------------------- */
+
+/** Groups changed lines into hunks with `context` unchanged lines around them */
+export function createHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const changes = lines.flatMap((line, index) =>
+    line.type === "context" ? [] : [index]
+  );
+
+  // Changes closer than two contexts apart share a hunk
+  const ranges: [number, number][] = [];
+  for (const index of changes) {
+    const last = ranges[ranges.length - 1];
+    if (last && index - last[1] <= context * 2 + 1) {
+      last[1] = index;
+    } else {
+      ranges.push([index, index]);
+    }
+  }
+
+  return ranges.map(([first, last]) => {
+    const from = Math.max(0, first - context);
+    const to = Math.min(lines.length, last + context + 1);
+    const before = lines.slice(0, from);
+    const hunkLines = lines.slice(from, to);
+
+    const oldLines = hunkLines.filter((l) => l.type !== "add").length;
+    const newLines = hunkLines.filter((l) => l.type !== "remove").length;
+    const oldStart = before.filter((l) => l.type !== "add").length + 1;
+    const newStart = before.filter((l) => l.type !== "remove").length + 1;
+
+    return {
+      // Unified diffs number an empty side from line 0
+      oldStart: oldLines === 0 ? oldStart - 1 : oldStart,
+      oldLines,
+      newStart: newLines === 0 ? newStart - 1 : newStart,
+      newLines,
+      lines: hunkLines,
+    };
+  });
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                UNIFIED DIFF                                */
+/* -------------------------------------------------------------------------- */
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${start},${count}`;
+}
+
+/**
+ * Unified diff from `oldText` to `newText`, or an empty string when the two
+ * only differ in line endings.
+ */
+export function createUnifiedDiff(
+  oldText: string,
+  newText: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  const hunks = createHunks(
+    diffLines(splitLines(oldText), splitLines(newText)),
+    options.context ?? 3
+  );
+
+  if (hunks.length === 0) {
+    return "";
+  }
+
+  const output = [
+    `--- ${options.oldLabel ?? "a"}`,
+    `+++ ${options.newLabel ?? "b"}`,
+  ];
+
+  for (const hunk of hunks) {
+    output.push(
+      `@@ -${formatRange(hunk.oldStart, hunk.oldLines)} +${formatRange(
+        hunk.newStart,
+        hunk.newLines
+      )} @@`
+    );
+    for (const line of hunk.lines) {
+      const prefix =
+        line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      output.push(prefix + line.text);
+    }
+  }
+
+  return output.join("\n") + "\n";
+}
+
+/** Colors a unified diff for the terminal */
+export function colorizeDiff(diff: string): string {
+  return diff
+    .trimEnd()
+    .split("\n")
+    .map((line) => {
+      if (line.startsWith("+++") || line.startsWith("---")) {
+        return chalk.bold(line);
+      }
+      if (line.startsWith("@@")) return chalk.cyan(line);
+      if (line.startsWith("+")) return chalk.green(line);
+      if (line.startsWith("-")) return chalk.red(line);
+      return chalk.gray(line);
+    })
+    .join("\n");
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              THREE-WAY MERGE                               */
+/* -------------------------------------------------------------------------- */
+
+/** For each base line, its index in `other`, or -1 when `other` dropped it */
+function matchBaseLines(base: string[], other: string[]): number[] {
+  const matches: number[] = [];
+  let otherIndex = 0;
+
+  for (const line of diffLines(base, other)) {
+    if (line.type === "context") {
+      matches.push(otherIndex++);
+    } else if (line.type === "remove") {
+      matches.push(-1);
+    } else {
+      otherIndex++;
+    }
+  }
+
+  return matches;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, index) => line === b[index]);
+}
+
+/**
+ * diff3-style merge of `local` and `upstream`, both edited from `base`.
+ * Base lines kept by both sides anchor the merge; between anchors a change
+ * on one side wins, identical changes are taken once, and anything else
+ * becomes a git-style conflict block.
+ */
+export function mergeThreeWay(
+  base: string,
+  local: string,
+  upstream: string,
+  options: ThreeWayMergeOptions = {}
+): ThreeWayMergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const upstreamLines = splitLines(upstream);
+  const localMatches = matchBaseLines(baseLines, localLines);
+  const upstreamMatches = matchBaseLines(baseLines, upstreamLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let l = 0;
+  let u = 0;
+
+  while (true) {
+    let anchor = b;
+    while (
+      anchor < baseLines.length &&
+      (localMatches[anchor] === -1 || upstreamMatches[anchor] === -1)
+    ) {
+      anchor++;
+    }
+
+    const atEnd = anchor === baseLines.length;
+    const localEnd = atEnd ? localLines.length : localMatches[anchor]!;
+    const upstreamEnd = atEnd ? upstreamLines.length : upstreamMatches[anchor]!;
+
+    const baseChunk = baseLines.slice(b, anchor);
+    const localChunk = localLines.slice(l, localEnd);
+    const upstreamChunk = upstreamLines.slice(u, upstreamEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      merged.push(...upstreamChunk);
+    } else if (
+      sameLines(upstreamChunk, baseChunk) ||
+      sameLines(localChunk, upstreamChunk)
+    ) {
+      merged.push(...localChunk);
+    } else {
+      conflicts++;
+      merged.push(
+        `<<<<<<< ${options.localLabel ?? "local"}`,
+        ...localChunk,
+        "=======",
+        ...upstreamChunk,
+        `>>>>>>> ${options.upstreamLabel ?? "upstream"}`
+      );
+    }
+
+    if (atEnd) break;
+
+    merged.push(baseLines[anchor]!);
+    b = anchor + 1;
+    l = localEnd + 1;
+    u = upstreamEnd + 1;
+  }
+
+  // Keep the project's line endings and trailing newline
+  const eol = local.includes("\r\n") ? "\r\n" : "\n";
+  const trailing = /\n$/.test(local || upstream) ? eol : "";
+
+  return {
+    text: merged.length ? merged.join(eol) + trailing : "",
+    conflicts,
+  };
+}
@@ -0,0 +1,112 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmdirSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { dirname } from "path";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface Transaction {
+  /** Content of `path` with the writes staged so far, null if absent */
+  read(path: string): string | null;
+  /** Stages a write, nothing touches the disk until `commit` */
+  write(path: string, content: string): void;
+  /** Backs up a file something outside the transaction is about to change */
+  protect(path: string): void;
+  /** Applies the staged writes, undoing them all if one fails */
+  commit(): void;
+  /**
+   * Drops staged writes and puts every written or protected file back the
+   * way it was, removing the directories `commit` created.
+   */
+  rollback(): void;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                TRANSACTION                                 */
+/* -------------------------------------------------------------------------- */
+
+export function createTransaction(): Transaction {
+  const staged = new Map<string, string>();
+  // Content before the transaction touched a path, null if it didn't exist
+  const originals = new Map<string, Buffer | null>();
+  const createdDirs: string[] = [];
+
+  const protect = (path: string) => {
+    if (!originals.has(path)) {
+      originals.set(path, existsSync(path) ? readFileSync(path) : null);
+    }
+  };
+
+  const ensureDirectory = (dir: string) => {
+    const missing: string[] = [];
+    for (let current = dir; !existsSync(current); current = dirname(current)) {
+      missing.unshift(current);
+    }
+
+    if (missing.length > 0) {
+      mkdirSync(dir, { recursive: true });
+      createdDirs.push(...missing);
+    }
+  };
+
+  const rollback = () => {
+    staged.clear();
+
+    for (const [path, content] of originals) {
+      if (content) {
+        writeFileSync(path, content);
+      } else {
+        rmSync(path, { force: true });
+      }
+    }
+
+    // Deepest first, and only what's empty once our files are gone
+    for (const dir of createdDirs.reverse()) {
+      if (existsSync(dir) && readdirSync(dir).length === 0) {
+        rmdirSync(dir);
+      }
+    }
+
+    originals.clear();
+    createdDirs.length = 0;
+  };
+
+  return {
+    read(path) {
+      const content = staged.get(path);
+      if (content !== undefined) return content;
+      return existsSync(path) ? readFileSync(path, "utf-8") : null;
+    },
+
+    write(path, content) {
+      staged.set(path, content);
+    },
+
+    protect,
+
+    commit() {
+      try {
+        for (const [path, content] of staged) {
+          protect(path);
+          ensureDirectory(dirname(path));
+          writeFileSync(path, content, "utf-8");
+        }
+      } catch (error) {
+        rollback();
+        throw error;
+      }
+
+      staged.clear();
+    },
+
+    rollback,
+  };
+}
@@ -0,0 +1,25 @@
+import { homedir } from "os";
+import { join } from "path";
+
+/**
+ * Per-user cache directory for ClipMotion, following platform conventions.
+ * `CLIPMOTION_CACHE_DIR` overrides it (useful for CI and tests).
+ */
+export function getUserCacheDir(): string {
+  if (process.env.CLIPMOTION_CACHE_DIR) {
+    return process.env.CLIPMOTION_CACHE_DIR;
+  }
+
+  if (process.platform === "win32") {
+    const base =
+      process.env.LOCALAPPDATA || join(homedir(), "AppData", "Local");
+    return join(base, "clipmotion", "Cache");
+  }
+
+  if (process.platform === "darwin") {
+    return join(homedir(), "Library", "Caches", "clipmotion");
+  }
+
+  const base = process.env.XDG_CACHE_HOME || join(homedir(), ".cache");
+  return join(base, "clipmotion");
+}
@@ -0,0 +1,485 @@
+import ts from "typescript";
+
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export interface UtilsDeclaration {
+  name: string;
+  exported: boolean;
+  /** Source text including leading comments */
+  text: string;
+  /** Identifiers used inside the declaration */
+  references: Set<string>;
+}
+
+export interface ImportBinding {
+  /** Name used in the file */
+  local: string;
+  /** `default`, `*` for namespace imports, or the imported name */
+  imported: string;
+  /** Module specifier without quotes */
+  module: string;
+  typeOnly: boolean;
+}
+
+export interface UtilsModule {
+  imports: ImportBinding[];
+  declarations: UtilsDeclaration[];
+}
+
+export interface UtilsMergeResult {
+  content: string;
+  /** Declarations appended to the existing file, helpers included */
+  added: string[];
+  /** Names that already exist with a different implementation */
+  conflicts: string[];
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   PARSING                                  */
+/* -------------------------------------------------------------------------- */
+
+function parseSource(content: string): ts.SourceFile {
+  return ts.createSourceFile(
+    "utils.tsx",
+    content,
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+}
+
+function hasExportModifier(node: ts.Node): boolean {
+  return (
+    ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node) ?? []).some(
+      (modifier) => modifier.kind === ts.SyntaxKind.ExportKeyword
+    )
+  );
+}
+
+function collectReferences(node: ts.Node): Set<string> {
+  const references = new Set<string>();
+  const visit = (child: ts.Node) => {
+    if (ts.isIdentifier(child)) references.add(child.text);
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return references;
+}
+
+/** Statement text starting at its first leading comment, so JSDoc moves with it */
+function statementText(statement: ts.Statement, source: ts.SourceFile): string {
+  const comments = ts.getLeadingCommentRanges(
+    source.text,
+    statement.getFullStart()
+  );
+  const start = comments?.[0]?.pos ?? statement.getStart(source);
+  return source.text.slice(start, statement.end);
+}
+
+function statementNames(statement: ts.Statement): string[] {
+  if (ts.isVariableStatement(statement)) {
+    return statement.declarationList.declarations.flatMap((declaration) =>
+      ts.isIdentifier(declaration.name) ? [declaration.name.text] : []
+    );
+  }
+
+  if (
+    (ts.isFunctionDeclaration(statement) ||
+      ts.isClassDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isEnumDeclaration(statement)) &&
+    statement.name
+  ) {
+    return [statement.name.text];
+  }
+
+  return [];
+}
+
+function importBindings(statement: ts.ImportDeclaration): ImportBinding[] {
+  const clause = statement.importClause;
+  if (!clause || !ts.isStringLiteral(statement.moduleSpecifier)) return [];
+
+  const module = statement.moduleSpecifier.text;
+  const bindings: ImportBinding[] = [];
+
+  if (clause.name) {
+    bindings.push({
+      local: clause.name.text,
+      imported: "default",
+      module,
+      typeOnly: clause.isTypeOnly,
+    });
+  }
+
+  const named = clause.namedBindings;
+  if (named && ts.isNamespaceImport(named)) {
+    bindings.push({
+      local: named.name.text,
+      imported: "*",
+      module,
+      typeOnly: clause.isTypeOnly,
+    });
+  } else if (named) {
+    for (const element of named.elements) {
+      bindings.push({
+        local: element.name.text,
+        imported: (element.propertyName ?? element.name).text,
+        module,
+        typeOnly: clause.isTypeOnly || element.isTypeOnly,
+      });
+    }
+  }
+
+  return bindings;
+}
+
+/** Top-level imports and declarations of a utils file */
+export function parseUtilsModule(content: string): UtilsModule {
+  const source = parseSource(content);
+  const imports: ImportBinding[] = [];
+  const declarations: UtilsDeclaration[] = [];
+  const exportedNames = new Set<string>();
+
+  for (const statement of source.statements) {
+    if (ts.isImportDeclaration(statement)) {
+      imports.push(...importBindings(statement));
+      continue;
+    }
+
+    // `export { a, b }` lists at the bottom of the file
+    if (
+      ts.isExportDeclaration(statement) &&
+      !statement.moduleSpecifier &&
+      statement.exportClause &&
+      ts.isNamedExports(statement.exportClause)
+    ) {
+      statement.exportClause.elements.forEach((element) =>
+        exportedNames.add((element.propertyName ?? element.name).text)
+      );
+      continue;
+    }
+
+    const text = statementText(statement, source);
+
+    for (const name of statementNames(statement)) {
+      declarations.push({
+        name,
+        exported: hasExportModifier(statement),
+        text,
+        references: collectReferences(statement),
+      });
+    }
+  }
+
+  return {
+    imports,
+    declarations: declarations.map((declaration) =>
+      exportedNames.has(declaration.name)
+        ? { ...declaration, exported: true }
+        : declaration
+    ),
+  };
+}
+
+/** Names declared at the top level: functions, constants, classes and types */
+export function getDeclarationNames(content: string): string[] {
+  return [
+    ...new Set(
+      parseUtilsModule(content).declarations.map(
+        (declaration) => declaration.name
+      )
+    ),
+  ];
+}
+
+/** Full source of a top-level declaration, including its doc comment */
+export function getDeclarationCode(
+  content: string,
+  name: string
+): string | null {
+  return (
+    parseUtilsModule(content).declarations.find(
+      (declaration) => declaration.name === name
+    )?.text ?? null
+  );
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                  IMPORTS                                   */
+/* -------------------------------------------------------------------------- */
+
+function renderSpecifier(binding: ImportBinding, typePrefix: boolean): string {
+  const name =
+    binding.imported === binding.local
+      ? binding.local
+      : `${binding.imported} as ${binding.local}`;
+  return typePrefix && binding.typeOnly ? `type ${name}` : name;
+}
+
+function renderImport(
+  module: string,
+  bindings: ImportBinding[],
+  quote: string
+): string {
+  const from = `${quote}${module}${quote}`;
+  const namespace = bindings.find((binding) => binding.imported === "*");
+  const defaultBinding = bindings.find(
+    (binding) => binding.imported === "default"
+  );
+  const named = bindings.filter(
+    (binding) => binding.imported !== "*" && binding.imported !== "default"
+  );
+  const typeOnly = bindings.every((binding) => binding.typeOnly);
+
+  const parts: string[] = [];
+  if (defaultBinding) parts.push(defaultBinding.local);
+  if (namespace) parts.push(`* as ${namespace.local}`);
+  if (named.length > 0) {
+    parts.push(
+      `{ ${named.map((binding) => renderSpecifier(binding, !typeOnly)).join(", ")} }`
+    );
+  }
+
+  return `import ${typeOnly ? "type " : ""}${parts.join(", ")} from ${from};`;
+}
+
+/**
+ * Adds `bindings` to the file's imports: into an existing import of the same
+ * module when the syntax allows it, otherwise as a new import after the last
+ * one. Names the file already imports are left alone.
+ */
+function addImports(content: string, bindings: ImportBinding[]): string {
+  if (bindings.length === 0) return content;
+
+  const source = parseSource(content);
+  const importStatements = source.statements.filter(ts.isImportDeclaration);
+  const quote = importStatements[0]?.moduleSpecifier.getText(source)[0] ?? '"';
+
+  const edits: { start: number; end: number; text: string }[] = [];
+  const newImports: string[] = [];
+
+  const byModule = new Map<string, ImportBinding[]>();
+  for (const binding of bindings) {
+    byModule.set(binding.module, [
+      ...(byModule.get(binding.module) ?? []),
+      binding,
+    ]);
+  }
+
+  for (const [module, moduleBindings] of byModule) {
+    const isNamespace = moduleBindings.some((b) => b.imported === "*");
+    const target = importStatements.find((statement) => {
+      const clause = statement.importClause;
+      return (
+        ts.isStringLiteral(statement.moduleSpecifier) &&
+        statement.moduleSpecifier.text === module &&
+        clause &&
+        !isNamespace &&
+        !(clause.namedBindings && ts.isNamespaceImport(clause.namedBindings)) &&
+        // Only one default import per statement
+        !(clause.name && moduleBindings.some((b) => b.imported === "default"))
+      );
+    });
+
+    if (!target) {
+      newImports.push(renderImport(module, moduleBindings, quote));
+      continue;
+    }
+
+    // Rendering again turns `import type` into inline `type` specifiers when
+    // a value import joins it
+    edits.push({
+      start: target.getStart(source),
+      end: target.end,
+      text: renderImport(
+        module,
+        [...importBindings(target), ...moduleBindings],
+        target.moduleSpecifier.getText(source)[0] ?? quote
+      ),
+    });
+  }
+
+  let result = content;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  if (newImports.length === 0) return result;
+
+  const lastImport = parseSource(result)
+    .statements.filter(ts.isImportDeclaration)
+    .pop();
+  if (lastImport) {
+    return (
+      result.slice(0, lastImport.end) +
+      "\n" +
+      newImports.join("\n") +
+      result.slice(lastImport.end)
+    );
+  }
+
+  return `${newImports.join("\n")}\n\n${result.replace(/^\s+/, "")}`;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                   MERGING                                  */
+/* -------------------------------------------------------------------------- */
+
+/** Compares declarations ignoring formatting and comments */
+function sameImplementation(a: string, b: string): boolean {
+  const printer = ts.createPrinter({ removeComments: true });
+  const print = (text: string) => {
+    const source = parseSource(text);
+    return printer.printFile(source);
+  };
+  return print(a) === print(b);
+}
+
+/**
+ * Merges the registry's utils file into the project's. Exports the project
+ * lacks are appended together with the private helpers and import specifiers
+ * they use; same-named exports are kept as they are and reported when their
+ * implementation differs.
+ */
+export function mergeUtilsContent(
+  existing: string,
+  incoming: string
+): UtilsMergeResult {
+  const current = parseUtilsModule(existing);
+  const next = parseUtilsModule(incoming);
+
+  const taken = new Set([
+    ...current.declarations.map((declaration) => declaration.name),
+    ...current.imports.map((binding) => binding.local),
+  ]);
+
+  const conflicts = [
+    ...new Set(
+      next.declarations
+        .filter((declaration) => declaration.exported)
+        .filter((declaration) => {
+          const mine = current.declarations.find(
+            (candidate) => candidate.name === declaration.name
+          );
+          return mine && !sameImplementation(mine.text, declaration.text);
+        })
+        .map((declaration) => declaration.name)
+    ),
+  ];
+
+  // Missing exports, plus the private helpers they depend on
+  const needed = new Set(
+    next.declarations
+      .filter((declaration) => declaration.exported)
+      .filter((declaration) => !taken.has(declaration.name))
+      .map((declaration) => declaration.name)
+  );
+  const queue = [...needed];
+  while (queue.length > 0) {
+    const name = queue.pop()!;
+    for (const declaration of next.declarations) {
+      if (declaration.name !== name) continue;
+      for (const reference of declaration.references) {
+        const helper = next.declarations.some(
+          (candidate) => candidate.name === reference
+        );
+        if (helper && !taken.has(reference) && !needed.has(reference)) {
+          needed.add(reference);
+          queue.push(reference);
+        }
+      }
+    }
+  }
+
+  if (needed.size === 0) {
+    return { content: existing, added: [], conflicts };
+  }
+
+  const toAdd = next.declarations.filter((declaration) =>
+    needed.has(declaration.name)
+  );
+  const references = new Set(
+    toAdd.flatMap((declaration) => [...declaration.references])
+  );
+  const imports = next.imports.filter(
+    (binding) => references.has(binding.local) && !taken.has(binding.local)
+  );
+
+  // Variable statements declaring several names appear once
+  const texts = [...new Set(toAdd.map((declaration) => declaration.text))];
+  const withImports = addImports(existing, imports);
+  const content = withImports.trim()
+    ? `${withImports.trimEnd()}\n\n${texts.join("\n\n")}\n`
+    : `${texts.join("\n\n")}\n`;
+
+  return {
+    content,
+    added: [...new Set(toAdd.map((declaration) => declaration.name))],
+    conflicts,
+  };
+}
+
+/**
+ * Removes top-level declarations, then drops import specifiers that only
+ * they used. Returns an empty string when nothing but imports would remain.
+ */
+export function removeDeclarations(content: string, names: string[]): string {
+  const targets = new Set(names);
+  const before = parseUtilsModule(content);
+  const removed = before.declarations.filter((declaration) =>
+    targets.has(declaration.name)
+  );
+
+  let result = content;
+  for (const text of new Set(removed.map((declaration) => declaration.text))) {
+    result = result.replace(text, "");
+  }
+
+  // Imports the removed code used that nothing left refers to
+  const source = parseSource(result);
+  const stillUsed = new Set<string>();
+  for (const statement of source.statements) {
+    if (!ts.isImportDeclaration(statement)) {
+      collectReferences(statement).forEach((name) => stillUsed.add(name));
+    }
+  }
+  const unused = new Set(
+    removed
+      .flatMap((declaration) => [...declaration.references])
+      .filter((name) => !stillUsed.has(name))
+  );
+
+  const edits: { start: number; end: number; text: string }[] = [];
+  for (const statement of source.statements.filter(ts.isImportDeclaration)) {
+    const bindings = importBindings(statement);
+    const kept = bindings.filter((binding) => !unused.has(binding.local));
+    if (kept.length === bindings.length || !statement.importClause) continue;
+
+    edits.push({
+      start: statement.getStart(source),
+      end: statement.end,
+      text: kept.length
+        ? renderImport(
+            kept[0]!.module,
+            kept,
+            statement.moduleSpecifier.getText(source)[0] ?? '"'
+          )
+        : "",
+    });
+  }
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+  }
+
+  const remaining = parseSource(result).statements.filter(
+    (statement) => !ts.isImportDeclaration(statement)
+  );
+  if (remaining.length === 0) return "";
+
+  return result.replace(/\n{3,}/g, "\n\n").trim() + "\n";
+}
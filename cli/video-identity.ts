@@ -0,0 +1,201 @@
+/* -------------------------------------------------------------------------- */
+/*                                   TYPES                                    */
+/* -------------------------------------------------------------------------- */
+
+export type VideoPlatform = "youtube" | "instagram" | "tiktok";
+
+export interface VideoIdentity {
+  platform: VideoPlatform;
+  id: string;
+  /**
+   * Share links (vm.tiktok.com/XYZ, instagram.com/share/...) carry a code
+   * that only maps to the real video id after following a redirect.
+   */
+  shortLink?: boolean;
+}
+
+type PathMatcher = (segments: string[], url: URL) => VideoIdentity | null;
+
+/* -------------------------------------------------------------------------- */
+/*                                 CONSTANTS                                  */
+/* -------------------------------------------------------------------------- */
+
+// Sub-domains that point at the same content as the bare domain
+const HOST_PREFIXES = ["www.", "m.", "mobile.", "music."];
+
+const ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const YOUTUBE_HOSTS = ["youtube.com", "youtube-nocookie.com"];
+const YOUTUBE_PATH_PREFIXES = ["shorts", "embed", "v", "e", "live"];
+
+const INSTAGRAM_HOSTS = ["instagram.com", "instagr.am"];
+const INSTAGRAM_POST_TYPES = ["p", "reel", "reels", "tv"];
+
+const TIKTOK_HOSTS = ["tiktok.com"];
+const TIKTOK_SHORT_HOSTS = ["vm.tiktok.com", "vt.tiktok.com"];
+
+/* -------------------------------------------------------------------------- */
+/*                                   UTILS                                    */
+/* -------------------------------------------------------------------------- */
+
+function toUrl(input: string): URL | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+
+  // Links copied from share sheets sometimes lose their scheme
+  const withScheme = /^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+
+  try {
+    const url = new URL(withScheme);
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+function stripHostPrefixes(hostname: string): string {
+  let host = hostname.toLowerCase();
+  for (const prefix of HOST_PREFIXES) {
+    if (host.startsWith(prefix)) {
+      host = host.slice(prefix.length);
+    }
+  }
+  return host;
+}
+
+function getSegments(url: URL): string[] {
+  return url.pathname.split("/").filter(Boolean);
+}
+
+function toIdentity(
+  platform: VideoPlatform,
+  id: string | undefined | null,
+  shortLink: boolean = false
+): VideoIdentity | null {
+  if (!id || !ID_PATTERN.test(id)) return null;
+  return shortLink ? { platform, id, shortLink } : { platform, id };
+}
+
+/* -------------------------------------------------------------------------- */
+/*                              PLATFORM MATCHERS                             */
+/* -------------------------------------------------------------------------- */
+
+const matchYoutube: PathMatcher = (segments, url) => {
+  // youtube.com/watch?v=ID
+  if (segments[0] === "watch") {
+    return toIdentity("youtube", url.searchParams.get("v"));
+  }
+
+  // youtube.com/shorts/ID, /embed/ID, /live/ID, ...
+  if (segments[0] && YOUTUBE_PATH_PREFIXES.includes(segments[0])) {
+    return toIdentity("youtube", segments[1]);
+  }
+
+  return null;
+};
+
+const matchYoutubeShort: PathMatcher = (segments) =>
+  // youtu.be/ID is a plain alias, not a redirect-only share code
+  toIdentity("youtube", segments[0]);
+
+const matchInstagram: PathMatcher = (segments) => {
+  // instagram.com/share/CODE, /share/reel/CODE, /share/p/CODE
+  if (segments[0] === "share") {
+    const code =
+      segments[1] && INSTAGRAM_POST_TYPES.includes(segments[1])
+        ? segments[2]
+        : segments[1];
+    return toIdentity("instagram", code, true);
+  }
+
+  // instagram.com/p/ID, /reel/ID, /reels/ID, /tv/ID
+  if (segments[0] && INSTAGRAM_POST_TYPES.includes(segments[0])) {
+    return toIdentity("instagram", segments[1]);
+  }
+
+  // instagram.com/<username>/p/ID, /<username>/reel/ID
+  if (segments[1] && INSTAGRAM_POST_TYPES.includes(segments[1])) {
+    return toIdentity("instagram", segments[2]);
+  }
+
+  return null;
+};
+
+const matchTiktok: PathMatcher = (segments) => {
+  // tiktok.com/@user/video/ID, /@user/photo/ID
+  if (
+    segments[0]?.startsWith("@") &&
+    (segments[1] === "video" || segments[1] === "photo")
+  ) {
+    return toIdentity("tiktok", segments[2]);
+  }
+
+  // tiktok.com/t/CODE share links
+  if (segments[0] === "t") {
+    return toIdentity("tiktok", segments[1], true);
+  }
+
+  // m.tiktok.com/v/ID.html, tiktok.com/embed/ID, /embed/v2/ID, /video/ID
+  if (segments[0] === "v" || segments[0] === "video") {
+    return toIdentity("tiktok", segments[1]?.replace(/\.html$/, ""));
+  }
+
+  if (segments[0] === "embed") {
+    const id = segments[1] === "v2" ? segments[2] : segments[1];
+    return toIdentity("tiktok", id);
+  }
+
+  return null;
+};
+
+const matchTiktokShort: PathMatcher = (segments) =>
+  toIdentity("tiktok", segments[0], true);
+
+function getMatcher(hostname: string): PathMatcher | null {
+  const raw = hostname.toLowerCase().replace(/^www\./, "");
+
+  // Short-link hosts must be checked before prefixes are stripped
+  if (TIKTOK_SHORT_HOSTS.includes(raw)) return matchTiktokShort;
+
+  const host = stripHostPrefixes(hostname);
+
+  if (host === "youtu.be") return matchYoutubeShort;
+  if (YOUTUBE_HOSTS.includes(host)) return matchYoutube;
+  if (INSTAGRAM_HOSTS.includes(host)) return matchInstagram;
+  if (TIKTOK_HOSTS.includes(host)) return matchTiktok;
+
+  return null;
+}
+
+/* -------------------------------------------------------------------------- */
+/*                                 PUBLIC API                                 */
+/* -------------------------------------------------------------------------- */
+
+/**
+ * Turns any supported platform URL into its canonical `{ platform, id }`.
+ * Returns `null` for unsupported platforms or URLs without a video id.
+ */
+export function parseVideoUrl(input: string): VideoIdentity | null {
+  const url = toUrl(input);
+  if (!url) return null;
+
+  const matcher = getMatcher(url.hostname);
+  if (!matcher) return null;
+
+  return matcher(getSegments(url), url);
+}
+
+/** Stable string key used to compare identities, e.g. `youtube:dQw4w9WgXcQ` */
+export function getVideoKey(identity: VideoIdentity): string {
+  return identity.shortLink
+    ? `${identity.platform}:short:${identity.id}`
+    : `${identity.platform}:${identity.id}`;
+}
+
+/** Shorthand for `getVideoKey(parseVideoUrl(url))` */
+export function toVideoKey(input: string): string | null {
+  const parsed = parseVideoUrl(input);
+  return parsed ? getVideoKey(parsed) : null;
+}
@@ -1,8 +1,9 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { mkdir, readFile, rm, writeFile } from "fs/promises";
 import { existsSync } from "fs";
+import { createHash } from "crypto";
 import { tmpdir } from "os";
-import { join } from "path";
+import { dirname, join } from "path";
 import { addComponent } from "../../cli/commands/add";
 
 // Mock external dependencies
@@ -16,6 +17,11 @@ vi.mock("ora", () => ({
   })),
 }));
 
+vi.mock("@clack/prompts", () => ({
+  text: vi.fn(),
+  multiselect: vi.fn(),
+}));
+
 vi.mock("execa", () => ({
   execa: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
 }));
@@ -23,6 +29,8 @@ vi.mock("execa", () => ({
 // Mock fetch for registry
 global.fetch = vi.fn();
 
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
 describe("clipmotion add", () => {
   let projectDir: string;
   let mockComponent: any;
@@ -68,11 +76,9 @@ describe("clipmotion add", () => {
     };
 
     // Setup fetch mock
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      status: 200,
-      json: async () => mockComponent,
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(mockComponent)
+    );
   });
 
   afterEach(async () => {
@@ -107,12 +113,12 @@ describe("clipmotion add", () => {
 
     (global.fetch as any).mockImplementation(async (url: string) => {
       if (url.includes("test-component")) {
-        return { ok: true, json: async () => mockComponent };
+        return jsonResponse(mockComponent);
       }
       if (url.includes("button")) {
-        return { ok: true, json: async () => component2 };
+        return jsonResponse(component2);
       }
-      return { ok: false, status: 404 };
+      return new Response(null, { status: 404 });
     });
 
     await addComponent(["test-component", "button"], {
@@ -179,12 +185,12 @@ describe("clipmotion add", () => {
 
     (global.fetch as any).mockImplementation(async (url: string) => {
       if (url.includes("test-component")) {
-        return { ok: true, json: async () => mockComponent };
+        return jsonResponse(mockComponent);
       }
       if (url.includes("cn")) {
-        return { ok: true, json: async () => utilsComponent };
+        return jsonResponse(utilsComponent);
       }
-      return { ok: false, status: 404 };
+      return new Response(null, { status: 404 });
     });
 
     await addComponent(["test-component"], {
@@ -257,10 +263,9 @@ export function twMerge(a: string, b: string) { return a + b; }`,
       registryDependencies: [],
     };
 
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      json: async () => utilsComponent,
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(utilsComponent)
+    );
 
     const utilsPath = join(projectDir, "components/utils", "index.ts");
 
@@ -297,16 +302,15 @@ export function twMerge(a: string, b: string) { return a + b; }`,
     });
 
     expect(global.fetch).toHaveBeenCalledWith(
-      expect.stringContaining("/nextjs/test-component.json")
+      expect.stringContaining("/nextjs/test-component.json"),
+      expect.anything()
     );
   });
 
   it("handles component not found error", async () => {
-    (global.fetch as any).mockResolvedValue({
-      ok: false,
-      status: 404,
-      statusText: "Not Found",
-    });
+    (global.fetch as any).mockImplementation(
+      async () => new Response(null, { status: 404, statusText: "Not Found" })
+    );
 
     // Should not throw, but exit with code 1
     await expect(
@@ -317,22 +321,49 @@ export function twMerge(a: string, b: string) { return a + b; }`,
     ).rejects.toThrow();
   });
 
-  it("suggests alternative frameworks when component not found", async () => {
-    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+  it("installs from the cache with --offline", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const componentPath = join(projectDir, "components", "TestComponent.tsx");
 
-    (global.fetch as any).mockImplementation(
-      async (url: string, options?: { method?: string }) => {
-        if (url.includes("/react/")) {
-          return { ok: false, status: 404 };
-        }
+    // Never fetched, so there's nothing to install from
+    await expect(
+      addComponent(["test-component"], {
+        cwd: projectDir,
+        silent: true,
+        offline: true,
+      })
+    ).rejects.toThrow();
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("is not cached yet")
+    );
+
+    await addComponent(["test-component"], { cwd: projectDir, silent: true });
+    await rm(componentPath);
+    vi.mocked(global.fetch).mockClear();
+
+    await addComponent(["test-component"], {
+      cwd: projectDir,
+      silent: true,
+      offline: true,
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(await readFile(componentPath, "utf8")).toContain("TestComponent");
+    errorSpy.mockRestore();
+  });
 
-        if (url.includes("/nextjs/") && options?.method === "HEAD") {
-          return { ok: true };
-        }
+  it("suggests alternative frameworks when component not found", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => {});
 
-        return { ok: false, status: 404 };
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      if (url.endsWith("/index.json")) {
+        const animations = [{ id: "test-component", libraries: ["nextjs"] }];
+        return jsonResponse({ animations });
       }
-    );
+
+      return new Response(null, { status: 404 });
+    });
 
     await addComponent(["test-component"], {
       cwd: projectDir,
@@ -342,6 +373,9 @@ export function twMerge(a: string, b: string) { return a + b; }`,
     expect(consoleSpy).toHaveBeenCalledWith(
       expect.stringContaining("available for")
     );
+    expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining("nextjs"));
+    // One index request answers for every framework
+    expect(global.fetch).toHaveBeenCalledTimes(2);
 
     consoleSpy.mockRestore();
   });
@@ -409,6 +443,129 @@ export function twMerge(a: string, b: string) { return a + b; }`,
     // Verify it didn't try to fetch from network
     // (would need more sophisticated mocking for full test)
   });
+
+  it("installs from a registry directory set as registry.baseUrl", async () => {
+    await mkdir(join(projectDir, "registry", "react"), { recursive: true });
+    await writeFile(
+      join(projectDir, "registry", "react", "test-component.json"),
+      JSON.stringify(mockComponent)
+    );
+    const configPath = join(projectDir, "clipmotion-components.json");
+    const config = JSON.parse(await readFile(configPath, "utf8"));
+    await writeFile(
+      configPath,
+      JSON.stringify({ ...config, registry: { baseUrl: "./registry" } })
+    );
+
+    await addComponent(["test-component"], { cwd: projectDir, silent: true });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(
+      existsSync(join(projectDir, "components", "TestComponent.tsx"))
+    ).toBe(true);
+    const lock = JSON.parse(
+      await readFile(join(projectDir, "clipmotion-lock.json"), "utf8")
+    );
+    expect(lock.components["test-component"].registry).toBe("./registry");
+  });
+
+  it("points registry imports at the project's path aliases", async () => {
+    await writeFile(
+      join(projectDir, "tsconfig.json"),
+      JSON.stringify({ compilerOptions: { paths: { "~/*": ["./src/*"] } } })
+    );
+    const configPath = join(projectDir, "clipmotion-components.json");
+    const config = JSON.parse(await readFile(configPath, "utf8"));
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        ...config,
+        aliases: { components: "src/components", utils: "lib/utils" },
+      })
+    );
+    mockComponent.files[0].content = [
+      'import { cn } from "@/components/utils";',
+      'import { Fade } from "@/components/fade";',
+    ].join("\n");
+
+    await addComponent(["test-component"], { cwd: projectDir, silent: true });
+
+    const content = await readFile(
+      join(projectDir, "src", "components", "TestComponent.tsx"),
+      "utf8"
+    );
+    expect(content).toBe(
+      [
+        'import { cn } from "../../lib/utils";',
+        'import { Fade } from "~/components/fade";',
+      ].join("\n")
+    );
+  });
+
+  it("warns about peer dependencies the project doesn't have", async () => {
+    await writeFile(
+      join(projectDir, "package.json"),
+      JSON.stringify({ dependencies: { react: "^19.0.0" } })
+    );
+    mockComponent.peerDependencies = ["react", "motion@^12"];
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await addComponent(["test-component"], { cwd: projectDir, silent: true });
+
+    expect(logSpy).toHaveBeenCalledWith(
+      expect.stringContaining("test-component expects motion@^12")
+    );
+    expect(logSpy).not.toHaveBeenCalledWith(
+      expect.stringContaining("expects react")
+    );
+    logSpy.mockRestore();
+  });
+
+  it("places each file of a multi-file item under its own alias", async () => {
+    const configPath = join(projectDir, "clipmotion-components.json");
+    const config = JSON.parse(await readFile(configPath, "utf8"));
+    await writeFile(
+      configPath,
+      JSON.stringify({
+        ...config,
+        aliases: { ...config.aliases, hooks: "hooks", styles: "styles" },
+      })
+    );
+    mockComponent.files = [
+      {
+        name: "glow.tsx",
+        content: [
+          'import { useGlow } from "@/hooks/use-glow";',
+          'import styles from "@/styles/glow.module.css";',
+          'import noise from "@/assets/shaders/noise.glsl";',
+        ].join("\n"),
+        type: "registry:component",
+      },
+      { name: "use-glow.ts", content: "", type: "registry:hook" },
+      { name: "glow.module.css", content: "", type: "registry:style" },
+      { name: "shaders/noise.glsl", content: "", type: "registry:asset" },
+    ];
+
+    await addComponent(["test-component"], { cwd: projectDir, silent: true });
+
+    expect(existsSync(join(projectDir, "hooks", "use-glow.ts"))).toBe(true);
+    expect(existsSync(join(projectDir, "styles", "glow.module.css"))).toBe(
+      true
+    );
+    // No assets alias, so assets stay next to the component
+    expect(
+      existsSync(join(projectDir, "components", "shaders", "noise.glsl"))
+    ).toBe(true);
+    expect(
+      await readFile(join(projectDir, "components", "glow.tsx"), "utf8")
+    ).toBe(
+      [
+        'import { useGlow } from "../hooks/use-glow";',
+        'import styles from "../styles/glow.module.css";',
+        'import noise from "./shaders/noise.glsl";',
+      ].join("\n")
+    );
+  });
 });
 
 describe("utils file merging", () => {
@@ -449,10 +606,9 @@ describe("utils file merging", () => {
       registryDependencies: [],
     };
 
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      json: async () => utilsComponent,
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(utilsComponent)
+    );
 
     await addComponent(["cn"], {
       cwd: projectDir,
@@ -485,10 +641,9 @@ describe("utils file merging", () => {
       registryDependencies: [],
     };
 
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      json: async () => utilsComponent,
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(utilsComponent)
+    );
 
     await addComponent(["cn"], {
       cwd: projectDir,
@@ -520,10 +675,9 @@ describe("utils file merging", () => {
       registryDependencies: [],
     };
 
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      json: async () => utilsComponent,
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(utilsComponent)
+    );
 
     await addComponent(["cn"], {
       cwd: projectDir,
@@ -533,4 +687,897 @@ describe("utils file merging", () => {
     const content = await readFile(utilsPath, "utf8");
     expect(content).toBe(originalContent); // Unchanged
   });
+
+  it("brings the imports merged functions need", async () => {
+    const utilsPath = join(projectDir, "components/utils", "index.ts");
+    await mkdir(join(projectDir, "components/utils"), { recursive: true });
+    await writeFile(
+      utilsPath,
+      'import { clsx } from "clsx";\n\nexport const join = (...p: string[]) => clsx(p);\n'
+    );
+
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({
+        name: "cn",
+        type: "registry:lib",
+        files: [
+          {
+            name: "index.ts",
+            content: `import { clsx, type ClassValue } from "clsx";
+import { twMerge } from "tailwind-merge";
+
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}`,
+          },
+        ],
+        dependencies: ["clsx", "tailwind-merge"],
+        devDependencies: [],
+        registryDependencies: [],
+      })
+    );
+
+    await addComponent(["cn"], { cwd: projectDir, silent: true });
+
+    const content = await readFile(utilsPath, "utf8");
+    expect(content).toContain('import { clsx, type ClassValue } from "clsx";');
+    expect(content).toContain('import { twMerge } from "tailwind-merge";');
+    expect(content).toContain("export function cn(");
+  });
+
+  it("warns when an existing function differs from the registry", async () => {
+    const consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const utilsPath = join(projectDir, "components/utils", "index.ts");
+    await mkdir(join(projectDir, "components/utils"), { recursive: true });
+    await writeFile(utilsPath, 'export function cn() { return "mine"; }');
+
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({
+        name: "cn",
+        type: "registry:lib",
+        files: [
+          {
+            name: "index.ts",
+            content: 'export function cn() { return "new"; }',
+          },
+        ],
+        dependencies: [],
+        devDependencies: [],
+        registryDependencies: [],
+      })
+    );
+
+    await addComponent(["cn"], { cwd: projectDir, silent: true });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining(
+        "cn in components/utils/index.ts differs from the registry version"
+      )
+    );
+    consoleLogSpy.mockRestore();
+  });
+});
+
+describe("lockfile", () => {
+  let projectDir: string;
+
+  const readLock = async () =>
+    JSON.parse(
+      await readFile(join(projectDir, "clipmotion-lock.json"), "utf8")
+    );
+
+  const mockRegistry = (components: Record<string, unknown>) => {
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      const component = components[name];
+      return component
+        ? jsonResponse(component)
+        : new Response(null, { status: 404 });
+    });
+  };
+
+  const card = {
+    name: "card",
+    type: "registry:component",
+    files: [{ name: "card.tsx", content: "export const Card = () => null;\n" }],
+    dependencies: ["motion", "react"],
+    devDependencies: ["@types/react"],
+    registryDependencies: ["utils"],
+  };
+
+  const utils = {
+    name: "utils",
+    type: "registry:lib",
+    files: [
+      {
+        name: "utils/index.ts",
+        content: `export function cn(a: string) { return a; }
+export function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }`,
+      },
+    ],
+    dependencies: [],
+    devDependencies: [],
+    registryDependencies: [],
+  };
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-lock-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+
+    await writeFile(
+      join(projectDir, "package.json"),
+      JSON.stringify({ dependencies: { react: "^19.0.0" } })
+    );
+
+    mockRegistry({ card, utils });
+  });
+
+  afterEach(async () => {
+    await rm(projectDir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  it("records every installed item with file hashes", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    const lock = await readLock();
+    expect(lock.version).toBe(1);
+    expect(Object.keys(lock.components)).toEqual(["card", "utils"]);
+
+    const entry = lock.components.card;
+    expect(entry).toEqual(
+      expect.objectContaining({
+        name: "card",
+        framework: "react",
+        registry: "https://example.com/registry",
+        type: "registry:component",
+        dependencies: ["motion", "react"],
+        devDependencies: ["@types/react"],
+        registryDependencies: ["utils"],
+      })
+    );
+    expect(new Date(entry.installedAt).toString()).not.toBe("Invalid Date");
+
+    const hash = `sha256-${createHash("sha256")
+      .update(card.files[0]!.content)
+      .digest("hex")}`;
+    expect(entry.files).toEqual([
+      {
+        path: "components/card.tsx",
+        hash,
+        registryHash: hash,
+        action: "created",
+      },
+    ]);
+
+    expect(lock.components.utils.files[0].path).toBe(
+      "components/utils/index.ts"
+    );
+  });
+
+  it("stores installed registry content as the merge base", async () => {
+    await mkdir(join(projectDir, "components", "utils"), { recursive: true });
+    await writeFile(
+      join(projectDir, "components", "utils", "index.ts"),
+      utils.files[0]!.content
+    );
+
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    const lock = await readLock();
+    const objectPath = (hash: string) =>
+      join(projectDir, ".clipmotion", "objects", hash.replace("sha256-", ""));
+
+    const [cardFile] = lock.components.card.files;
+    expect(await readFile(objectPath(cardFile.registryHash), "utf-8")).toBe(
+      card.files[0]!.content
+    );
+
+    // Already-present files weren't installed from the registry
+    const [utilsFile] = lock.components.utils.files;
+    expect(utilsFile.action).toBe("skipped");
+    expect(existsSync(objectPath(utilsFile.registryHash))).toBe(false);
+  });
+
+  it("only counts packages missing from package.json as added", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    const lock = await readLock();
+    expect(lock.components.card.addedDependencies).toEqual([
+      "motion",
+      "@types/react",
+    ]);
+    expect(lock.components.utils.addedDependencies).toEqual([]);
+  });
+
+  it("tells components added by name from registry dependencies", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+    expect((await readLock()).components.utils.direct).toBe(false);
+
+    await addComponent(["utils"], { cwd: projectDir, silent: true });
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    const lock = await readLock();
+    expect(lock.components.card.direct).toBe(true);
+    expect(lock.components.utils.direct).toBe(true);
+  });
+
+  it("records functions merged into an existing utils file", async () => {
+    const utilsPath = join(projectDir, "components", "utils", "index.ts");
+    await mkdir(dirname(utilsPath), { recursive: true });
+    await writeFile(utilsPath, "export function cn(a: string) { return a; }");
+
+    await addComponent(["utils"], { cwd: projectDir, silent: true });
+
+    const [file] = (await readLock()).components.utils.files;
+    expect(file.action).toBe("merged");
+    expect(file.exports).toEqual(["lerp"]);
+    // The merged file differs from what the registry shipped
+    expect(file.hash).not.toBe(file.registryHash);
+  });
+
+  it("keeps the original record when a re-install skips existing files", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+    const first = await readLock();
+
+    // The user edits the component, then runs add again
+    await writeFile(join(projectDir, "components", "card.tsx"), "// edited");
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    const second = await readLock();
+    expect(second.components.card.files).toEqual(first.components.card.files);
+    expect(second.components.card.addedDependencies).toEqual(
+      first.components.card.addedDependencies
+    );
+  });
+
+  it("marks files replaced with --overwrite", async () => {
+    await mkdir(join(projectDir, "components"), { recursive: true });
+    await writeFile(join(projectDir, "components", "card.tsx"), "// mine");
+
+    await addComponent(["card"], {
+      cwd: projectDir,
+      silent: true,
+      overwrite: true,
+    });
+
+    expect((await readLock()).components.card.files[0].action).toBe(
+      "overwritten"
+    );
+  });
+
+  it("does not write a lockfile when nothing installs", async () => {
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("process.exit");
+    }) as any);
+
+    await expect(
+      addComponent(["missing"], { cwd: projectDir, silent: true })
+    ).rejects.toThrow("process.exit");
+
+    expect(existsSync(join(projectDir, "clipmotion-lock.json"))).toBe(false);
+    exitSpy.mockRestore();
+  });
+
+  it("refuses to continue with a corrupt lockfile", async () => {
+    await writeFile(join(projectDir, "clipmotion-lock.json"), "{oops");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation((() => {
+      throw new Error("process.exit");
+    }) as any);
+
+    await expect(
+      addComponent(["card"], { cwd: projectDir, silent: true })
+    ).rejects.toThrow("process.exit");
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to parse clipmotion-lock.json")
+    );
+    expect(existsSync(join(projectDir, "components", "card.tsx"))).toBe(false);
+
+    exitSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+});
+
+describe("dry run", () => {
+  let projectDir: string;
+  let consoleLogSpy: any;
+
+  const output = () =>
+    consoleLogSpy.mock.calls
+      .map((call: unknown[]) => call.join(" "))
+      .join("\n");
+
+  const utilsPath = () => join(projectDir, "components", "utils", "index.ts");
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-dry-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+    await writeFile(
+      join(projectDir, "package.json"),
+      JSON.stringify({ dependencies: { react: "^19.0.0" } })
+    );
+
+    const components: Record<string, unknown> = {
+      card: {
+        name: "card",
+        type: "registry:component",
+        files: [{ name: "card.tsx", content: "export const Card = 1;\n" }],
+        dependencies: ["motion", "react"],
+        devDependencies: ["@types/react"],
+        registryDependencies: ["utils"],
+      },
+      utils: {
+        name: "utils",
+        type: "registry:lib",
+        files: [
+          {
+            name: "utils/index.ts",
+            content: "export function cn(a: string) { return a; }\n",
+          },
+        ],
+        dependencies: [],
+        devDependencies: [],
+        registryDependencies: [],
+      },
+    };
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      const component = components[name];
+      return component
+        ? jsonResponse(component)
+        : new Response(null, { status: 404 });
+    });
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    await rm(projectDir, { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  it("lists the whole dependency graph without writing anything", async () => {
+    const { execa } = await import("execa");
+
+    await addComponent(["card"], { cwd: projectDir, dryRun: true });
+
+    const text = output();
+    expect(text).toContain("+ components/card.tsx");
+    expect(text).toContain("+ components/utils/index.ts");
+    expect(text).toContain("dependencies: motion");
+    expect(text).toContain("devDependencies: @types/react");
+    expect(text).toContain("Run again without --dry-run");
+
+    expect(execa).not.toHaveBeenCalled();
+    expect(existsSync(join(projectDir, "components"))).toBe(false);
+    expect(existsSync(join(projectDir, "clipmotion-lock.json"))).toBe(false);
+    expect(existsSync(join(projectDir, ".clipmotion"))).toBe(false);
+  });
+
+  it("shows skipped and overwritten files", async () => {
+    await mkdir(join(projectDir, "components"), { recursive: true });
+    await writeFile(join(projectDir, "components", "card.tsx"), "// mine");
+
+    await addComponent(["card"], { cwd: projectDir, dryRun: true });
+    expect(output()).toContain("· components/card.tsx (skip, already exists)");
+
+    consoleLogSpy.mockClear();
+    await addComponent(["card"], {
+      cwd: projectDir,
+      dryRun: true,
+      overwrite: true,
+    });
+    expect(output()).toContain("! components/card.tsx (overwrite)");
+    expect(
+      await readFile(join(projectDir, "components", "card.tsx"), "utf-8")
+    ).toBe("// mine");
+  });
+
+  it("shows the diff a utils merge would apply", async () => {
+    await mkdir(dirname(utilsPath()), { recursive: true });
+    await writeFile(utilsPath(), "export function mine() { return 1; }\n");
+
+    await addComponent(["utils"], { cwd: projectDir, dryRun: true });
+
+    const text = output();
+    expect(text).toContain("~ components/utils/index.ts (merge)");
+    expect(text).toContain("+export function cn(a: string) { return a; }");
+    expect(text).toContain("No new packages to install");
+    expect(await readFile(utilsPath(), "utf-8")).toBe(
+      "export function mine() { return 1; }\n"
+    );
+  });
+});
+
+describe("component selection", () => {
+  let projectDir: string;
+  let consoleLogSpy: any;
+  let processExitSpy: any;
+  const isTTY = process.stdin.isTTY;
+
+  const entry = (id: string, libraries: string[], type?: string) => ({
+    id,
+    name: id,
+    description: `The ${id} animation`,
+    ...(type && { type }),
+    sources: [],
+    tags: [],
+    difficulty: "easy",
+    libraries,
+  });
+
+  const index = {
+    version: "1",
+    lastUpdated: "2026-01-01",
+    animations: [
+      entry("card", ["react", "vue"]),
+      entry("badge", ["react"]),
+      entry("ripple", ["vue"]),
+      entry("utils", ["react"], "registry:lib"),
+    ],
+  };
+
+  const fetchedItems = () =>
+    (global.fetch as any).mock.calls
+      .map(([url]: [string]) => url.split("/").pop())
+      .filter((file: string) => file !== "index.json");
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-select-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      if (name === "index") {
+        return jsonResponse(index);
+      }
+      return jsonResponse({
+        name,
+        type: "registry:component",
+        files: [{ name: `${name}.tsx`, content: `export const ${name} = 1;` }],
+        dependencies: [],
+        devDependencies: [],
+        registryDependencies: [],
+      });
+    });
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+  });
+
+  afterEach(async () => {
+    process.stdin.isTTY = isTTY;
+    consoleLogSpy.mockRestore();
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("installs every component for the framework with --all", async () => {
+    await addComponent([], { cwd: projectDir, silent: true, all: true });
+
+    expect(fetchedItems()).toEqual(["badge.json", "card.json"]);
+    expect(existsSync(join(projectDir, "components", "badge.tsx"))).toBe(true);
+    expect(existsSync(join(projectDir, "components", "card.tsx"))).toBe(true);
+  });
+
+  it("announces the selected components once", async () => {
+    await addComponent([], { cwd: projectDir, all: true });
+
+    const intros = consoleLogSpy.mock.calls
+      .map((call: unknown[]) => call.join(" "))
+      .filter((line: string) => line.includes("🎬 Installing"));
+    expect(intros).toHaveLength(1);
+    expect(intros[0]).toContain("Installing 2 components for");
+  });
+
+  it("lets you search and pick components in a terminal", async () => {
+    const { text, multiselect } = await import("@clack/prompts");
+    process.stdin.isTTY = true;
+    vi.mocked(text).mockResolvedValueOnce("nothing").mockResolvedValueOnce("");
+    vi.mocked(multiselect).mockResolvedValue(["card"]);
+
+    await addComponent([], { cwd: projectDir, silent: true });
+
+    expect(text).toHaveBeenCalledTimes(2);
+    expect(multiselect).toHaveBeenCalledWith(
+      expect.objectContaining({
+        options: [
+          {
+            value: "badge",
+            label: "badge",
+            hint: "easy · The badge animation",
+          },
+          { value: "card", label: "card", hint: "easy · The card animation" },
+        ],
+      })
+    );
+    expect(fetchedItems()).toEqual(["card.json"]);
+  });
+
+  it("installs nothing when the selection is cancelled", async () => {
+    const { text, multiselect } = await import("@clack/prompts");
+    process.stdin.isTTY = true;
+    vi.mocked(text).mockResolvedValue("card");
+    vi.mocked(multiselect).mockResolvedValue(Symbol("cancel"));
+
+    await addComponent([], { cwd: projectDir });
+
+    expect(
+      consoleLogSpy.mock.calls
+        .map((call: unknown[]) => call.join(" "))
+        .join("\n")
+    ).toContain("No components selected");
+    expect(fetchedItems()).toEqual([]);
+  });
+
+  it("still requires names outside a terminal", async () => {
+    process.stdin.isTTY = false;
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(addComponent([], { cwd: projectDir })).rejects.toThrow(
+      "process.exit(1)"
+    );
+
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("No components specified")
+    );
+    errorSpy.mockRestore();
+  });
+});
+
+describe("package install", () => {
+  let projectDir: string;
+  let processExitSpy: any;
+
+  const item = (
+    name: string,
+    dependencies: string[],
+    devDependencies = []
+  ) => ({
+    name,
+    type: "registry:component",
+    files: [{ name: `${name}.tsx`, content: `export const ${name} = 1;\n` }],
+    dependencies,
+    devDependencies,
+    registryDependencies: [],
+  });
+
+  const registry: Record<string, unknown> = {
+    card: item("card", ["motion", "clsx"]),
+    badge: item("badge", ["motion@^11.0.0", "gsap"], ["@types/gsap", "clsx"]),
+    chart: { ...item("chart", []), registryDependencies: ["utils", "ghost"] },
+    utils: {
+      ...item("utils", []),
+      type: "registry:lib",
+      files: [
+        {
+          name: "utils/index.ts",
+          content: "export function cn(a: string) { return a; }\n",
+        },
+      ],
+    },
+  };
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-packages-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: { components: "components", utils: "components/utils" },
+        registry: { baseUrl: "https://example.com/registry" },
+      })
+    );
+    await writeFile(
+      join(projectDir, "package.json"),
+      JSON.stringify({ dependencies: { clsx: "^2.0.0" } })
+    );
+
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      return registry[name]
+        ? jsonResponse(registry[name])
+        : new Response(null, { status: 404, statusText: "Not Found" });
+    });
+
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+  });
+
+  afterEach(async () => {
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("runs one install per dependency kind for the whole run", async () => {
+    const { execa } = await import("execa");
+
+    await addComponent(["card", "badge"], { cwd: projectDir, silent: true });
+
+    expect(vi.mocked(execa).mock.calls).toEqual([
+      ["npm", ["install", "motion", "gsap"], expect.anything()],
+      ["npm", ["install", "--save-dev", "@types/gsap"], expect.anything()],
+    ]);
+    expect(vi.mocked(execa).mock.calls[0]![2]).toMatchObject({
+      cwd: projectDir,
+    });
+  });
+
+  it("rolls back files and package files when the install fails", async () => {
+    const { execa } = await import("execa");
+    const packageJson = await readFile(join(projectDir, "package.json"));
+    await mkdir(join(projectDir, "components"));
+    await writeFile(join(projectDir, "components", "card.tsx"), "// mine");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.mocked(execa).mockImplementationOnce((async () => {
+      await writeFile(join(projectDir, "package.json"), "{}");
+      await writeFile(join(projectDir, "package-lock.json"), "{}");
+      throw new Error("ETARGET");
+    }) as any);
+
+    await expect(
+      addComponent(["card", "badge"], {
+        cwd: projectDir,
+        silent: true,
+        overwrite: true,
+      })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(await readFile(join(projectDir, "package.json"))).toEqual(
+      packageJson
+    );
+    expect(existsSync(join(projectDir, "package-lock.json"))).toBe(false);
+    expect(
+      await readFile(join(projectDir, "components", "card.tsx"), "utf-8")
+    ).toBe("// mine");
+    expect(existsSync(join(projectDir, "components", "badge.tsx"))).toBe(false);
+    expect(existsSync(join(projectDir, ".clipmotion"))).toBe(false);
+    expect(existsSync(join(projectDir, "clipmotion-lock.json"))).toBe(false);
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining("ETARGET"));
+    errorSpy.mockRestore();
+  });
+
+  it("commits and rolls back the lockfile with the files", async () => {
+    const { execa } = await import("execa");
+    const lockfilePath = join(projectDir, "clipmotion-lock.json");
+    await addComponent(["badge"], { cwd: projectDir, silent: true });
+    const lockfile = await readFile(lockfilePath, "utf-8");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    let lockedDuringInstall: unknown;
+    vi.mocked(execa).mockImplementationOnce((async () => {
+      lockedDuringInstall = JSON.parse(await readFile(lockfilePath, "utf-8"));
+      throw new Error("ETARGET");
+    }) as any);
+
+    await expect(
+      addComponent(["card"], { cwd: projectDir, silent: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(lockedDuringInstall).toMatchObject({
+      components: { card: expect.anything() },
+    });
+    expect(await readFile(lockfilePath, "utf-8")).toBe(lockfile);
+    expect(existsSync(join(projectDir, "components", "card.tsx"))).toBe(false);
+    errorSpy.mockRestore();
+  });
+
+  it("writes nothing when an item in the run fails", async () => {
+    const { execa } = await import("execa");
+    const utilsPath = join(projectDir, "components", "utils", "index.ts");
+    await mkdir(dirname(utilsPath), { recursive: true });
+    await writeFile(utilsPath, "export function mine() { return 1; }\n");
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(
+      addComponent(["card", "chart"], { cwd: projectDir, silent: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(await readFile(utilsPath, "utf-8")).toBe(
+      "export function mine() { return 1; }\n"
+    );
+    expect(existsSync(join(projectDir, "components", "card.tsx"))).toBe(false);
+    expect(existsSync(join(projectDir, "clipmotion-lock.json"))).toBe(false);
+    expect(execa).not.toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
+
+describe("named registries", () => {
+  let projectDir: string;
+
+  const item = (name: string, registryDependencies: string[] = []) => ({
+    name,
+    type: "registry:component",
+    files: [{ name: `${name}.tsx`, content: `export const x = 1;\n` }],
+    dependencies: [],
+    registryDependencies,
+  });
+
+  const registries: Record<string, Record<string, unknown>> = {
+    "https://example.com/registry": { utils: item("utils") },
+    "https://motion.acme.dev/r": {
+      "hero-glow": item("hero-glow", ["@acme/glow-core", "utils"]),
+      "glow-core": item("glow-core"),
+    },
+  };
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-registries-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: { components: "components", utils: "components/utils" },
+        registry: {
+          default: { baseUrl: "https://example.com/registry" },
+          acme: { baseUrl: "https://motion.acme.dev/r" },
+        },
+      })
+    );
+
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const [, base, name] = /^(.*)\/react\/(.*)\.json$/.exec(url) ?? [];
+      const component = registries[base!]?.[name!];
+      return component
+        ? jsonResponse(component)
+        : new Response(null, { status: 404, statusText: "Not Found" });
+    });
+  });
+
+  afterEach(async () => {
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("resolves @namespace names and dependencies across registries", async () => {
+    await addComponent(["@acme/hero-glow"], { cwd: projectDir, silent: true });
+
+    expect(
+      (global.fetch as any).mock.calls.map(([url]: string[]) => url)
+    ).toEqual([
+      "https://motion.acme.dev/r/react/hero-glow.json",
+      "https://motion.acme.dev/r/react/glow-core.json",
+      // acme has no utils of its own, so the default registry's is used
+      "https://motion.acme.dev/r/react/utils.json",
+      "https://example.com/registry/react/utils.json",
+    ]);
+
+    const lock = JSON.parse(
+      await readFile(join(projectDir, "clipmotion-lock.json"), "utf8")
+    );
+    expect(Object.keys(lock.components).sort()).toEqual([
+      "@acme/glow-core",
+      "@acme/hero-glow",
+      "utils",
+    ]);
+    expect(lock.components["@acme/hero-glow"].registry).toBe(
+      "https://motion.acme.dev/r"
+    );
+  });
+
+  it("resolves bare dependencies against the item's own registry first", async () => {
+    registries["https://motion.acme.dev/r"]!.utils = item("utils");
+
+    try {
+      await addComponent(["@acme/hero-glow"], {
+        cwd: projectDir,
+        silent: true,
+      });
+    } finally {
+      delete registries["https://motion.acme.dev/r"]!.utils;
+    }
+
+    expect(global.fetch).not.toHaveBeenCalledWith(
+      "https://example.com/registry/react/utils.json",
+      expect.anything()
+    );
+    const lock = JSON.parse(
+      await readFile(join(projectDir, "clipmotion-lock.json"), "utf8")
+    );
+    expect(Object.keys(lock.components).sort()).toEqual([
+      "@acme/glow-core",
+      "@acme/hero-glow",
+      "@acme/utils",
+    ]);
+    expect(lock.components["@acme/hero-glow"].registryDependencies).toEqual([
+      "@acme/glow-core",
+      "@acme/utils",
+    ]);
+  });
+
+  it("fails for a registry that isn't configured", async () => {
+    const processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    await addComponent(["@globex/orb"], { cwd: projectDir }).catch(() => {});
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(errorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Unknown registry "@globex"')
+    );
+    expect(existsSync(join(projectDir, "clipmotion-lock.json"))).toBe(false);
+    processExitSpy.mockRestore();
+    errorSpy.mockRestore();
+    logSpy.mockRestore();
+  });
 });
@@ -430,6 +430,14 @@ describe("clipmotion create", () => {
       );
       const content = await readFile(readmePath, "utf8");
       expect(content).toContain(difficulty);
+
+      const manifest = JSON.parse(
+        await readFile(
+          join(projectDir, `registry/react/ui/test-${difficulty}.meta.json`),
+          "utf8"
+        )
+      );
+      expect(manifest).toEqual({ difficulty });
     }
   });
 
@@ -0,0 +1,211 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { addComponent } from "../../cli/commands/add";
+import { diffComponents } from "../../cli/commands/diff";
+
+// Mock ora
+vi.mock("ora", () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: "",
+  })),
+}));
+
+vi.mock("execa", () => ({
+  execa: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+}));
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+const card = {
+  name: "card",
+  type: "registry:component",
+  files: [
+    {
+      name: "card.tsx",
+      content: [
+        "export function Card() {",
+        '  return <div className="card" />;',
+        "}",
+        "",
+      ].join("\n"),
+    },
+  ],
+  dependencies: [],
+  devDependencies: [],
+  registryDependencies: ["utils"],
+};
+
+const utils = {
+  name: "utils",
+  type: "registry:lib",
+  files: [
+    {
+      name: "utils/index.ts",
+      content: "export function cn(a: string) { return a; }\n",
+    },
+  ],
+  dependencies: [],
+  devDependencies: [],
+  registryDependencies: [],
+};
+
+describe("clipmotion diff", () => {
+  let projectDir: string;
+  let consoleLogSpy: any;
+  let consoleErrorSpy: any;
+  let processExitSpy: any;
+
+  const output = () =>
+    consoleLogSpy.mock.calls
+      .map((call: unknown[]) => call.join(" "))
+      .join("\n");
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-diff-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      const component = { card, utils }[name];
+      return component
+        ? jsonResponse(component)
+        : new Response(null, { status: 404, statusText: "Not Found" });
+    });
+
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("reports no drift right after install", async () => {
+    await diffComponents(["card"], { cwd: projectDir });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(output()).toContain("✓ components/card.tsx");
+    expect(output()).toContain("Everything matches the registry");
+  });
+
+  it("prints a unified diff and exits 1 when a file drifted", async () => {
+    await writeFile(
+      join(projectDir, "components", "card.tsx"),
+      card.files[0]!.content.replace('"card"', '"card shadow"')
+    );
+
+    await expect(diffComponents(["card"], { cwd: projectDir })).rejects.toThrow(
+      "process.exit(1)"
+    );
+
+    const text = output();
+    expect(text).toContain("--- registry/react/card.tsx");
+    expect(text).toContain("+++ components/card.tsx");
+    expect(text).toContain('-  return <div className="card" />;');
+    expect(text).toContain('+  return <div className="card shadow" />;');
+  });
+
+  it("checks every lockfile entry when no names are given", async () => {
+    await rm(join(projectDir, "components", "card.tsx"));
+
+    await expect(diffComponents([], { cwd: projectDir })).rejects.toThrow(
+      "process.exit(1)"
+    );
+
+    const text = output();
+    expect(text).toContain("components/card.tsx (missing)");
+    expect(text).toContain("✓ components/utils/index.ts");
+  });
+
+  it("ignores unrelated functions in the shared utils file", async () => {
+    await writeFile(
+      join(projectDir, "components", "utils", "index.ts"),
+      "export function mine() { return 1; }\n\n" + utils.files[0]!.content
+    );
+
+    await diffComponents(["utils"], { cwd: projectDir });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+  });
+
+  it("prints JSON for CI", async () => {
+    await writeFile(join(projectDir, "components", "card.tsx"), "// rewritten");
+
+    await expect(
+      diffComponents(["card"], { cwd: projectDir, json: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    const report = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+    expect(report.drift).toBe(true);
+    expect(report.components[0]).toEqual(
+      expect.objectContaining({ name: "card", framework: "react" })
+    );
+    expect(report.components[0].files[0]).toEqual(
+      expect.objectContaining({
+        path: "components/card.tsx",
+        status: "modified",
+        diff: expect.stringContaining("+// rewritten"),
+      })
+    );
+  });
+
+  it("follows paths recorded in the lockfile", async () => {
+    await addComponent(["card"], {
+      cwd: projectDir,
+      silent: true,
+      path: "src/ui",
+      overwrite: true,
+    });
+    await rm(join(projectDir, "components", "card.tsx"));
+
+    await diffComponents(["card"], { cwd: projectDir });
+
+    expect(output()).toContain("✓ src/ui/card.tsx");
+  });
+
+  it("treats a registry error as drift", async () => {
+    await expect(
+      diffComponents(["ghost"], { cwd: projectDir })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(output()).toContain('Component "ghost" not found for react');
+  });
+});
@@ -28,6 +28,8 @@ vi.mock("../../cli/commands/add", () => ({
 // Mock fetch
 global.fetch = vi.fn();
 
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
 describe("clipmotion find", () => {
   let projectDir: string;
   let originalCwd: string;
@@ -103,11 +105,9 @@ describe("clipmotion find", () => {
     };
 
     // Setup fetch mock
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      status: 200,
-      text: async () => JSON.stringify(mockRegistryIndex),
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(mockRegistryIndex)
+    );
   });
 
   afterEach(async () => {
@@ -173,6 +173,121 @@ describe("clipmotion find", () => {
     );
   });
 
+  it("matches different URL shapes of the same video", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+
+    // Source is youtube.com/watch?v=abc123
+    await findComponent("https://youtu.be/abc123?si=shared-from-phone", {
+      cwd: projectDir,
+    });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Fade In Text")
+    );
+  });
+
+  it("matches on precomputed video keys from the index", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+
+    mockRegistryIndex.animations[2].sources = [];
+    mockRegistryIndex.animations[2].videoKeys = ["instagram:scroll123"];
+
+    await findComponent("https://www.instagram.com/reel/scroll123/?igsh=x", {
+      cwd: projectDir,
+    });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Scroll Reveal")
+    );
+  });
+
+  it("accepts share links without a scheme", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+
+    await findComponent("instagram.com/p/test123", {
+      cwd: projectDir,
+    });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Animation found")
+    );
+  });
+
+  it("resolves share links through the index alias table", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+    process.env.CLIPMOTION_CACHE_DIR = join(projectDir, ".cache");
+
+    mockRegistryIndex.aliases = {
+      "tiktok:short:ZMabc123": "youtube:abc123",
+    };
+
+    await findComponent("https://vm.tiktok.com/ZMabc123/", {
+      cwd: projectDir,
+      resolve: false,
+    });
+
+    delete process.env.CLIPMOTION_CACHE_DIR;
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Fade In Text")
+    );
+  });
+
+  it("resolves share links with a custom resolver", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+    process.env.CLIPMOTION_CACHE_DIR = join(projectDir, ".cache");
+
+    const resolver = vi
+      .fn()
+      .mockResolvedValue("https://www.instagram.com/reel/scroll123/");
+
+    await findComponent("https://www.instagram.com/share/reel/BAxyz", {
+      cwd: projectDir,
+      resolver,
+    });
+
+    delete process.env.CLIPMOTION_CACHE_DIR;
+
+    expect(resolver).toHaveBeenCalledWith(
+      "https://www.instagram.com/share/reel/BAxyz"
+    );
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Scroll Reveal")
+    );
+  });
+
+  it("doesn't resolve share links over the network with --offline", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+    const resolver = vi
+      .fn()
+      .mockResolvedValue("https://www.instagram.com/reel/scroll123/");
+
+    // Caches the registry index
+    await findComponent("https://instagram.com/p/test123", {
+      cwd: projectDir,
+    });
+    (global.fetch as any).mockClear();
+    consoleLogSpy.mockClear();
+
+    await findComponent("https://www.instagram.com/share/reel/BAxyz", {
+      cwd: projectDir,
+      offline: true,
+      resolver,
+    });
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(resolver).not.toHaveBeenCalled();
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Animation not found")
+    );
+  });
+
   it("shows animation details when found", async () => {
     const { select } = await import("@clack/prompts");
     (select as any).mockResolvedValue("exit");
@@ -195,6 +310,37 @@ describe("clipmotion find", () => {
     );
   });
 
+  it("shows per-framework files and dependencies", async () => {
+    const { select } = await import("@clack/prompts");
+    (select as any).mockResolvedValue("exit");
+
+    mockRegistryIndex.animations[0].frameworks = {
+      react: {
+        files: ["blur-image-toggle.tsx"],
+        dependencies: ["react"],
+        devDependencies: [],
+        registryDependencies: ["utils"],
+      },
+      nextjs: {
+        files: ["blur-image-toggle.tsx"],
+        dependencies: ["next", "react"],
+        devDependencies: [],
+        registryDependencies: ["utils"],
+      },
+    };
+
+    await findComponent("https://instagram.com/p/test123", {
+      cwd: projectDir,
+    });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("react: blur-image-toggle.tsx · deps: react")
+    );
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("nextjs: blur-image-toggle.tsx · deps: next, react")
+    );
+  });
+
   it("installs component when user selects install", async () => {
     const { select } = await import("@clack/prompts");
     const { addComponent } = await import("../../cli/commands/add");
@@ -353,11 +499,9 @@ describe("clipmotion find", () => {
   });
 
   it("handles invalid JSON in registry", async () => {
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      status: 200,
-      text: async () => "invalid json{",
-    });
+    (global.fetch as any).mockImplementation(
+      async () => new Response("invalid json{")
+    );
 
     await findComponent("https://instagram.com/p/test123", {
       cwd: projectDir,
@@ -369,11 +513,9 @@ describe("clipmotion find", () => {
   });
 
   it("handles empty registry", async () => {
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      status: 200,
-      text: async () => JSON.stringify({ version: "1.0.0", animations: [] }),
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ version: "1.0.0", animations: [] })
+    );
 
     await findComponent("https://instagram.com/p/test123", {
       cwd: projectDir,
@@ -473,11 +615,9 @@ describe("clipmotion find", () => {
       }
     );
 
-    (global.fetch as any).mockResolvedValue({
-      ok: true,
-      status: 200,
-      text: async () => JSON.stringify(mockRegistryIndex),
-    });
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse(mockRegistryIndex)
+    );
 
     const { confirm } = await import("@clack/prompts");
     (confirm as any).mockResolvedValue(false);
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { cachedFetch } from "../../cli/http-cache";
+
+global.fetch = vi.fn();
+
+const CARD_URL = "https://registry.acme.dev/r/react/card.json";
+const HOUR = 60 * 60 * 1000;
+
+describe("http cache", () => {
+  let cacheDir: string;
+
+  const respond = (body: string | null, status = 200, etag?: string) =>
+    (global.fetch as any).mockResolvedValueOnce(
+      new Response(body, { status, ...(etag && { headers: { etag } }) })
+    );
+
+  const get = async (options: Partial<Parameters<typeof cachedFetch>[1]>) =>
+    (await cachedFetch(CARD_URL, { ttl: HOUR, ...options })).text();
+
+  beforeEach(async () => {
+    cacheDir = join(
+      tmpdir(),
+      `clipmotion-http-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(cacheDir, { recursive: true });
+    vi.stubEnv("CLIPMOTION_CACHE_DIR", cacheDir);
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("serves fresh entries without asking the server", async () => {
+    respond('{"v":1}', 200, '"abc"');
+
+    expect(await get({})).toBe('{"v":1}');
+    expect(await get({})).toBe('{"v":1}');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("revalidates stale entries with their ETag", async () => {
+    const headers = { Authorization: "Bearer t" };
+    vi.useFakeTimers({ toFake: ["Date"] });
+    respond('{"v":1}', 200, '"abc"');
+    await get({ headers });
+
+    vi.advanceTimersByTime(HOUR + 1);
+    respond(null, 304);
+
+    expect(await get({ headers })).toBe('{"v":1}');
+    expect(global.fetch).toHaveBeenLastCalledWith(CARD_URL, {
+      headers: { Authorization: "Bearer t", "If-None-Match": '"abc"' },
+    });
+
+    // The 304 renewed the entry
+    await get({ headers });
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("keeps authenticated entries apart from anonymous ones", async () => {
+    respond('{"private":true}', 200);
+    await get({ headers: { Authorization: "Bearer t" } });
+
+    respond(null, 401);
+    expect((await cachedFetch(CARD_URL, { ttl: HOUR })).status).toBe(401);
+
+    respond('{"other":true}', 200);
+    expect(await get({ headers: { Authorization: "Bearer u" } })).toBe(
+      '{"other":true}'
+    );
+    expect(await get({ headers: { authorization: "Bearer t" } })).toBe(
+      '{"private":true}'
+    );
+    expect(global.fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("revalidates fresh entries with --refresh", async () => {
+    respond('{"v":1}', 200, '"abc"');
+    await get({});
+    respond('{"v":2}', 200, '"def"');
+
+    expect(await get({ mode: "refresh" })).toBe('{"v":2}');
+    expect(await get({})).toBe('{"v":2}');
+    expect(global.fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("falls back to the cached body when the server can't be reached", async () => {
+    respond('{"v":1}', 200);
+    await get({});
+
+    (global.fetch as any).mockRejectedValueOnce(new Error("ENOTFOUND"));
+    expect(await get({ mode: "refresh" })).toBe('{"v":1}');
+
+    respond("oops", 503);
+    expect(await get({ mode: "refresh" })).toBe('{"v":1}');
+  });
+
+  it("never stores error responses", async () => {
+    respond(null, 404);
+    expect((await cachedFetch(CARD_URL, { ttl: HOUR })).status).toBe(404);
+
+    respond('{"v":1}', 200);
+    expect(await get({})).toBe('{"v":1}');
+  });
+
+  it("only reads the cache when offline", async () => {
+    await expect(get({ mode: "offline" })).rejects.toThrow(
+      "is not cached yet, run once without --offline"
+    );
+
+    respond('{"v":1}', 200);
+    await get({});
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.advanceTimersByTime(24 * HOUR);
+
+    expect(await get({ mode: "offline" })).toBe('{"v":1}');
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getImportSpecifier,
+  loadPathAliases,
+  readTsconfigAliases,
+  readViteAliases,
+  rewriteRegistryImports,
+} from "../../cli/import-aliases";
+
+describe("import aliases", () => {
+  let root: string;
+
+  const rewrite = (content: string) =>
+    rewriteRegistryImports(
+      content,
+      join(root, "src", "components", "card.tsx"),
+      {
+        components: join(root, "src", "components"),
+        utils: join(root, "src", "lib", "utils"),
+      },
+      loadPathAliases(root)
+    );
+
+  beforeEach(async () => {
+    root = join(
+      tmpdir(),
+      `clipmotion-aliases-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(root, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("reads tsconfig paths with comments and a custom prefix", async () => {
+    await writeFile(
+      join(root, "tsconfig.json"),
+      `{
+        // Nuxt-style alias
+        "compilerOptions": { "paths": { "~/*": ["./src/*"] } },
+      }`
+    );
+
+    expect(readTsconfigAliases(root)).toEqual([
+      { prefix: "~/", target: join(root, "src"), wildcard: true },
+    ]);
+    expect(rewrite('import { cn } from "@/components/utils";')).toBe(
+      'import { cn } from "~/lib/utils";'
+    );
+  });
+
+  it("reads jsconfig paths relative to baseUrl", async () => {
+    await writeFile(
+      join(root, "jsconfig.json"),
+      JSON.stringify({
+        compilerOptions: { baseUrl: "src", paths: { "#/*": ["*"] } },
+      })
+    );
+
+    expect(rewrite('import { Fade } from "@/components/fade";')).toBe(
+      'import { Fade } from "#/components/fade";'
+    );
+  });
+
+  it("follows project references when the root config has no paths", async () => {
+    await writeFile(
+      join(root, "tsconfig.json"),
+      JSON.stringify({
+        files: [],
+        references: [{ path: "./tsconfig.app.json" }],
+      })
+    );
+    await writeFile(
+      join(root, "tsconfig.app.json"),
+      JSON.stringify({ compilerOptions: { paths: { "@/*": ["./src/*"] } } })
+    );
+
+    expect(rewrite('import { cn } from "@/lib/utils";')).toBe(
+      'import { cn } from "@/lib/utils";'
+    );
+    expect(readTsconfigAliases(root)).toHaveLength(1);
+  });
+
+  it("reads Vite resolve.alias in object and array form", async () => {
+    await writeFile(
+      join(root, "vite.config.ts"),
+      `import path from "path";
+      import { fileURLToPath, URL } from "url";
+      export default {
+        resolve: {
+          alias: {
+            "@ui": path.resolve(__dirname, "./src/components"),
+            "~": fileURLToPath(new URL("./src", import.meta.url)),
+          },
+        },
+      };`
+    );
+    expect(readViteAliases(root)).toEqual([
+      {
+        prefix: "@ui/",
+        target: join(root, "src", "components"),
+        wildcard: true,
+      },
+      { prefix: "~/", target: join(root, "src"), wildcard: true },
+    ]);
+
+    await writeFile(
+      join(root, "vite.config.ts"),
+      `export default {
+        resolve: { alias: [{ find: "$lib", replacement: "/src/lib" }] },
+      };`
+    );
+    expect(readViteAliases(root)).toEqual([
+      { prefix: "$lib/", target: join(root, "src", "lib"), wildcard: true },
+    ]);
+  });
+
+  it("prefers the shortest alias and falls back to relative paths", () => {
+    const target = join(root, "src", "lib", "utils");
+    const from = join(root, "src", "components", "card.tsx");
+
+    expect(
+      getImportSpecifier(target, from, [
+        { prefix: "@/", target: join(root, "src"), wildcard: true },
+        { prefix: "@lib/", target: join(root, "src", "lib"), wildcard: true },
+      ])
+    ).toBe("@lib/utils");
+    expect(getImportSpecifier(target, from, [])).toBe("../lib/utils");
+    expect(
+      rewrite(
+        [
+          'import { cn } from "@/components/utils";',
+          'const Fade = await import("@/components/fade");',
+          'import "@/components/shimmer/styles.css";',
+          'import { motion } from "motion/react";',
+        ].join("\n")
+      )
+    ).toBe(
+      [
+        'import { cn } from "../lib/utils";',
+        'const Fade = await import("./fade");',
+        'import "./shimmer/styles.css";',
+        'import { motion } from "motion/react";',
+      ].join("\n")
+    );
+  });
+});
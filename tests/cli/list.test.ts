@@ -0,0 +1,317 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { listComponents } from "../../cli/commands/list";
+import type { RegistryEntry } from "../../cli/commands/types";
+
+// Mock ora
+vi.mock("ora", () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+  })),
+}));
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+const animations: RegistryEntry[] = [
+  {
+    id: "chromatic-flow-background",
+    name: "chromatic-flow-background",
+    description: "A flowing, chromatic background",
+    type: "registry:component",
+    category: "Hover Effects",
+    difficulty: "hard",
+    libraries: ["nextjs", "react"],
+    frameworks: {
+      nextjs: {
+        files: ["chromatic-flow-background.tsx"],
+        dependencies: ["next", "react"],
+        devDependencies: [],
+        registryDependencies: ["utils"],
+      },
+      react: {
+        files: ["chromatic-flow-background.tsx"],
+        dependencies: ["react"],
+        devDependencies: [],
+        registryDependencies: ["utils"],
+      },
+    },
+    dependencies: ["next", "react"],
+    tags: [],
+    sources: [],
+    contributor: {
+      name: "nerdboi008",
+      github: "https://github.com/NerdBoi008",
+    },
+  },
+  {
+    id: "image-crossfade",
+    name: "image-crossfade",
+    description: "Crossfade between images",
+    type: "registry:component",
+    category: "Image Effects",
+    difficulty: "easy",
+    libraries: ["react"],
+    dependencies: ["motion"],
+    tags: [],
+    sources: [],
+    contributor: { github: "https://github.com/someone/" },
+  },
+  {
+    id: "utils",
+    name: "utils",
+    description: "Helpers",
+    type: "registry:lib",
+    difficulty: "medium",
+    libraries: ["react"],
+    tags: [],
+    sources: [],
+  },
+];
+
+describe("clipmotion list", () => {
+  let projectDir: string;
+  let consoleLogSpy: any;
+  let consoleErrorSpy: any;
+  let processExitSpy: any;
+
+  const output = () =>
+    consoleLogSpy.mock.calls
+      .map((call: unknown[]) => call.join(" "))
+      .join("\n");
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-list-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ version: "1.0.0", animations })
+    );
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("prints a table grouped by category", async () => {
+    await listComponents({ cwd: projectDir });
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://example.com/registry/index.json",
+      expect.anything()
+    );
+
+    const text = output();
+    expect(text).toContain("2 components");
+    expect(text.indexOf("Hover Effects")).toBeLessThan(
+      text.indexOf("Image Effects")
+    );
+    expect(text).toMatch(/chromatic-flow-background\s+hard\s+nextjs, react/);
+    expect(text).toContain("nerdboi008");
+    // Contributors without a name fall back to their profile handle
+    expect(text).toContain("someone");
+    expect(text).not.toContain("utils");
+  });
+
+  it("groups by framework with per-framework dependencies", async () => {
+    await listComponents({ cwd: projectDir, groupBy: "framework" });
+
+    const text = output();
+    const nextjsSection = text.slice(
+      text.indexOf("nextjs\n"),
+      text.indexOf("react\n")
+    );
+
+    expect(nextjsSection).toContain("next, react");
+    expect(nextjsSection).not.toContain("image-crossfade");
+    expect(text.slice(text.indexOf("react\n"))).toContain("image-crossfade");
+  });
+
+  it("prints a tree", async () => {
+    await listComponents({ cwd: projectDir, tree: true });
+
+    const text = output();
+    expect(text).toContain("├─ Hover Effects");
+    expect(text).toContain("└─ Image Effects");
+    expect(text).toContain("dependencies: motion");
+    expect(text).toContain("contributor: nerdboi008");
+  });
+
+  it("prints JSON for scripts", async () => {
+    await listComponents({ cwd: projectDir, json: true });
+
+    expect(consoleLogSpy).toHaveBeenCalledTimes(1);
+    const parsed = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+    expect(parsed.map((entry: RegistryEntry) => entry.id)).toEqual([
+      "chromatic-flow-background",
+      "image-crossfade",
+    ]);
+  });
+
+  it("filters by framework", async () => {
+    await listComponents({ cwd: projectDir, json: true, framework: "nextjs" });
+
+    const parsed = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+    expect(parsed.map((entry: RegistryEntry) => entry.id)).toEqual([
+      "chromatic-flow-background",
+    ]);
+  });
+
+  it("lists only components installed in the project", async () => {
+    await mkdir(join(projectDir, "components"), { recursive: true });
+    await writeFile(
+      join(projectDir, "components", "chromatic-flow-background.tsx"),
+      "export {}"
+    );
+
+    await listComponents({ cwd: projectDir, installed: true, json: true });
+
+    const parsed = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+    expect(parsed.map((entry: RegistryEntry) => entry.id)).toEqual([
+      "chromatic-flow-background",
+    ]);
+  });
+
+  it("matches installed files by name when the index has no file list", async () => {
+    await mkdir(join(projectDir, "components"), { recursive: true });
+    await writeFile(
+      join(projectDir, "components", "image-crossfade.jsx"),
+      "export {}"
+    );
+
+    await listComponents({ cwd: projectDir, installed: true });
+
+    const text = output();
+    expect(text).toContain("1 component installed");
+    expect(text).toContain("image-crossfade");
+  });
+
+  it("reads installed components from the lockfile when there is one", async () => {
+    await mkdir(join(projectDir, "components"), { recursive: true });
+    await writeFile(
+      join(projectDir, "components", "chromatic-flow-background.tsx"),
+      "export {}"
+    );
+    await writeFile(
+      join(projectDir, "clipmotion-lock.json"),
+      JSON.stringify({
+        version: 1,
+        components: {
+          "image-crossfade": {
+            name: "image-crossfade",
+            framework: "react",
+            registry: "https://example.com/registry",
+            type: "registry:component",
+            files: [
+              { path: "src/motion/image-crossfade.tsx", hash: "sha256-abc" },
+            ],
+            dependencies: [],
+            devDependencies: [],
+            addedDependencies: [],
+            registryDependencies: [],
+            installedAt: "2026-01-01T00:00:00.000Z",
+          },
+        },
+      })
+    );
+
+    await listComponents({ cwd: projectDir, installed: true, json: true });
+
+    const parsed = JSON.parse(consoleLogSpy.mock.calls[0][0]);
+    expect(parsed.map((entry: RegistryEntry) => entry.id)).toEqual([
+      "image-crossfade",
+    ]);
+  });
+
+  it("reports when nothing is installed", async () => {
+    await listComponents({ cwd: projectDir, installed: true });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("No registry components installed")
+    );
+  });
+
+  it("requires a config for --installed", async () => {
+    await rm(join(projectDir, "clipmotion-components.json"));
+
+    await expect(
+      listComponents({ cwd: projectDir, installed: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("No clipmotion-components.json found")
+    );
+  });
+
+  it("rejects an unknown group and exits 1", async () => {
+    await expect(
+      listComponents({ cwd: projectDir, groupBy: "size" as any })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid group")
+    );
+  });
+
+  it("rejects an unknown framework and exits 1", async () => {
+    await expect(
+      listComponents({ cwd: projectDir, framework: "reactt" as any })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid framework: reactt")
+    );
+  });
+
+  it("exits 1 when the registry can't be fetched, even with --json", async () => {
+    (global.fetch as any).mockRejectedValue(new Error("Network error"));
+
+    await expect(
+      listComponents({ cwd: projectDir, json: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to list components")
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  detectPackageManager,
+  getInstallCommand,
+  getPackageFiles,
+  getUninstallCommand,
+} from "../../cli/package-manager";
+
+describe("package manager", () => {
+  let root: string;
+
+  const writeJson = (path: string, data: unknown) =>
+    writeFile(path, JSON.stringify(data));
+
+  /** A monorepo with `packages/web` as a workspace member */
+  const createWorkspace = async (rootPackage: object = {}) => {
+    const web = join(root, "packages", "web");
+    await mkdir(join(web, "src"), { recursive: true });
+    await writeJson(join(root, "package.json"), rootPackage);
+    await writeJson(join(web, "package.json"), { name: "@acme/web" });
+    return web;
+  };
+
+  beforeEach(async () => {
+    root = join(
+      tmpdir(),
+      `clipmotion-pm-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(join(root, ".git"), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("falls back to npm in the project itself", async () => {
+    await writeJson(join(root, "package.json"), { name: "app" });
+
+    expect(detectPackageManager(root)).toEqual({
+      name: "npm",
+      root,
+      packageDir: root,
+    });
+  });
+
+  it("prefers the packageManager field over lockfiles", async () => {
+    await writeJson(join(root, "package.json"), {
+      packageManager: "yarn@4.1.0+sha512.abc",
+    });
+    await writeFile(join(root, "package-lock.json"), "{}");
+
+    expect(detectPackageManager(root).name).toBe("yarn");
+  });
+
+  it("recognizes bun's text lockfile", async () => {
+    await writeJson(join(root, "package.json"), {});
+    await writeFile(join(root, "bun.lock"), "{}");
+
+    expect(detectPackageManager(root).name).toBe("bun");
+  });
+
+  it("installs into a pnpm workspace package from the root", async () => {
+    const web = await createWorkspace();
+    await writeFile(
+      join(root, "pnpm-workspace.yaml"),
+      "packages:\n  - packages/*\n"
+    );
+    await writeFile(join(root, "pnpm-lock.yaml"), "");
+
+    const info = detectPackageManager(join(web, "src"));
+
+    expect(info).toEqual({
+      name: "pnpm",
+      root,
+      packageDir: web,
+      workspace: "@acme/web",
+    });
+    expect(getInstallCommand(info, ["motion"], true)).toEqual({
+      command: "pnpm",
+      args: ["--filter", "@acme/web", "add", "--save-dev", "motion"],
+      cwd: root,
+    });
+    expect(getPackageFiles(info)).toEqual(
+      expect.arrayContaining([
+        join(web, "package.json"),
+        join(root, "package.json"),
+        join(root, "pnpm-lock.yaml"),
+      ])
+    );
+  });
+
+  it("targets yarn and npm workspaces declared in package.json", async () => {
+    const web = await createWorkspace({ workspaces: ["packages/*"] });
+    await writeFile(join(root, "yarn.lock"), "");
+
+    const yarn = detectPackageManager(web);
+    expect(getInstallCommand(yarn, ["gsap"]).args).toEqual([
+      "workspace",
+      "@acme/web",
+      "add",
+      "gsap",
+    ]);
+
+    await rm(join(root, "yarn.lock"));
+    const npm = detectPackageManager(web);
+    expect(getUninstallCommand(npm, ["gsap"])).toEqual({
+      command: "npm",
+      args: ["uninstall", "gsap", "-w", "@acme/web"],
+      cwd: root,
+    });
+  });
+
+  it("stops looking at the repository root", async () => {
+    const app = join(root, "app");
+    await mkdir(app);
+    await writeJson(join(app, "package.json"), {});
+
+    expect(detectPackageManager(app).root).toBe(app);
+  });
+
+  it("ignores lockfiles above the project outside a workspace", async () => {
+    await rm(join(root, ".git"), { recursive: true });
+    const app = join(root, "app");
+    await mkdir(app);
+    await writeJson(join(app, "package.json"), {});
+    await writeJson(join(root, "package.json"), {
+      packageManager: "yarn@4.1.0",
+    });
+    await writeFile(join(root, "pnpm-lock.yaml"), "");
+
+    expect(detectPackageManager(app)).toEqual({
+      name: "npm",
+      root: app,
+      packageDir: app,
+    });
+  });
+
+  it("walks up to a workspace root without a repository", async () => {
+    await rm(join(root, ".git"), { recursive: true });
+    const web = await createWorkspace({ workspaces: ["packages/*"] });
+    await writeFile(join(root, "yarn.lock"), "");
+
+    expect(detectPackageManager(web)).toEqual({
+      name: "yarn",
+      root,
+      packageDir: web,
+      workspace: "@acme/web",
+    });
+  });
+});
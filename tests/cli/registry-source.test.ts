@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { pathToFileURL } from "url";
+import { execa } from "execa";
+import {
+  createRegistrySource,
+  DEFAULT_REGISTRY_URL,
+  formatComponentName,
+  getRegistryHeaders,
+  getRegistryLocations,
+  getRegistrySource,
+  parseComponentName,
+} from "../../cli/registry-source";
+
+global.fetch = vi.fn();
+
+describe("registry sources", () => {
+  let root: string;
+
+  /** A built registry with one react item under `<dir>/public/r` */
+  const writeRegistry = async (dir: string) => {
+    const registry = join(dir, "public", "r");
+    await mkdir(join(registry, "react"), { recursive: true });
+    await writeFile(join(registry, "index.json"), '{"animations":[]}');
+    await writeFile(
+      join(registry, "react", "card.json"),
+      JSON.stringify({ name: "card" })
+    );
+    return registry;
+  };
+
+  beforeEach(async () => {
+    root = join(
+      tmpdir(),
+      `clipmotion-source-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(root, { recursive: true });
+    vi.stubEnv("CLIPMOTION_CACHE_DIR", join(root, "cache"));
+    vi.stubEnv("CLIPMOTION_REGISTRY_TOKEN", "");
+    vi.stubEnv("CLIPMOTION_REGISTRY_HEADERS", "");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    vi.clearAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it("picks the adapter from the registry location", () => {
+    const kind = (baseUrl: string) =>
+      getRegistrySource({ registry: { baseUrl } } as any, { cwd: root }).kind;
+
+    expect(kind("https://registry.acme.dev/r")).toBe("http");
+    expect(kind("git+https://github.com/acme/motion.git#v2")).toBe("git");
+    expect(kind("npm:@acme/motion-registry@^2")).toBe("npm");
+    expect(kind("./registry")).toBe("file");
+    expect(getRegistrySource(null).kind).toBe("http");
+    expect(getRegistrySource(null, { local: true }).id).toBe("local");
+  });
+
+  it("reads named registries next to the default one", () => {
+    const config = {
+      registry: {
+        acme: { baseUrl: "npm:@acme/motion-registry" },
+        default: { baseUrl: "./registry" },
+      },
+    } as any;
+
+    expect(getRegistryLocations(config)).toEqual({
+      default: "./registry",
+      acme: "npm:@acme/motion-registry",
+    });
+    expect(
+      getRegistryLocations({ registry: { acme: config.registry.acme } } as any)
+    ).toEqual({
+      default:
+        "https://raw.githubusercontent.com/nerdboi008/clipmotion/main/public/r",
+      acme: "npm:@acme/motion-registry",
+    });
+    expect(
+      getRegistrySource(config, { local: true, namespace: "acme" }).kind
+    ).toBe("npm");
+    expect(() => getRegistrySource(config, { namespace: "globex" })).toThrow(
+      'Unknown registry "@globex"'
+    );
+  });
+
+  it("splits and joins namespaced component names", () => {
+    expect(parseComponentName("@acme/hero-glow")).toEqual({
+      namespace: "acme",
+      name: "hero-glow",
+    });
+    expect(parseComponentName("@default/utils")).toEqual({
+      namespace: null,
+      name: "utils",
+    });
+    expect(parseComponentName("utils")).toEqual({
+      namespace: null,
+      name: "utils",
+    });
+    expect(formatComponentName("acme", "hero-glow")).toBe("@acme/hero-glow");
+    expect(formatComponentName("default", "utils")).toBe("utils");
+  });
+
+  it("reads a directory relative to the project or as a file URL", async () => {
+    const registry = await writeRegistry(root);
+
+    const relative = createRegistrySource("./public/r", root);
+    const res = await relative.get("react/card.json");
+    expect(await res.json()).toEqual({ name: "card" });
+    expect((await relative.get("react/ghost.json")).status).toBe(404);
+
+    const url = createRegistrySource(pathToFileURL(registry).href);
+    expect((await url.get("index.json")).ok).toBe(true);
+    expect((await url.get("vue/card.json")).ok).toBe(false);
+  });
+
+  it("sends auth headers from the environment", async () => {
+    vi.stubEnv("CLIPMOTION_REGISTRY_TOKEN", "secret");
+    vi.stubEnv("CLIPMOTION_REGISTRY_HEADERS", '{"X-Team":"motion"}');
+    (global.fetch as any).mockImplementation(
+      async () => new Response(null, { status: 200 })
+    );
+
+    await getRegistrySource({
+      registry: { baseUrl: "https://registry.acme.dev/r/" },
+    } as any).get("index.json");
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://registry.acme.dev/r/index.json",
+      { headers: { Authorization: "Bearer secret", "X-Team": "motion" } }
+    );
+  });
+
+  it("gives each registry its own credentials", async () => {
+    vi.stubEnv("CLIPMOTION_REGISTRY_TOKEN", "secret");
+    vi.stubEnv("CLIPMOTION_REGISTRY_TOKEN_ACME", "acme-secret");
+    (global.fetch as any).mockImplementation(
+      async () => new Response(null, { status: 200 })
+    );
+    const project = {
+      registry: { acme: { baseUrl: "https://registry.acme.dev/r" } },
+    } as any;
+
+    await getRegistrySource(project).get("index.json");
+    await getRegistrySource(project, { namespace: "acme" }).get("index.json");
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      `${DEFAULT_REGISTRY_URL}/index.json`,
+      { headers: {} }
+    );
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://registry.acme.dev/r/index.json",
+      { headers: { Authorization: "Bearer acme-secret" } }
+    );
+  });
+
+  it("rejects headers that aren't JSON", () => {
+    expect(() =>
+      getRegistryHeaders(
+        "acme",
+        {
+          registry: { acme: { baseUrl: "https://registry.acme.dev/r" } },
+        } as any,
+        { CLIPMOTION_REGISTRY_HEADERS_ACME: "X-Team: motion" }
+      )
+    ).toThrow("CLIPMOTION_REGISTRY_HEADERS_ACME must be a JSON object");
+  });
+
+  it("checks out a git ref and reads its public/r", async () => {
+    const repo = join(root, "repo");
+    await writeRegistry(repo);
+    const git = (...args: string[]) => execa("git", args, { cwd: repo });
+    await git("init", "--quiet", "--initial-branch", "main");
+    await git("add", ".");
+    await git(
+      "-c",
+      "user.name=test",
+      "-c",
+      "user.email=test@example.com",
+      "commit",
+      "--quiet",
+      "-m",
+      "registry"
+    );
+
+    const source = createRegistrySource(`git+${pathToFileURL(repo).href}#main`);
+    const res = await source.get("react/card.json");
+
+    expect(res.ok).toBe(true);
+    expect(await res.json()).toEqual({ name: "card" });
+
+    // The checkout stays usable without the remote
+    await rm(repo, { recursive: true, force: true });
+    const offline = createRegistrySource(
+      `git+${pathToFileURL(repo).href}#main`,
+      root,
+      "offline"
+    );
+    expect((await offline.get("index.json")).ok).toBe(true);
+  });
+
+  it("refuses git and npm registries never fetched when offline", async () => {
+    const source = createRegistrySource(
+      "npm:@acme/motion-registry",
+      root,
+      "offline"
+    );
+
+    await expect(source.get("index.json")).rejects.toThrow(
+      "npm:@acme/motion-registry is not cached yet"
+    );
+  });
+
+  it("never fetches over HTTP offline when the cache is off", async () => {
+    vi.stubEnv("CLIPMOTION_NO_CACHE", "1");
+    const source = createRegistrySource(
+      "https://registry.acme.dev/r",
+      root,
+      "offline"
+    );
+
+    await expect(source.get("index.json")).rejects.toThrow(
+      "can't be read with --offline"
+    );
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -1,8 +1,8 @@
 // tests/cli/registry-build.test.ts
 import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
-import { mkdir, writeFile, readFile, rm } from "fs/promises";
+import { mkdir, writeFile, readFile, rm, stat } from "fs/promises";
 import { existsSync } from "fs";
-import { join, relative } from "path";
+import { join, relative, sep } from "path";
 import { tmpdir } from "os";
 import { __test__, buildRegistry } from "../../cli/commands/registry-build";
 
@@ -153,10 +153,16 @@ export function cn(...classes: string[]) {
     expect(componentJson.type).toBe("registry:component");
     expect(componentJson.description).toBe("Blur toggle component");
     expect(componentJson.files[0].name).toBe("blur-image-toggle.tsx");
-    expect(componentJson.dependencies).toContain("react");
+    expect(componentJson.dependencies).toEqual([]);
+    expect(componentJson.peerDependencies).toEqual(["react"]);
     expect(componentJson.registryDependencies).toContain("utils");
-    expect(componentJson.meta.source).toBe(
+    expect(componentJson.meta.sources).toEqual([
+      "https://instagram.com/p/test123",
+    ]);
+    expect(componentJson.meta.filePath).toBe(
       relative(projectDir, join(reactUiDir, "blur-image-toggle.tsx"))
+        .split(sep)
+        .join("/")
     );
     expect(componentJson.meta.category).toBe("Image Effects");
     expect(componentJson.meta.contributor).toEqual(
@@ -170,7 +176,7 @@ export function cn(...classes: string[]) {
     expect(utilsJson.name).toBe("utils");
     expect(utilsJson.type).toBe("registry:lib");
     expect(utilsJson.files[0].name).toBe("utils/index.ts");
-    expect(utilsJson.dependencies).toContain("react");
+    expect(utilsJson.peerDependencies).toContain("react");
 
     // Index JSON
     expect(indexJson.frameworks).toEqual(["react"]);
@@ -184,11 +190,380 @@ export function cn(...classes: string[]) {
         name: "blur-image-toggle",
         description: "Blur toggle component",
         libraries: ["react"],
-        sources: [componentJson.meta.source],
+        sources: ["https://instagram.com/p/test123"],
       })
     );
   });
 
+  it("collects every @source video URL and strips quotes", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    await writeFile(
+      join(reactUiDir, "image-crossfade.tsx"),
+      `
+/**
+ * @description Crossfade
+ * @source "https://www.instagram.com/p/DRPOaKMiItG"
+ * @source https://youtube.com/shorts/abc123
+ */
+export function ImageCrossfade() {
+  return null;
+}
+`,
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    const outputDir = join(projectDir, "public", "r");
+    const itemJson = JSON.parse(
+      await readFile(join(outputDir, "react", "image-crossfade.json"), "utf8")
+    );
+    const indexJson = JSON.parse(
+      await readFile(join(outputDir, "index.json"), "utf8")
+    );
+
+    const expected = [
+      "https://www.instagram.com/p/DRPOaKMiItG",
+      "https://youtube.com/shorts/abc123",
+    ];
+    expect(itemJson.meta.sources).toEqual(expected);
+    expect(itemJson.meta.filePath).toBe("registry/react/ui/image-crossfade.tsx");
+    expect(indexJson.animations[0].sources).toEqual(expected);
+  });
+
+  it("writes a share-link alias table into the index", async () => {
+    const registryDir = join(projectDir, "registry");
+    const reactUiDir = join(registryDir, "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    await writeFile(
+      join(reactUiDir, "glow.tsx"),
+      `/**
+ * @source https://www.tiktok.com/@nerdboi/video/7301234567890123456
+ * @source https://vm.tiktok.com/ZMabc123/
+ */
+export const Glow = () => null;
+`,
+      "utf8"
+    );
+
+    await writeFile(
+      join(registryDir, "aliases.json"),
+      JSON.stringify({
+        "https://www.instagram.com/share/reel/BAabc":
+          "https://www.instagram.com/reel/DRPOaKMiItG",
+      }),
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    const indexJson = JSON.parse(
+      await readFile(join(projectDir, "public", "r", "index.json"), "utf8")
+    );
+
+    expect(indexJson.aliases).toEqual({
+      "instagram:short:BAabc": "instagram:DRPOaKMiItG",
+      "tiktok:short:ZMabc123": "tiktok:7301234567890123456",
+    });
+  });
+
+  it("merges the same animation across frameworks into one index entry", async () => {
+    const registryDir = join(projectDir, "registry");
+    const reactUiDir = join(registryDir, "react", "ui");
+    const nextUiDir = join(registryDir, "nextjs", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+    await mkdir(nextUiDir, { recursive: true });
+    await writeFile(
+      join(projectDir, "package.json"),
+      JSON.stringify({
+        devDependencies: { motion: "^12.0.0", react: "^18.3.0" },
+      })
+    );
+
+    await writeFile(
+      join(reactUiDir, "glow.tsx"),
+      `/**
+ * @description Glow
+ * @source https://www.instagram.com/p/DRPOaKMiItG
+ */
+import { useState } from "react";
+export const Glow = () => null;
+`,
+      "utf8"
+    );
+
+    await writeFile(
+      join(nextUiDir, "glow.tsx"),
+      `"use client";
+/**
+ * @description Glow
+ * @source https://www.instagram.com/p/DRPOaKMiItG
+ */
+import { motion } from "motion/react";
+import { useState } from "react";
+export const Glow = () => null;
+`,
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    const indexJson = JSON.parse(
+      await readFile(join(projectDir, "public", "r", "index.json"), "utf8")
+    );
+
+    const glows = indexJson.animations.filter(
+      (animation: { id: string }) => animation.id === "glow"
+    );
+    expect(glows).toHaveLength(1);
+
+    const [glow] = glows;
+    expect([...glow.libraries].sort()).toEqual(["nextjs", "react"]);
+    expect(glow.sources).toEqual(["https://www.instagram.com/p/DRPOaKMiItG"]);
+    expect(glow.dependencies).toEqual(["motion@^12.0.0"]);
+    expect(glow.frameworks.react).toEqual({
+      files: ["glow.tsx"],
+      dependencies: [],
+      devDependencies: [],
+      peerDependencies: ["react@^18.3.0"],
+      registryDependencies: [],
+    });
+    expect(glow.frameworks.nextjs.peerDependencies).toEqual([
+      "next",
+      "react@^18.3.0",
+    ]);
+  });
+
+  it("fails the build when @source is not a URL", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    await writeFile(
+      join(reactUiDir, "broken.tsx"),
+      `/**
+ * @source registry/react/ui/broken.tsx
+ */
+export const Broken = () => null;
+`,
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("meta.sources.0")
+    );
+    expect(
+      existsSync(join(projectDir, "public", "r", "react", "broken.json"))
+    ).toBe(false);
+  });
+
+  it("merges a meta.json manifest over the JSDoc tags", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    await writeFile(
+      join(reactUiDir, "ripple.tsx"),
+      `/**
+ * @description Ripple from tags
+ * @source https://youtube.com/watch?v=abc123
+ * @author Tag Author
+ */
+export const Ripple = () => null;
+`,
+      "utf8"
+    );
+    await writeFile(
+      join(reactUiDir, "ripple.meta.json"),
+      JSON.stringify({
+        description: "Ripple from the manifest",
+        difficulty: "hard",
+        tags: ["click", "material"],
+        demoUrl: "https://clipmotion.dev/demo/ripple",
+        sources: ["https://vimeo.com/76979871"],
+        contributor: { github: "https://github.com/ripple" },
+        peerDependencies: ["motion"],
+        props: [{ name: "color", type: "string", default: '"white"' }],
+      })
+    );
+
+    await buildRegistry();
+
+    const outputDir = join(projectDir, "public", "r");
+    const rippleJson = JSON.parse(
+      await readFile(join(outputDir, "react", "ripple.json"), "utf8")
+    );
+    const indexJson = JSON.parse(
+      await readFile(join(outputDir, "index.json"), "utf8")
+    );
+
+    expect(rippleJson.description).toBe("Ripple from the manifest");
+    expect(rippleJson.peerDependencies).toEqual(["motion", "react"]);
+    expect(rippleJson.meta).toEqual(
+      expect.objectContaining({
+        difficulty: "hard",
+        tags: ["click", "material"],
+        demoUrl: "https://clipmotion.dev/demo/ripple",
+        sources: [
+          "https://youtube.com/watch?v=abc123",
+          "https://vimeo.com/76979871",
+        ],
+        contributor: expect.objectContaining({
+          name: "Tag Author",
+          github: "https://github.com/ripple",
+        }),
+        props: [{ name: "color", type: "string", default: '"white"' }],
+      })
+    );
+    expect(indexJson.animations[0]).toEqual(
+      expect.objectContaining({
+        difficulty: "hard",
+        tags: ["click", "material"],
+        demoUrl: "https://clipmotion.dev/demo/ripple",
+      })
+    );
+  });
+
+  it("reads a meta export of the component", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    await writeFile(
+      join(reactUiDir, "wave.tsx"),
+      `export const meta = {
+  difficulty: "easy",
+  tags: ["loop"],
+} as const;
+
+export const Wave = () => null;
+`,
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    const waveJson = JSON.parse(
+      await readFile(
+        join(projectDir, "public", "r", "react", "wave.json"),
+        "utf8"
+      )
+    );
+    expect(waveJson.meta.difficulty).toBe("easy");
+    expect(waveJson.meta.tags).toEqual(["loop"]);
+  });
+
+  it("reports every invalid manifest field and fails the build", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    await writeFile(
+      join(reactUiDir, "bad.tsx"),
+      "export const Bad = () => null;",
+      "utf8"
+    );
+    await writeFile(
+      join(reactUiDir, "bad.meta.json"),
+      JSON.stringify({
+        difficulty: "extreme",
+        tag: ["typo"],
+        props: [{ name: "size" }],
+      })
+    );
+
+    await buildRegistry();
+
+    const errors = consoleErrorSpy.mock.calls.map((call: unknown[]) =>
+      String(call[0])
+    );
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(errors).toContainEqual(
+      expect.stringContaining("registry/react/ui/bad.meta.json")
+    );
+    expect(errors).toContainEqual(expect.stringContaining("[difficulty]"));
+    expect(errors).toContainEqual(expect.stringContaining("[props.0.type]"));
+    expect(errors.some((error: string) => error.includes('"tag"'))).toBe(true);
+    expect(
+      existsSync(join(projectDir, "public", "r", "react", "bad.json"))
+    ).toBe(false);
+  });
+
+  it("reads dependencies and their versions from the import syntax", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+    await writeFile(
+      join(projectDir, "package.json"),
+      JSON.stringify({
+        dependencies: { three: "^0.170.0" },
+        devDependencies: {
+          "@types/three": "^0.170.0",
+          "@react-spring/web": "^9.7.0",
+          lenis: "^1.1.0",
+          motion: "^12.0.0",
+          react: "^18.3.0",
+        },
+      })
+    );
+
+    await writeFile(
+      join(reactUiDir, "scene.tsx"),
+      `import type { SpringValue } from "@react-spring/web";
+import { type MotionValue } from "motion/react";
+import { readFileSync } from "fs";
+import { join } from "node:path";
+import * as THREE from "three";
+import "lenis/dist/lenis.css";
+export { animate } from "motion";
+const { useState } = require("react");
+type Loader = typeof import("three/addons/loaders/GLTFLoader.js");
+`,
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    const sceneJson = JSON.parse(
+      await readFile(
+        join(projectDir, "public", "r", "react", "scene.json"),
+        "utf8"
+      )
+    );
+    expect(sceneJson.dependencies).toEqual([
+      "lenis@^1.1.0",
+      "motion@^12.0.0",
+      "three@^0.170.0",
+    ]);
+    expect(sceneJson.devDependencies).toEqual([
+      "@react-spring/web@^9.7.0",
+      "@types/three@^0.170.0",
+    ]);
+    expect(sceneJson.peerDependencies).toEqual(["react@^18.3.0"]);
+  });
+
+  it("fails the build on packages missing from package.json", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+    await writeFile(join(projectDir, "package.json"), "{}");
+    await writeFile(
+      join(reactUiDir, "typo.tsx"),
+      'import { animate } from "motoin";\n',
+      "utf8"
+    );
+
+    await buildRegistry();
+
+    expect(processExitSpy).toHaveBeenCalledWith(1);
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining('"motoin" is imported but not in package.json')
+    );
+    expect(
+      existsSync(join(projectDir, "public", "r", "react", "typo.json"))
+    ).toBe(false);
+  });
+
   it("handles hooks directory and counts them as utilities", async () => {
     const registryDir = join(projectDir, "registry");
     const nextHooksDir = join(registryDir, "nextjs", "hooks");
@@ -234,6 +609,124 @@ export function useScroll() {
     expect(indexJson.stats.totalUtilities).toBe(1);
   });
 
+  it("bundles a component folder into one item with typed files", async () => {
+    const reactDir = join(projectDir, "registry", "react");
+    const glowDir = join(reactDir, "ui", "glow");
+    await mkdir(join(glowDir, "shaders"), { recursive: true });
+    await mkdir(join(reactDir, "lib"), { recursive: true });
+
+    await writeFile(
+      join(glowDir, "glow.tsx"),
+      `
+/**
+ * @description Glow component
+ */
+
+import { cn } from "../../lib/utils";
+import { useGlow } from "./use-glow";
+import { Halo } from "./halo";
+import styles from "./glow.module.css";
+import noise from "./shaders/noise.glsl";
+
+export const Glow = () => <div className={cn(styles.glow)} />;
+`,
+      "utf8"
+    );
+    await writeFile(
+      join(glowDir, "use-glow.ts"),
+      'import { useState } from "react";\nimport { Halo } from "./halo";\n',
+      "utf8"
+    );
+    await writeFile(join(glowDir, "halo.tsx"), "export const Halo = 1;");
+    await writeFile(join(glowDir, "glow.module.css"), ".glow { color: red; }");
+    await writeFile(join(glowDir, "shaders", "noise.glsl"), "void main() {}");
+    await writeFile(join(glowDir, "README.md"), "# Glow");
+    await writeFile(join(reactDir, "lib", "utils.ts"), "export const cn = 1;");
+
+    await buildRegistry();
+
+    const glowJson = JSON.parse(
+      await readFile(
+        join(projectDir, "public", "r", "react", "glow.json"),
+        "utf8"
+      )
+    );
+    const files = Object.fromEntries(
+      glowJson.files.map((file: any) => [file.name, file])
+    );
+
+    expect(glowJson.name).toBe("glow");
+    expect(glowJson.description).toBe("Glow component");
+    expect(Object.keys(files).sort()).toEqual([
+      "glow.module.css",
+      "glow.tsx",
+      "halo.tsx",
+      "shaders/noise.glsl",
+      "use-glow.ts",
+    ]);
+    expect(files["glow.tsx"].type).toBe("registry:component");
+    expect(files["halo.tsx"].type).toBe("registry:component");
+    expect(files["use-glow.ts"].type).toBe("registry:hook");
+    expect(files["glow.module.css"].type).toBe("registry:style");
+    expect(files["shaders/noise.glsl"].type).toBe("registry:asset");
+
+    // Imports across file types become placeholders `add` resolves
+    expect(files["glow.tsx"].content).toContain(
+      'import { cn } from "@/components/utils";'
+    );
+    expect(files["glow.tsx"].content).toContain('from "@/hooks/use-glow";');
+    expect(files["glow.tsx"].content).toContain('from "./halo";');
+    expect(files["glow.tsx"].content).toContain(
+      'from "@/styles/glow.module.css";'
+    );
+    expect(files["glow.tsx"].content).toContain(
+      'from "@/assets/shaders/noise.glsl";'
+    );
+    expect(files["use-glow.ts"].content).toContain('from "@/components/halo";');
+    expect(glowJson.dependencies).toEqual([]);
+    expect(glowJson.peerDependencies).toEqual(["react"]);
+    expect(glowJson.registryDependencies).toEqual(["utils"]);
+
+    const indexJson = JSON.parse(
+      await readFile(join(projectDir, "public", "r", "index.json"), "utf8")
+    );
+    expect(indexJson.stats.totalComponents).toBe(1);
+  });
+
+  it("ships files a component declares with @include", async () => {
+    const reactDir = join(projectDir, "registry", "react");
+    await mkdir(join(reactDir, "ui", "assets"), { recursive: true });
+
+    await writeFile(
+      join(reactDir, "ui", "sparkle.tsx"),
+      `
+/**
+ * @include ./assets/star.svg
+ */
+
+import star from "./assets/star.svg";
+`,
+      "utf8"
+    );
+    await writeFile(join(reactDir, "ui", "assets", "star.svg"), "<svg />");
+
+    await buildRegistry();
+
+    const sparkleJson = JSON.parse(
+      await readFile(
+        join(projectDir, "public", "r", "react", "sparkle.json"),
+        "utf8"
+      )
+    );
+    expect(sparkleJson.files).toEqual([
+      expect.objectContaining({ name: "sparkle.tsx" }),
+      { name: "star.svg", content: "<svg />", type: "registry:asset" },
+    ]);
+    expect(sparkleJson.files[0].content).toContain(
+      'import star from "@/assets/star.svg";'
+    );
+  });
+
   it("logs errors but continues building when individual files fail", async () => {
     const registryDir = join(projectDir, "registry");
     const reactDir = join(registryDir, "react", "ui");
@@ -286,4 +779,139 @@ export function useScroll() {
 
     statSpy.mockRestore();
   });
+
+  it("skips unchanged items and keeps index.json as it was", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+    await writeFile(
+      join(reactUiDir, "fade.tsx"),
+      "export const Fade = () => null;"
+    );
+    await writeFile(
+      join(reactUiDir, "slide.tsx"),
+      "export const Slide = () => null;"
+    );
+
+    const outputDir = join(projectDir, "public", "r");
+    const fadeJsonPath = join(outputDir, "react", "fade.json");
+    const indexJsonPath = join(outputDir, "index.json");
+
+    await buildRegistry();
+    const fadeModified = (await stat(fadeJsonPath)).mtimeMs;
+    const index = await readFile(indexJsonPath, "utf8");
+
+    await new Promise((r) => setTimeout(r, 20));
+    await buildRegistry();
+
+    expect((await stat(fadeJsonPath)).mtimeMs).toBe(fadeModified);
+    expect(await readFile(indexJsonPath, "utf8")).toBe(index);
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Unchanged: 2")
+    );
+    expect(
+      existsSync(
+        join(
+          projectDir,
+          "node_modules",
+          ".cache",
+          "clipmotion",
+          "registry-build.json"
+        )
+      )
+    ).toBe(true);
+  });
+
+  it("builds the same items from CRLF sources", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+    const source = `
+/**
+ * @description Fades in
+ */
+export const Fade = () => null;
+`;
+    await writeFile(join(reactUiDir, "fade.tsx"), source);
+
+    const fadeJsonPath = join(projectDir, "public", "r", "react", "fade.json");
+    await buildRegistry();
+    const lf = await readFile(fadeJsonPath, "utf8");
+
+    await writeFile(
+      join(reactUiDir, "fade.tsx"),
+      source.replace(/\n/g, "\r\n")
+    );
+    await rm(join(projectDir, "node_modules"), { recursive: true });
+    await buildRegistry();
+
+    expect(await readFile(fadeJsonPath, "utf8")).toBe(lf);
+    expect(lf).not.toContain("\\r");
+  });
+
+  it("rebuilds changed items and removes outputs of deleted ones", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+    await writeFile(
+      join(reactUiDir, "fade.tsx"),
+      "export const Fade = () => null;"
+    );
+    await writeFile(
+      join(reactUiDir, "slide.tsx"),
+      "export const Slide = () => null;"
+    );
+
+    const outputDir = join(projectDir, "public", "r");
+    const indexJsonPath = join(outputDir, "index.json");
+
+    await buildRegistry();
+    const before = JSON.parse(await readFile(indexJsonPath, "utf8"));
+
+    await new Promise((r) => setTimeout(r, 20));
+    await writeFile(
+      join(reactUiDir, "fade.tsx"),
+      `
+/**
+ * @description Fades in
+ */
+export const Fade = () => null;
+`
+    );
+    await rm(join(reactUiDir, "slide.tsx"));
+    await buildRegistry();
+
+    const fadeJson = JSON.parse(
+      await readFile(join(outputDir, "react", "fade.json"), "utf8")
+    );
+    expect(fadeJson.description).toBe("Fades in");
+    expect(existsSync(join(outputDir, "react", "slide.json"))).toBe(false);
+
+    const after = JSON.parse(await readFile(indexJsonPath, "utf8"));
+    expect(after.stats.totalComponents).toBe(1);
+    expect(after.animations.map((a: { id: string }) => a.id)).toEqual(["fade"]);
+    expect(after.lastUpdated).not.toBe(before.lastUpdated);
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Removed: 1")
+    );
+  });
+
+  it("rebuilds after a burst of changes while watching", async () => {
+    const reactUiDir = join(projectDir, "registry", "react", "ui");
+    await mkdir(reactUiDir, { recursive: true });
+
+    const onChange = vi.fn();
+    const stop = __test__.watchRegistry(join(projectDir, "registry"), onChange);
+
+    try {
+      await writeFile(join(reactUiDir, "fade.tsx"), "export {};");
+      await writeFile(join(reactUiDir, "slide.tsx"), "export {};");
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+
+      // Directories created later are watched too
+      await mkdir(join(reactUiDir, "sparkle"));
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(2));
+      await writeFile(join(reactUiDir, "sparkle", "sparkle.tsx"), "export {};");
+      await vi.waitFor(() => expect(onChange).toHaveBeenCalledTimes(3));
+    } finally {
+      stop();
+    }
+  });
 });
@@ -0,0 +1,320 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readdir, readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { addComponent } from "../../cli/commands/add";
+import { removeComponents } from "../../cli/commands/remove";
+
+// Mock @clack/prompts
+vi.mock("@clack/prompts", () => ({
+  confirm: vi.fn(),
+}));
+
+// Mock ora
+vi.mock("ora", () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: "",
+  })),
+}));
+
+vi.mock("execa", () => ({
+  execa: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+}));
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+const makeItem = (
+  name: string,
+  dependencies: string[],
+  registryDependencies = ["utils"]
+) => ({
+  name,
+  type: "registry:component",
+  files: [{ name: `${name}.tsx`, content: `export const ${name} = 1;\n` }],
+  dependencies,
+  devDependencies: [],
+  registryDependencies,
+});
+
+const registry: Record<string, unknown> = {
+  card: makeItem("card", ["motion", "gsap"]),
+  badge: makeItem("badge", ["motion"]),
+  utils: {
+    name: "utils",
+    type: "registry:lib",
+    files: [
+      {
+        name: "utils/index.ts",
+        content:
+          "export function cn(a: string) { return a; }\n\n" +
+          "export function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }\n",
+      },
+    ],
+    dependencies: [],
+    devDependencies: [],
+    registryDependencies: [],
+  },
+};
+
+describe("clipmotion remove", () => {
+  let projectDir: string;
+  let consoleLogSpy: any;
+  let consoleErrorSpy: any;
+  let processExitSpy: any;
+
+  const output = () =>
+    consoleLogSpy.mock.calls
+      .map((call: unknown[]) => call.join(" "))
+      .join("\n");
+
+  const path = (...parts: string[]) => join(projectDir, ...parts);
+  const readLock = async () =>
+    JSON.parse(await readFile(path("clipmotion-lock.json"), "utf-8"));
+
+  /** `add` runs through a mocked package manager, so fake its result */
+  const installPackages = (names: string[]) =>
+    writeFile(
+      path("package.json"),
+      JSON.stringify({
+        dependencies: Object.fromEntries(
+          ["react", ...names].map((name) => [name, "*"])
+        ),
+      })
+    );
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-remove-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      path("clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components/ui",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+    await installPackages([]);
+
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      const component = registry[name];
+      return component
+        ? jsonResponse(component)
+        : new Response(null, { status: 404, statusText: "Not Found" });
+    });
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("previews the removal with --dry-run", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+    await installPackages(["motion", "gsap"]);
+    const before = await readLock();
+
+    await removeComponents(["card"], { cwd: projectDir, dryRun: true });
+
+    const text = output();
+    expect(text).toContain("Would remove card");
+    expect(text).toContain(
+      "Registry dependencies no other component needs: utils"
+    );
+    expect(text).toContain("- components/ui/card.tsx");
+    expect(text).toContain("Packages no other component needs:");
+    expect(text).toContain("Dry run, nothing was changed");
+
+    expect(existsSync(path("components", "ui", "card.tsx"))).toBe(true);
+    expect(await readLock()).toEqual(before);
+  });
+
+  it("deletes the files, empty folders and lockfile entry", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    await removeComponents(["card", "utils"], { cwd: projectDir, yes: true });
+
+    expect(existsSync(path("components"))).toBe(false);
+    expect((await readLock()).components).toEqual({});
+    expect(await readdir(path(".clipmotion", "objects"))).toEqual([]);
+  });
+
+  it("prunes only the component's functions from the utils file", async () => {
+    await mkdir(path("components", "utils"), { recursive: true });
+    await writeFile(
+      path("components", "utils", "index.ts"),
+      "export function mine() { return 1; }\n"
+    );
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    await removeComponents(["card", "utils"], { cwd: projectDir, yes: true });
+
+    expect(output()).toContain("(remove cn, lerp)");
+    expect(
+      await readFile(path("components", "utils", "index.ts"), "utf-8")
+    ).toBe("export function mine() { return 1; }\n");
+  });
+
+  it("removes registry dependencies no other component needs", async () => {
+    await mkdir(path("components", "utils"), { recursive: true });
+    await writeFile(
+      path("components", "utils", "index.ts"),
+      "export function mine() { return 1; }\n"
+    );
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    await removeComponents(["card"], { cwd: projectDir, yes: true });
+
+    expect(output()).toContain("Removing card");
+    expect(output()).toContain(
+      "Registry dependencies no other component needs: utils"
+    );
+    expect(output()).toContain("(remove cn, lerp)");
+    expect(
+      await readFile(path("components", "utils", "index.ts"), "utf-8")
+    ).toBe("export function mine() { return 1; }\n");
+    expect((await readLock()).components).toEqual({});
+  });
+
+  it("keeps registry dependencies other components still need", async () => {
+    await addComponent(["card", "badge"], { cwd: projectDir, silent: true });
+
+    await removeComponents(["card"], { cwd: projectDir, yes: true });
+
+    expect(Object.keys((await readLock()).components)).toEqual([
+      "badge",
+      "utils",
+    ]);
+    expect(
+      await readFile(path("components", "utils", "index.ts"), "utf-8")
+    ).toContain("export function cn");
+  });
+
+  it("keeps registry dependencies that were added by name", async () => {
+    await addComponent(["utils"], { cwd: projectDir, silent: true });
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    await removeComponents(["card"], { cwd: projectDir, yes: true });
+
+    expect(output()).not.toContain("Registry dependencies no other");
+    expect((await readLock()).components.utils.direct).toBe(true);
+    expect(
+      await readFile(path("components", "utils", "index.ts"), "utf-8")
+    ).toContain("export function cn");
+  });
+
+  it("refuses to remove a registry dependency other components need", async () => {
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    await expect(
+      removeComponents(["utils"], { cwd: projectDir, yes: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("utils is required by card")
+    );
+    expect(existsSync(path("components", "utils", "index.ts"))).toBe(true);
+  });
+
+  it("offers to uninstall packages nothing else needs", async () => {
+    const { confirm } = await import("@clack/prompts");
+    const { execa } = await import("execa");
+    await addComponent(["card", "badge"], { cwd: projectDir, silent: true });
+    await installPackages(["motion", "gsap"]);
+    (confirm as any).mockResolvedValue(true);
+    vi.mocked(execa).mockClear();
+
+    await removeComponents(["card"], { cwd: projectDir });
+
+    expect(confirm).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "Uninstall gsap?" })
+    );
+    expect(execa).toHaveBeenCalledWith(
+      "npm",
+      ["uninstall", "gsap"],
+      expect.objectContaining({ cwd: projectDir })
+    );
+    expect(Object.keys((await readLock()).components)).toEqual([
+      "badge",
+      "utils",
+    ]);
+  });
+
+  it("keeps packages when the uninstall is declined", async () => {
+    const { confirm } = await import("@clack/prompts");
+    const { execa } = await import("execa");
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+    await installPackages(["motion", "gsap"]);
+    (confirm as any).mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+    vi.mocked(execa).mockClear();
+
+    await removeComponents(["card"], { cwd: projectDir });
+
+    expect(existsSync(path("components", "ui", "card.tsx"))).toBe(false);
+    expect(execa).not.toHaveBeenCalled();
+  });
+
+  it("keeps files that existed before install", async () => {
+    await mkdir(path("components", "ui"), { recursive: true });
+    await writeFile(path("components", "ui", "card.tsx"), "// mine");
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    await removeComponents(["card"], { cwd: projectDir, yes: true });
+
+    expect(output()).toContain("components/ui/card.tsx (kept)");
+    expect(await readFile(path("components", "ui", "card.tsx"), "utf-8")).toBe(
+      "// mine"
+    );
+  });
+
+  it("does nothing when the confirmation is declined", async () => {
+    const { confirm } = await import("@clack/prompts");
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+    (confirm as any).mockResolvedValue(false);
+
+    await removeComponents(["card"], { cwd: projectDir });
+
+    expect(existsSync(path("components", "ui", "card.tsx"))).toBe(true);
+    expect((await readLock()).components.card).toBeDefined();
+    expect(output()).toContain("Aborted");
+  });
+
+  it("rejects components that aren't installed", async () => {
+    await expect(
+      removeComponents(["ghost"], { cwd: projectDir, yes: true })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Not installed: ghost")
+    );
+  });
+});
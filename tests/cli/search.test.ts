@@ -0,0 +1,351 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { rankAnimations, searchComponents } from "../../cli/commands/search";
+import type { RegistryEntry } from "../../cli/commands/types";
+
+// Mock @clack/prompts
+vi.mock("@clack/prompts", () => ({
+  select: vi.fn(),
+  confirm: vi.fn(),
+}));
+
+// Mock ora
+vi.mock("ora", () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+  })),
+}));
+
+// Mock the addComponent function
+vi.mock("../../cli/commands/add", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../cli/commands/add")>()),
+  addComponent: vi.fn().mockResolvedValue(undefined),
+}));
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+const animations: RegistryEntry[] = [
+  {
+    id: "chromatic-flow-background",
+    name: "chromatic-flow-background",
+    description: "A flowing, chromatic background that paints trails",
+    type: "registry:component",
+    category: "Hover Effects",
+    difficulty: "hard",
+    libraries: ["nextjs", "react"],
+    tags: ["cursor", "canvas"],
+    sources: ["https://www.instagram.com/reel/DSR2twIDEsu"],
+  },
+  {
+    id: "image-crossfade",
+    name: "image-crossfade",
+    description: "Crossfade between images on hover",
+    type: "registry:component",
+    category: "Image Effects",
+    difficulty: "easy",
+    libraries: ["react"],
+    tags: ["image", "hover"],
+    sources: ["https://www.instagram.com/p/DRPOaKMiItG"],
+  },
+  {
+    id: "blur-image-toggle",
+    name: "blur-image-toggle",
+    description: "Toggle blur effect on image click",
+    type: "registry:component",
+    category: "Image Effects",
+    difficulty: "medium",
+    libraries: ["nextjs"],
+    tags: ["blur"],
+    sources: ["https://instagram.com/p/test123"],
+  },
+  {
+    id: "utils",
+    name: "utils",
+    description: "Image helpers",
+    type: "registry:lib",
+    difficulty: "medium",
+    libraries: ["react"],
+    tags: [],
+    sources: [],
+  },
+];
+
+const ids = (entries: RegistryEntry[]) => entries.map((entry) => entry.id);
+
+describe("rankAnimations", () => {
+  it("ranks name matches above description matches", () => {
+    expect(ids(rankAnimations(animations, "image"))).toEqual([
+      "blur-image-toggle",
+      "image-crossfade",
+    ]);
+  });
+
+  it("requires every word to match", () => {
+    expect(ids(rankAnimations(animations, "image blur"))).toEqual([
+      "blur-image-toggle",
+    ]);
+  });
+
+  it("searches tags and category", () => {
+    expect(ids(rankAnimations(animations, "cursor"))).toEqual([
+      "chromatic-flow-background",
+    ]);
+    expect(ids(rankAnimations(animations, "hover effects"))).toContain(
+      "chromatic-flow-background"
+    );
+  });
+
+  it("tolerates typos and abbreviations", () => {
+    expect(ids(rankAnimations(animations, "crosfade"))).toEqual([
+      "image-crossfade",
+    ]);
+    expect(ids(rankAnimations(animations, "chromatc"))[0]).toBe(
+      "chromatic-flow-background"
+    );
+  });
+
+  it("applies framework, difficulty and category filters", () => {
+    expect(
+      ids(rankAnimations(animations, "image", { framework: "react" }))
+    ).toEqual(["image-crossfade"]);
+    expect(ids(rankAnimations(animations, "", { difficulty: "hard" }))).toEqual(
+      ["chromatic-flow-background"]
+    );
+    expect(
+      ids(rankAnimations(animations, "", { category: "image effects" }))
+    ).toEqual(["blur-image-toggle", "image-crossfade"]);
+  });
+
+  it("skips shared utilities", () => {
+    expect(ids(rankAnimations(animations, "helpers"))).toEqual([]);
+    expect(ids(rankAnimations(animations, ""))).not.toContain("utils");
+  });
+});
+
+describe("clipmotion search", () => {
+  let projectDir: string;
+  let consoleLogSpy: any;
+  let consoleErrorSpy: any;
+  let processExitSpy: any;
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-search-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+
+    (global.fetch as any).mockImplementation(async () =>
+      jsonResponse({ version: "1.0.0", animations })
+    );
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("prints ranked results from the configured registry", async () => {
+    await searchComponents("crossfade", {
+      cwd: projectDir,
+      interactive: false,
+    });
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      "https://example.com/registry/index.json",
+      expect.anything()
+    );
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining('1 result for "crossfade"')
+    );
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("image-crossfade")
+    );
+  });
+
+  it("installs the picked result with addComponent", async () => {
+    const { select } = await import("@clack/prompts");
+    const { addComponent } = await import("../../cli/commands/add");
+    (select as any).mockResolvedValue("image-crossfade");
+
+    await searchComponents("image", { cwd: projectDir });
+
+    expect(addComponent).toHaveBeenCalledWith(
+      ["image-crossfade"],
+      expect.objectContaining({ cwd: projectDir, local: false })
+    );
+  });
+
+  it("refuses to install a component missing for the project framework", async () => {
+    const { select } = await import("@clack/prompts");
+    const { addComponent } = await import("../../cli/commands/add");
+    (select as any).mockResolvedValue("blur-image-toggle");
+
+    await searchComponents("blur", { cwd: projectDir });
+
+    expect(addComponent).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("not available for react")
+    );
+  });
+
+  it("exits without installing", async () => {
+    const { select } = await import("@clack/prompts");
+    const { addComponent } = await import("../../cli/commands/add");
+    (select as any).mockResolvedValue("");
+
+    await searchComponents("image", { cwd: projectDir });
+
+    expect(addComponent).not.toHaveBeenCalled();
+  });
+
+  it("reports when nothing matches", async () => {
+    const { select } = await import("@clack/prompts");
+
+    await searchComponents("spaceship", { cwd: projectDir });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("No animations match")
+    );
+    expect(select).not.toHaveBeenCalled();
+  });
+
+  it("limits the number of results", async () => {
+    await searchComponents("", {
+      cwd: projectDir,
+      limit: "1",
+      interactive: false,
+    });
+
+    expect(consoleLogSpy).toHaveBeenCalledWith(
+      expect.stringContaining("and 2 more")
+    );
+  });
+
+  it("rejects an unknown difficulty and exits 1", async () => {
+    await expect(
+      searchComponents("image", {
+        cwd: projectDir,
+        difficulty: "extreme" as any,
+      })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid difficulty")
+    );
+  });
+
+  it("rejects an unknown framework and exits 1", async () => {
+    await expect(
+      searchComponents("image", {
+        cwd: projectDir,
+        framework: "reactt" as any,
+      })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid framework: reactt")
+    );
+  });
+
+  it("rejects an invalid limit and exits 1", async () => {
+    await expect(
+      searchComponents("image", { cwd: projectDir, limit: "0" })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Invalid limit")
+    );
+  });
+
+  it("exits 1 when the registry can't be fetched", async () => {
+    (global.fetch as any).mockRejectedValue(new Error("Network error"));
+
+    await expect(
+      searchComponents("image", { cwd: projectDir })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Failed to search the registry")
+    );
+  });
+
+  it("searches every named registry and prefixes their ids", async () => {
+    const { select } = await import("@clack/prompts");
+    const { addComponent } = await import("../../cli/commands/add");
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: { components: "components", utils: "components/utils" },
+        registry: {
+          default: { baseUrl: "https://example.com/registry" },
+          acme: { baseUrl: "https://motion.acme.dev/r" },
+          broken: { baseUrl: "https://broken.acme.dev/r" },
+        },
+      })
+    );
+    const heroGlow = { ...animations[1]!, id: "hero-glow", name: "hero-glow" };
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      if (url.startsWith("https://broken")) throw new Error("Network error");
+      const list = url.startsWith("https://motion.acme.dev")
+        ? [heroGlow]
+        : animations;
+      return jsonResponse({ animations: list });
+    });
+    (select as any).mockResolvedValue("@acme/hero-glow");
+
+    await searchComponents("", { cwd: projectDir });
+
+    const options = (select as any).mock.calls[0][0].options;
+    expect(options.map((option: any) => option.value)).toEqual(
+      expect.arrayContaining(["image-crossfade", "@acme/hero-glow"])
+    );
+    expect(addComponent).toHaveBeenCalledWith(
+      ["@acme/hero-glow"],
+      expect.objectContaining({ cwd: projectDir })
+    );
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Skipped registry "broken"')
+    );
+    warnSpy.mockRestore();
+  });
+});
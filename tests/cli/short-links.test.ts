@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  buildShortLinkAliases,
+  createHttpResolver,
+  readShortLinkCache,
+  resolveShortLink,
+} from "../../cli/short-links";
+import { parseVideoUrl } from "../../cli/video-identity";
+
+const SHORT_URL = "https://vm.tiktok.com/ZMabc123/";
+const CANONICAL_URL = "https://www.tiktok.com/@nerdboi/video/7301234567890123456";
+const SHORT_KEY = "tiktok:short:ZMabc123";
+const CANONICAL_KEY = "tiktok:7301234567890123456";
+
+describe("short-link resolution", () => {
+  let cacheDir: string;
+  let cachePath: string;
+
+  beforeEach(async () => {
+    cacheDir = join(
+      tmpdir(),
+      `clipmotion-short-links-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(cacheDir, { recursive: true });
+    cachePath = join(cacheDir, "short-links.json");
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("prefers the registry alias table", async () => {
+    const resolver = vi.fn();
+
+    const result = await resolveShortLink(SHORT_URL, parseVideoUrl(SHORT_URL)!, {
+      aliases: { [SHORT_KEY]: CANONICAL_KEY },
+      resolver,
+      cachePath,
+    });
+
+    expect(result).toEqual({ key: CANONICAL_KEY, via: "alias" });
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("uses the on-disk cache before the network", async () => {
+    await writeFile(cachePath, JSON.stringify({ [SHORT_KEY]: CANONICAL_KEY }));
+    const resolver = vi.fn();
+
+    const result = await resolveShortLink(SHORT_URL, parseVideoUrl(SHORT_URL)!, {
+      resolver,
+      cachePath,
+    });
+
+    expect(result).toEqual({ key: CANONICAL_KEY, via: "cache" });
+    expect(resolver).not.toHaveBeenCalled();
+  });
+
+  it("resolves through the resolver and caches the mapping", async () => {
+    const resolver = vi.fn().mockResolvedValue(CANONICAL_URL);
+
+    const result = await resolveShortLink(SHORT_URL, parseVideoUrl(SHORT_URL)!, {
+      resolver,
+      cachePath,
+    });
+
+    expect(result).toEqual({ key: CANONICAL_KEY, via: "resolver" });
+    expect(resolver).toHaveBeenCalledWith(SHORT_URL);
+    expect(readShortLinkCache(cachePath)).toEqual({
+      [SHORT_KEY]: CANONICAL_KEY,
+    });
+  });
+
+  it("stays offline without a resolver", async () => {
+    const result = await resolveShortLink(SHORT_URL, parseVideoUrl(SHORT_URL)!, {
+      resolver: null,
+      cachePath,
+    });
+
+    expect(result).toBeNull();
+    expect(existsSync(cachePath)).toBe(false);
+  });
+
+  it("ignores resolutions that are still share links", async () => {
+    const resolver = vi.fn().mockResolvedValue("https://vm.tiktok.com/ZMother/");
+
+    const result = await resolveShortLink(SHORT_URL, parseVideoUrl(SHORT_URL)!, {
+      resolver,
+      cachePath,
+    });
+
+    expect(result).toBeNull();
+  });
+
+  it("treats a corrupt cache as empty", async () => {
+    await writeFile(cachePath, "{not json");
+
+    expect(readShortLinkCache(cachePath)).toEqual({});
+  });
+
+  describe("createHttpResolver", () => {
+    it("follows redirects until a canonical video URL", async () => {
+      const fetchMock = vi
+        .spyOn(global, "fetch")
+        .mockResolvedValueOnce({
+          status: 301,
+          headers: new Headers({ location: "https://vm.tiktok.com/ZMnext/" }),
+        } as Response)
+        .mockResolvedValueOnce({
+          status: 302,
+          headers: new Headers({
+            location:
+              "https://www.tiktok.com/@nerdboi/video/7301234567890123456?_r=1",
+          }),
+        } as Response);
+
+      const resolved = await createHttpResolver()(SHORT_URL);
+
+      expect(resolved).toBe(
+        "https://www.tiktok.com/@nerdboi/video/7301234567890123456?_r=1"
+      );
+      expect(fetchMock).toHaveBeenCalledWith(
+        SHORT_URL,
+        expect.objectContaining({ redirect: "manual" })
+      );
+    });
+
+    it("returns null when the redirect never reaches a video", async () => {
+      vi.spyOn(global, "fetch").mockResolvedValue({
+        status: 200,
+        url: "https://www.tiktok.com/login",
+        headers: new Headers(),
+      } as Response);
+
+      expect(await createHttpResolver()(SHORT_URL)).toBeNull();
+    });
+  });
+
+  describe("buildShortLinkAliases", () => {
+    it("points share links at the component's canonical video", () => {
+      const aliases = buildShortLinkAliases([
+        [SHORT_URL, CANONICAL_URL],
+        ["https://www.instagram.com/p/DRPOaKMiItG"],
+      ]);
+
+      expect(aliases).toEqual({ [SHORT_KEY]: CANONICAL_KEY });
+    });
+
+    it("includes hand-maintained aliases", () => {
+      const aliases = buildShortLinkAliases([], {
+        "https://www.instagram.com/share/reel/BAabc": "https://instagram.com/reel/DRPOaKMiItG",
+        "https://not-a-share-link.com/x": CANONICAL_URL,
+      });
+
+      expect(aliases).toEqual({
+        "instagram:short:BAabc": "instagram:DRPOaKMiItG",
+      });
+    });
+  });
+});
+
+describe("short-link cache file", () => {
+  it("is written as plain JSON", async () => {
+    const dir = join(tmpdir(), `clipmotion-short-links-json-${Date.now()}`);
+    const cachePath = join(dir, "nested", "short-links.json");
+
+    await resolveShortLink(SHORT_URL, parseVideoUrl(SHORT_URL)!, {
+      resolver: async () => CANONICAL_URL,
+      cachePath,
+    });
+
+    expect(JSON.parse(await readFile(cachePath, "utf8"))).toEqual({
+      [SHORT_KEY]: CANONICAL_KEY,
+    });
+
+    await rm(dir, { recursive: true, force: true });
+  });
+});
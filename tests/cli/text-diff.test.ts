@@ -0,0 +1,172 @@
+import { describe, it, expect } from "vitest";
+import {
+  createUnifiedDiff,
+  diffLines,
+  mergeThreeWay,
+  splitLines,
+} from "../../cli/text-diff";
+
+const numbered = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe("text diff", () => {
+  it("splits lines ignoring the trailing newline and CRLF", () => {
+    expect(splitLines("a\r\nb\r\n")).toEqual(["a", "b"]);
+    expect(splitLines("a\nb")).toEqual(["a", "b"]);
+    expect(splitLines("")).toEqual([]);
+  });
+
+  it("diffs on the longest common subsequence", () => {
+    expect(diffLines(["a", "b", "c"], ["a", "x", "c"])).toEqual([
+      { type: "context", text: "a" },
+      { type: "remove", text: "b" },
+      { type: "add", text: "x" },
+      { type: "context", text: "c" },
+    ]);
+  });
+
+  it("returns an empty diff for identical text", () => {
+    expect(createUnifiedDiff("a\nb\n", "a\r\nb\r\n")).toBe("");
+  });
+
+  it("prints unified hunks with three lines of context", () => {
+    const before = numbered(20);
+    const after = [...before];
+    after[4] = "changed";
+    after.splice(15, 0, "inserted");
+
+    expect(
+      createUnifiedDiff(before.join("\n"), after.join("\n"), {
+        oldLabel: "registry/react/card.tsx",
+        newLabel: "components/card.tsx",
+      })
+    ).toBe(
+      [
+        "--- registry/react/card.tsx",
+        "+++ components/card.tsx",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+changed",
+        " line 6",
+        " line 7",
+        " line 8",
+        "@@ -13,6 +13,7 @@",
+        " line 13",
+        " line 14",
+        " line 15",
+        "+inserted",
+        " line 16",
+        " line 17",
+        " line 18",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("merges changes separated by less than two contexts", () => {
+    const before = numbered(12);
+    const after = [...before];
+    after[2] = "x";
+    after[8] = "y";
+
+    const diff = createUnifiedDiff(before.join("\n"), after.join("\n"));
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain("@@ -1,12 +1,12 @@");
+  });
+
+  it("numbers an empty side from line zero", () => {
+    expect(createUnifiedDiff("", "a\nb\n")).toContain("@@ -0,0 +1,2 @@");
+    expect(createUnifiedDiff("a\n", "")).toContain("@@ -1 +0,0 @@");
+  });
+});
+
+describe("three-way merge", () => {
+  const base = numbered(10).join("\n") + "\n";
+
+  const edit = (text: string, line: number, value: string) => {
+    const lines = text.split("\n");
+    lines[line - 1] = value;
+    return lines.join("\n");
+  };
+
+  it("takes upstream changes to lines the project didn't touch", () => {
+    const local = edit(base, 2, "local edit");
+    const upstream = edit(base, 8, "upstream edit");
+
+    const result = mergeThreeWay(base, local, upstream);
+
+    expect(result.conflicts).toBe(0);
+    expect(result.text).toBe(edit(local, 8, "upstream edit"));
+  });
+
+  it("takes an identical change once", () => {
+    const changed = edit(base, 5, "same");
+
+    expect(mergeThreeWay(base, changed, changed)).toEqual({
+      text: changed,
+      conflicts: 0,
+    });
+  });
+
+  it("merges insertions and deletions on both sides", () => {
+    const local = base.replace("line 3\n", "");
+    const upstream = base.replace("line 7\n", "line 7\nline 7.5\n");
+
+    const result = mergeThreeWay(base, local, upstream);
+
+    expect(result.conflicts).toBe(0);
+    expect(splitLines(result.text)).toEqual([
+      "line 1",
+      "line 2",
+      "line 4",
+      "line 5",
+      "line 6",
+      "line 7",
+      "line 7.5",
+      "line 8",
+      "line 9",
+      "line 10",
+    ]);
+  });
+
+  it("writes conflict markers when both sides change the same lines", () => {
+    const result = mergeThreeWay(
+      base,
+      edit(base, 5, "mine"),
+      edit(base, 5, "theirs"),
+      { localLabel: "card.tsx", upstreamLabel: "registry/react/card.tsx" }
+    );
+
+    expect(result.conflicts).toBe(1);
+    expect(splitLines(result.text).slice(3, 10)).toEqual([
+      "line 4",
+      "<<<<<<< card.tsx",
+      "mine",
+      "=======",
+      "theirs",
+      ">>>>>>> registry/react/card.tsx",
+      "line 6",
+    ]);
+  });
+
+  it("conflicts on different insertions at the same spot", () => {
+    const result = mergeThreeWay(base, base + "local\n", base + "upstream\n");
+
+    expect(result.conflicts).toBe(1);
+    expect(result.text.endsWith(">>>>>>> upstream\n")).toBe(true);
+  });
+
+  it("keeps the project's CRLF line endings", () => {
+    const local = edit(base, 1, "local").replace(/\n/g, "\r\n");
+    const upstream = edit(base, 10, "upstream");
+
+    const result = mergeThreeWay(base, local, upstream);
+
+    expect(result.text).toBe(
+      edit(edit(base, 1, "local"), 10, "upstream").replace(/\n/g, "\r\n")
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { existsSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { createTransaction } from "../../cli/transaction";
+
+describe("transaction", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = join(
+      tmpdir(),
+      `clipmotion-tx-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, "existing.ts"), "original");
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("stages writes until commit", async () => {
+    const transaction = createTransaction();
+    const nested = join(dir, "a", "b", "new.ts");
+
+    transaction.write(nested, "new");
+    transaction.write(join(dir, "existing.ts"), "changed");
+
+    expect(transaction.read(nested)).toBe("new");
+    expect(existsSync(nested)).toBe(false);
+    expect(await readFile(join(dir, "existing.ts"), "utf-8")).toBe("original");
+
+    transaction.commit();
+
+    expect(await readFile(nested, "utf-8")).toBe("new");
+    expect(await readFile(join(dir, "existing.ts"), "utf-8")).toBe("changed");
+  });
+
+  it("rolls back committed writes and the directories they needed", async () => {
+    const transaction = createTransaction();
+    transaction.write(join(dir, "a", "b", "new.ts"), "new");
+    transaction.write(join(dir, "existing.ts"), "changed");
+    transaction.commit();
+
+    transaction.rollback();
+
+    expect(existsSync(join(dir, "a"))).toBe(false);
+    expect(await readFile(join(dir, "existing.ts"), "utf-8")).toBe("original");
+  });
+
+  it("restores protected files changed outside the transaction", async () => {
+    const transaction = createTransaction();
+    transaction.protect(join(dir, "existing.ts"));
+    transaction.protect(join(dir, "created-later.json"));
+
+    await writeFile(join(dir, "existing.ts"), "clobbered");
+    await writeFile(join(dir, "created-later.json"), "{}");
+    transaction.rollback();
+
+    expect(await readFile(join(dir, "existing.ts"), "utf-8")).toBe("original");
+    expect(existsSync(join(dir, "created-later.json"))).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { addComponent } from "../../cli/commands/add";
+import { updateComponents } from "../../cli/commands/update";
+
+// Mock ora
+vi.mock("ora", () => ({
+  default: vi.fn(() => ({
+    start: vi.fn().mockReturnThis(),
+    stop: vi.fn().mockReturnThis(),
+    succeed: vi.fn().mockReturnThis(),
+    fail: vi.fn().mockReturnThis(),
+    text: "",
+  })),
+}));
+
+vi.mock("execa", () => ({
+  execa: vi.fn().mockResolvedValue({ stdout: "", stderr: "" }),
+}));
+
+// Mock fetch
+global.fetch = vi.fn();
+
+const jsonResponse = (body: unknown) => new Response(JSON.stringify(body));
+
+const cardContent = [
+  "export function Card() {",
+  "  const size = 10;",
+  "  const color = 'red';",
+  "  const speed = 1;",
+  "  const delay = 0;",
+  "  const easing = 'linear';",
+  '  return <div className="card" />;',
+  "}",
+  "",
+].join("\n");
+
+const utilsContent = "export function cn(a: string) { return a; }\n";
+
+const makeCard = (content: string, dependencies: string[] = []) => ({
+  name: "card",
+  type: "registry:component",
+  files: [{ name: "card.tsx", content }],
+  dependencies,
+  devDependencies: [],
+  registryDependencies: ["utils"],
+});
+
+const makeUtils = (content: string) => ({
+  name: "utils",
+  type: "registry:lib",
+  files: [{ name: "utils/index.ts", content }],
+  dependencies: [],
+  devDependencies: [],
+  registryDependencies: [],
+});
+
+describe("clipmotion update", () => {
+  let projectDir: string;
+  let registry: Record<string, unknown>;
+  let consoleLogSpy: any;
+  let consoleErrorSpy: any;
+  let processExitSpy: any;
+
+  const output = () =>
+    consoleLogSpy.mock.calls
+      .map((call: unknown[]) => call.join(" "))
+      .join("\n");
+
+  const cardPath = () => join(projectDir, "components", "card.tsx");
+  const utilsPath = () => join(projectDir, "components", "utils", "index.ts");
+  const readLock = async () =>
+    JSON.parse(
+      await readFile(join(projectDir, "clipmotion-lock.json"), "utf-8")
+    );
+
+  beforeEach(async () => {
+    projectDir = join(
+      tmpdir(),
+      `clipmotion-update-${Date.now()}-${Math.random().toString(36).slice(2)}`
+    );
+    await mkdir(projectDir, { recursive: true });
+
+    await writeFile(
+      join(projectDir, "clipmotion-components.json"),
+      JSON.stringify({
+        framework: "react",
+        aliases: {
+          components: "components",
+          utils: "components/utils",
+        },
+        registry: {
+          baseUrl: "https://example.com/registry",
+        },
+      })
+    );
+
+    registry = { card: makeCard(cardContent), utils: makeUtils(utilsContent) };
+    (global.fetch as any).mockImplementation(async (url: string) => {
+      const name = url.split("/").pop()!.replace(".json", "");
+      const component = registry[name];
+      return component
+        ? jsonResponse(component)
+        : new Response(null, { status: 404, statusText: "Not Found" });
+    });
+
+    await addComponent(["card"], { cwd: projectDir, silent: true });
+
+    consoleLogSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    consoleErrorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    processExitSpy = vi
+      .spyOn(process, "exit")
+      // @ts-expect-error - mock exit to throw
+      .mockImplementation((code?: number) => {
+        throw new Error(`process.exit(${code})`);
+      });
+  });
+
+  afterEach(async () => {
+    consoleLogSpy.mockRestore();
+    consoleErrorSpy.mockRestore();
+    processExitSpy.mockRestore();
+    vi.clearAllMocks();
+    await rm(projectDir, { recursive: true, force: true });
+  });
+
+  it("leaves everything alone when the registry hasn't changed", async () => {
+    const before = await readLock();
+
+    await updateComponents([], { cwd: projectDir });
+
+    expect(processExitSpy).not.toHaveBeenCalled();
+    expect(output()).toContain("0 updated");
+    expect(output()).toContain("2 unchanged");
+    expect(await readLock()).toEqual(before);
+  });
+
+  it("takes the new registry version of untouched files", async () => {
+    const upstream = cardContent.replace("size = 10", "size = 12");
+    registry.card = makeCard(upstream);
+
+    await updateComponents(["card"], { cwd: projectDir });
+
+    expect(await readFile(cardPath(), "utf-8")).toBe(upstream);
+    expect(output()).toContain("components/card.tsx (updated)");
+
+    const entry = (await readLock()).components.card;
+    expect(entry.updatedAt).toBeDefined();
+    expect(entry.files[0].hash).toBe(entry.files[0].registryHash);
+  });
+
+  it("merges registry changes into locally modified files", async () => {
+    await writeFile(
+      cardPath(),
+      cardContent.replace('className="card"', 'className="card shadow"')
+    );
+    registry.card = makeCard(cardContent.replace("size = 10", "size = 12"));
+
+    await updateComponents(["card"], { cwd: projectDir });
+
+    const merged = await readFile(cardPath(), "utf-8");
+    expect(merged).toContain("size = 12");
+    expect(merged).toContain('className="card shadow"');
+    expect(output()).toContain("1 merged");
+
+    // The merged registry version is the base for the next update
+    consoleLogSpy.mockClear();
+    await updateComponents(["card"], { cwd: projectDir });
+    expect(output()).toContain("components/card.tsx (unchanged)");
+  });
+
+  it("writes conflict markers and exits 1 on overlapping edits", async () => {
+    await writeFile(
+      cardPath(),
+      cardContent.replace("color = 'red'", "color = 'blue'")
+    );
+    registry.card = makeCard(
+      cardContent.replace("color = 'red'", "color = 'green'")
+    );
+
+    await expect(
+      updateComponents(["card"], { cwd: projectDir })
+    ).rejects.toThrow("process.exit(1)");
+
+    const content = await readFile(cardPath(), "utf-8");
+    expect(content).toContain("<<<<<<< components/card.tsx");
+    expect(content).toContain("  const color = 'blue';\n=======");
+    expect(content).toContain(">>>>>>> registry/react/card.tsx");
+    expect(output()).toContain("1 conflict)");
+    expect(output()).toContain("Resolve the conflict markers");
+  });
+
+  it("merges the shared utils file one function at a time", async () => {
+    await writeFile(
+      utilsPath(),
+      "export function mine() { return 1; }\n\n" + utilsContent
+    );
+    registry.utils = makeUtils(
+      "export function cn(a: string) { return a.trim(); }\n\n" +
+        "export function lerp(a: number, b: number, t: number) { return a + (b - a) * t; }\n"
+    );
+
+    await updateComponents(["utils"], { cwd: projectDir });
+
+    const content = await readFile(utilsPath(), "utf-8");
+    expect(content).toContain("export function mine()");
+    expect(content).toContain("return a.trim();");
+    expect(content).toContain("export function lerp(");
+
+    const [file] = (await readLock()).components.utils.files;
+    expect(file.exports).toEqual(["lerp"]);
+  });
+
+  it("keeps modified files that have no merge base", async () => {
+    await writeFile(cardPath(), "// mine");
+    await rm(join(projectDir, ".clipmotion"), { recursive: true });
+    registry.card = makeCard(cardContent.replace("size = 10", "size = 12"));
+
+    await updateComponents(["card"], { cwd: projectDir });
+
+    expect(await readFile(cardPath(), "utf-8")).toBe("// mine");
+    expect(output()).toContain("no merge base");
+  });
+
+  it("installs packages the new version depends on", async () => {
+    const { execa } = await import("execa");
+    registry.card = makeCard(cardContent, ["motion"]);
+
+    await updateComponents(["card"], { cwd: projectDir });
+
+    expect(execa).toHaveBeenCalledWith(
+      expect.any(String),
+      expect.arrayContaining(["motion"]),
+      expect.any(Object)
+    );
+    expect((await readLock()).components.card.addedDependencies).toEqual([
+      "motion",
+    ]);
+  });
+
+  it("refuses components that aren't in the lockfile", async () => {
+    await expect(
+      updateComponents(["ghost"], { cwd: projectDir })
+    ).rejects.toThrow("process.exit(1)");
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      expect.stringContaining("Not installed: ghost")
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDeclarationCode,
+  getDeclarationNames,
+  mergeUtilsContent,
+  removeDeclarations,
+} from "../../cli/utils-merge";
+
+const cnSource = `import { clsx, type ClassValue } from "clsx";
+import { twMerge } from "tailwind-merge";
+
+/** Joins class names, letting later Tailwind classes win */
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+`;
+
+describe("utils merge", () => {
+  it("finds declarations regardless of nesting", () => {
+    const content = `export function spring(config: { stiffness: number }) {
+  const presets = { gentle: { stiffness: { value: 120 } } };
+  if (config.stiffness > 0) {
+    return { ...presets.gentle, nested: { deep: { deeper: true } } };
+  }
+  return presets.gentle;
+}
+
+export const clamp = (v: number, min: number, max: number) => Math.min(Math.max(v, min), max);
+
+export type Easing = "linear" | "ease-in";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+`;
+
+    expect(getDeclarationNames(content)).toEqual([
+      "spring",
+      "clamp",
+      "Easing",
+      "Point",
+    ]);
+    expect(getDeclarationCode(content, "spring")).toMatch(
+      /^export function spring[\s\S]*return presets\.gentle;\n\}$/
+    );
+    expect(getDeclarationCode(cnSource, "cn")).toMatch(/^\/\*\* Joins/);
+  });
+
+  it("brings the imports a new export needs", () => {
+    const result = mergeUtilsContent(
+      'export function existing() {\n  return "old";\n}\n',
+      cnSource
+    );
+
+    expect(result.added).toEqual(["cn"]);
+    expect(result.content).toBe(`import { clsx, type ClassValue } from "clsx";
+import { twMerge } from "tailwind-merge";
+
+export function existing() {
+  return "old";
+}
+
+/** Joins class names, letting later Tailwind classes win */
+export function cn(...inputs: ClassValue[]) {
+  return twMerge(clsx(inputs));
+}
+`);
+  });
+
+  it("adds specifiers to an existing import of the same module", () => {
+    const existing = `import { clsx } from "clsx";
+
+export const join = (...parts: string[]) => clsx(parts);
+`;
+
+    const { content } = mergeUtilsContent(existing, cnSource);
+
+    expect(content).toContain(
+      'import { clsx, type ClassValue } from "clsx";\n'
+    );
+    expect(content.match(/from "clsx"/g)).toHaveLength(1);
+    expect(content).toContain('import { twMerge } from "tailwind-merge";');
+  });
+
+  it("keeps type exports and the private helpers exports use", () => {
+    const incoming = `export type Easing = (t: number) => number;
+
+const clamp01 = (t: number) => Math.min(Math.max(t, 0), 1);
+
+export const easeIn: Easing = (t) => clamp01(t) ** 2;
+`;
+
+    const result = mergeUtilsContent(cnSource, incoming);
+
+    expect(result.added).toEqual(["Easing", "clamp01", "easeIn"]);
+    expect(result.content).toContain(
+      "export type Easing = (t: number) => number;"
+    );
+    expect(result.content).toContain("const clamp01 =");
+  });
+
+  it("reports same-named exports with a different implementation", () => {
+    const mine = cnSource.replace("twMerge(clsx(inputs))", "clsx(inputs)");
+
+    const result = mergeUtilsContent(mine, cnSource);
+
+    expect(result.conflicts).toEqual(["cn"]);
+    expect(result.content).toBe(mine);
+  });
+
+  it("ignores formatting and comments when comparing implementations", () => {
+    const reformatted = cnSource
+      .replace(
+        "/** Joins class names, letting later Tailwind classes win */\n",
+        ""
+      )
+      .replace(
+        "return twMerge(clsx(inputs));",
+        "return twMerge( clsx( inputs ) )"
+      );
+
+    expect(mergeUtilsContent(reformatted, cnSource)).toEqual({
+      content: reformatted,
+      added: [],
+      conflicts: [],
+    });
+  });
+
+  it("removes declarations along with imports nothing else uses", () => {
+    const content = `${cnSource}
+export function join(...parts: string[]) {
+  return clsx(parts);
+}
+`;
+
+    expect(removeDeclarations(content, ["cn"]))
+      .toBe(`import { clsx } from "clsx";
+
+export function join(...parts: string[]) {
+  return clsx(parts);
+}
+`);
+    expect(removeDeclarations(cnSource, ["cn"])).toBe("");
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseVideoUrl,
+  getVideoKey,
+  toVideoKey,
+} from "../../cli/video-identity";
+
+describe("video identity", () => {
+  describe("YouTube", () => {
+    it.each([
+      ["https://www.youtube.com/watch?v=dQw4w9WgXcQ"],
+      ["https://youtube.com/watch?v=dQw4w9WgXcQ&t=42s"],
+      ["https://m.youtube.com/watch?v=dQw4w9WgXcQ&feature=share"],
+      ["https://music.youtube.com/watch?v=dQw4w9WgXcQ&list=RDdQw4w9WgXcQ"],
+      ["https://www.youtube.com/watch?feature=youtu.be&v=dQw4w9WgXcQ"],
+      ["https://youtu.be/dQw4w9WgXcQ"],
+      ["https://youtu.be/dQw4w9WgXcQ?si=AbCdEfGhIjKlMnOp"],
+      ["https://youtu.be/dQw4w9WgXcQ?t=10"],
+      ["https://www.youtube.com/shorts/dQw4w9WgXcQ"],
+      ["https://youtube.com/shorts/dQw4w9WgXcQ?si=AbCdEfGhIjKlMnOp"],
+      ["https://m.youtube.com/shorts/dQw4w9WgXcQ?feature=share"],
+      ["https://www.youtube.com/embed/dQw4w9WgXcQ?autoplay=1"],
+      ["https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ"],
+      ["https://www.youtube.com/live/dQw4w9WgXcQ?feature=shared"],
+      ["https://www.youtube.com/v/dQw4w9WgXcQ"],
+      ["http://WWW.YOUTUBE.COM/watch?v=dQw4w9WgXcQ"],
+      ["youtube.com/shorts/dQw4w9WgXcQ"],
+      ["youtu.be/dQw4w9WgXcQ"],
+      ["  https://youtu.be/dQw4w9WgXcQ  "],
+      ["https://youtu.be/dQw4w9WgXcQ#comments"],
+    ])("%s", (url) => {
+      expect(parseVideoUrl(url)).toEqual({
+        platform: "youtube",
+        id: "dQw4w9WgXcQ",
+      });
+    });
+  });
+
+  describe("Instagram", () => {
+    it.each([
+      ["https://www.instagram.com/p/DRPOaKMiItG/"],
+      ["https://www.instagram.com/p/DRPOaKMiItG"],
+      ["https://instagram.com/p/DRPOaKMiItG/?igsh=MWQ1ZGUxMzBkMA=="],
+      ["https://www.instagram.com/reel/DRPOaKMiItG/?utm_source=ig_web_copy_link"],
+      ["https://www.instagram.com/reels/DRPOaKMiItG/"],
+      ["https://www.instagram.com/tv/DRPOaKMiItG"],
+      ["https://m.instagram.com/reel/DRPOaKMiItG/"],
+      ["https://www.instagram.com/nerdboi008/p/DRPOaKMiItG/"],
+      ["https://www.instagram.com/nerdboi008/reel/DRPOaKMiItG/?hl=en"],
+      ["https://instagr.am/p/DRPOaKMiItG/"],
+      ["instagram.com/reel/DRPOaKMiItG"],
+    ])("%s", (url) => {
+      expect(parseVideoUrl(url)).toEqual({
+        platform: "instagram",
+        id: "DRPOaKMiItG",
+      });
+    });
+
+    it("keeps the id case-sensitive", () => {
+      expect(toVideoKey("https://instagram.com/p/AbC")).not.toBe(
+        toVideoKey("https://instagram.com/p/abc")
+      );
+    });
+  });
+
+  describe("TikTok", () => {
+    it.each([
+      ["https://www.tiktok.com/@nerdboi/video/7301234567890123456"],
+      [
+        "https://www.tiktok.com/@nerdboi/video/7301234567890123456?is_from_webapp=1&sender_device=pc",
+      ],
+      [
+        "https://www.tiktok.com/@nerd.boi_008/video/7301234567890123456?_r=1&_t=8abc",
+      ],
+      ["https://m.tiktok.com/v/7301234567890123456.html"],
+      ["https://m.tiktok.com/v/7301234567890123456"],
+      ["https://www.tiktok.com/embed/v2/7301234567890123456"],
+      ["https://www.tiktok.com/embed/7301234567890123456"],
+      ["https://www.tiktok.com/@nerdboi/photo/7301234567890123456"],
+      ["tiktok.com/@nerdboi/video/7301234567890123456"],
+    ])("%s", (url) => {
+      expect(parseVideoUrl(url)).toEqual({
+        platform: "tiktok",
+        id: "7301234567890123456",
+      });
+    });
+  });
+
+  describe("share links", () => {
+    it.each([
+      ["https://vm.tiktok.com/ZMabc123/", "tiktok", "ZMabc123"],
+      ["https://vm.tiktok.com/ZMabc123/?k=1", "tiktok", "ZMabc123"],
+      ["https://vt.tiktok.com/ZSxyz789/", "tiktok", "ZSxyz789"],
+      ["https://www.tiktok.com/t/ZTRabc123/", "tiktok", "ZTRabc123"],
+      ["https://www.instagram.com/share/BAabc123", "instagram", "BAabc123"],
+      [
+        "https://www.instagram.com/share/reel/BAabc123?igsh=xyz",
+        "instagram",
+        "BAabc123",
+      ],
+      ["https://instagram.com/share/p/BAabc123/", "instagram", "BAabc123"],
+    ])("%s", (url, platform, id) => {
+      expect(parseVideoUrl(url)).toEqual({ platform, id, shortLink: true });
+    });
+
+    it("never collides with canonical ids", () => {
+      expect(toVideoKey("https://vm.tiktok.com/123/")).toBe("tiktok:short:123");
+      expect(toVideoKey("https://www.tiktok.com/@a/video/123")).toBe(
+        "tiktok:123"
+      );
+    });
+  });
+
+  describe("unsupported input", () => {
+    it.each([
+      ["not a url"],
+      [""],
+      ["https://example.com/watch?v=dQw4w9WgXcQ"],
+      ["https://www.youtube.com/"],
+      ["https://www.youtube.com/watch"],
+      ["https://www.youtube.com/@channel"],
+      ["https://www.instagram.com/nerdboi008/"],
+      ["https://www.tiktok.com/@nerdboi"],
+      ["ftp://youtube.com/watch?v=dQw4w9WgXcQ"],
+      ["https://www.youtube.com/watch?v=bad%20id"],
+    ])("%s", (url) => {
+      expect(parseVideoUrl(url)).toBeNull();
+      expect(toVideoKey(url)).toBeNull();
+    });
+  });
+
+  describe("getVideoKey", () => {
+    it("formats canonical and short-link keys", () => {
+      expect(getVideoKey({ platform: "youtube", id: "abc" })).toBe(
+        "youtube:abc"
+      );
+      expect(
+        getVideoKey({ platform: "instagram", id: "abc", shortLink: true })
+      ).toBe("instagram:short:abc");
+    });
+
+    it("gives every shape of the same video the same key", () => {
+      const keys = new Set(
+        [
+          "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+          "https://youtu.be/dQw4w9WgXcQ?si=share",
+          "https://youtube.com/shorts/dQw4w9WgXcQ",
+          "https://m.youtube.com/watch?v=dQw4w9WgXcQ",
+        ].map(toVideoKey)
+      );
+
+      expect([...keys]).toEqual(["youtube:dQw4w9WgXcQ"]);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import { mkdir, writeFile, rm, readFile } from "fs/promises";
+import { cp, mkdir, writeFile, rm, readFile } from "fs/promises";
 import { existsSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
@@ -424,6 +424,84 @@ export function Component() { return null; }
     });
   });
 
+  describe("--cwd", () => {
+    const app = () => join(testDir, "apps", "web");
+    const run = (args: string[]) =>
+      execa("node", [cliPath, ...args, "--cwd", "apps/web"]);
+
+    beforeEach(async () => {
+      // The local registry's packages are already there, so nothing installs
+      await mkdir(app(), { recursive: true });
+      await writeFile(
+        join(app(), "package.json"),
+        JSON.stringify({
+          dependencies: { react: "*", clsx: "*", "tailwind-merge": "*" },
+        })
+      );
+    });
+
+    it("runs every step against the sub-app from the repo root", async () => {
+      await run(["init", "--framework", "react", "--no-interactive"]);
+      expect(existsSync(join(app(), "clipmotion-components.json"))).toBe(true);
+      expect(existsSync(join(app(), "components", "utils"))).toBe(true);
+
+      await run(["add", "image-crossfade", "--local", "--silent"]);
+      expect(existsSync(join(app(), "components", "image-crossfade.tsx"))).toBe(
+        true
+      );
+      expect(existsSync(join(app(), "components", "utils", "index.ts"))).toBe(
+        true
+      );
+      const lock = JSON.parse(
+        await readFile(join(app(), "clipmotion-lock.json"), "utf8")
+      );
+      expect(Object.keys(lock.components)).toEqual([
+        "image-crossfade",
+        "utils",
+      ]);
+
+      const diff = await run(["diff", "--local", "--json"]);
+      const report = JSON.parse(diff.stdout);
+      expect(report.drift).toBe(false);
+      expect(report.components).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: "image-crossfade" }),
+        ])
+      );
+
+      await run(["remove", "image-crossfade", "utils", "--yes"]);
+      expect(existsSync(join(app(), "components", "image-crossfade.tsx"))).toBe(
+        false
+      );
+
+      // Nothing leaked into the directory clipmotion ran from
+      expect(existsSync(join(testDir, "clipmotion-components.json"))).toBe(
+        false
+      );
+      expect(existsSync(join(testDir, "clipmotion-lock.json"))).toBe(false);
+      expect(existsSync(join(testDir, "components"))).toBe(false);
+    });
+
+    it("reads credits from the sub-app's registry", async () => {
+      await cp(join(originalCwd, "public", "r"), join(app(), "public", "r"), {
+        recursive: true,
+      });
+
+      const { stdout } = await run(["credits", "image-crossfade"]);
+
+      expect(stdout).toContain("NerdBoi008");
+    });
+
+    it("fails clearly when the directory doesn't exist", async () => {
+      await expect(
+        execa("node", [cliPath, "list", "--cwd", "apps/missing"])
+      ).rejects.toMatchObject({
+        exitCode: 1,
+        stderr: expect.stringContaining("Project directory not found"),
+      });
+    });
+  });
+
   describe("Error handling", () => {
     it("shows helpful error for invalid command", async () => {
       try {
@@ -0,0 +1,18 @@
+import { afterEach, beforeEach } from "vitest";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+// Each test gets an empty user cache, so mocked registries are never served
+// from what another test fetched
+let cacheDir: string;
+
+beforeEach(() => {
+  cacheDir = mkdtempSync(join(tmpdir(), "clipmotion-cache-"));
+  process.env.CLIPMOTION_CACHE_DIR = cacheDir;
+});
+
+afterEach(() => {
+  delete process.env.CLIPMOTION_CACHE_DIR;
+  rmSync(cacheDir, { recursive: true, force: true });
+});
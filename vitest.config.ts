@@ -5,6 +5,7 @@ export default defineConfig({
   test: {
     environment: "node",
     include: ["./tests/**/*.{test,spec}.{ts,tsx}"],
+    setupFiles: ["./tests/setup.ts"],
     coverage: {
       provider: "v8",
       reporter: ["text", "json", "html"],